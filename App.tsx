@@ -1,123 +1,427 @@
-import React, { useState, useEffect } from 'react';
-import { UserProfile, AppState, AnalysisResult, ScanHistoryItem } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { UserProfile, AppState, AnalysisResult, ChatMessage, Consumption, ProductCorrection, ScanHistoryItem } from './types';
 import UserProfileForm from './components/UserProfileForm';
 import ImageCapture from './components/ImageCapture';
 import AnalysisView from './components/AnalysisView';
-import { analyzeHealthImpact } from './services/geminiService';
-import { Settings, History, PlusCircle, ChevronLeft, Loader2, Sparkles, Trash2, Lock, AlertCircle, Share2 } from 'lucide-react';
+import AnalysisErrorCard from './components/AnalysisErrorCard';
+import AnalysisProgressView from './components/AnalysisProgressView';
+import DailyEnergyCard from './components/DailyEnergyCard';
+import FollowUpChat from './components/FollowUpChat';
+import CompareView from './components/CompareView';
+import TodayView from './components/TodayView';
+import LogConsumptionCard from './components/LogConsumptionCard';
+import HistoryFilterBar from './components/HistoryFilterBar';
+import HistoryListItem from './components/HistoryListItem';
+import LanguageSettingsCard from './components/LanguageSettingsCard';
+import OfflineQueueBanner, { QueueNotice } from './components/OfflineQueueBanner';
+import DataManagementCard from './components/DataManagementCard';
+import { analyzeWithCache } from './services/geminiService';
+import { applyProductCorrection } from './services/productIdentification';
+import { AnalysisError, toAnalysisError } from './services/errors';
+import { createEmptyProfile, loadProfile, saveProfile } from './services/profileStorage';
+import { addHistoryItem, clearHistoryStore, deleteHistoryItem, getHistoryPage, migrateLegacyHistory, updateHistoryItem } from './services/historyStore';
+import { EMPTY_HISTORY_FILTERS, HistoryFilters, HistorySort, collectTags, hasActiveFilters, matchesHistoryFilters, sortHistory } from './services/historySearch';
+import { createThumbnail } from './services/imageProcessing';
+import { getQualityThresholds } from './services/imageQuality';
+import { pruneResultCache } from './services/resultCache';
+import { ScanQueueRun, enqueueScan, getQueuedScans, runScanQueue } from './services/scanQueue';
+import { requestNotificationPermission, showBackgroundNotification } from './services/notifications';
+import { useI18n } from './i18n';
+import { Settings, History, PlusCircle, ChevronLeft, Loader2, Sparkles, Trash2, Lock, AlertCircle, Share2, X, Scale, CalendarDays, CloudOff } from 'lucide-react';
 import clsx from 'clsx';
+
+// More columns don't fit the comparison table on a phone
+const MAX_COMPARE_ITEMS = 4;
+// Read once: the env settings can't change while the app runs
+const QUALITY_THRESHOLDS = getQualityThresholds();
+
 function App() {
+  const { m, locale } = useI18n();
+
   // State
   const [appState, setAppState] = useState<AppState>(AppState.ONBOARDING);
-  const [userProfile, setUserProfile] = useState<UserProfile>({ age: '', gender: '', healthContext: '' });
-  const [activeTab, setActiveTab] = useState<'scan' | 'history' | 'settings'>('scan');
+  const [userProfile, setUserProfile] = useState<UserProfile>(createEmptyProfile);
+  const [activeTab, setActiveTab] = useState<'scan' | 'today' | 'history' | 'settings'>('scan');
   
   // Analysis State
   const [selectedImages, setSelectedImages] = useState<string[]>([]);
+  const [imagesPassQualityGate, setImagesPassQualityGate] = useState(true);
+  const [barcode, setBarcode] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [currentResult, setCurrentResult] = useState<AnalysisResult | null>(null);
+  // Fields streamed so far for the analysis in flight
+  const [partialResult, setPartialResult] = useState<Partial<AnalysisResult> | null>(null);
+  const [isResultFromCache, setIsResultFromCache] = useState(false);
+  // History entry backing currentResult; follow-up chat is saved there
+  const [currentHistoryItem, setCurrentHistoryItem] = useState<Pick<ScanHistoryItem, 'id' | 'chat' | 'consumptions'> | null>(null);
+  const [analysisError, setAnalysisError] = useState<AnalysisError | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Bumped for each scan shown; keys the follow-up chat so it doesn't remount
+  // when the history id arrives after the result
+  const [scanRun, setScanRun] = useState(0);
+  // Chat finished before the scan's history entry was written, saved once it is
+  const unsavedChatRef = useRef<ChatMessage[] | null>(null);
+  // The user's product correction for the scan on screen, kept for every later re-analysis
+  const productCorrectionRef = useRef<ProductCorrection | null>(null);
+  // Bumped to clear ImageCapture once its images have been queued
+  const [captureKey, setCaptureKey] = useState(0);
+
+  // Offline Queue State
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [queueNotice, setQueueNotice] = useState<QueueNotice | null>(null);
   
   // History State
   const [history, setHistory] = useState<ScanHistoryItem[]>([]);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historySort, setHistorySort] = useState<HistorySort>('newest');
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+
+  // Compare State
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isSelectingForCompare, setIsSelectingForCompare] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
 
   // Initialize
   useEffect(() => {
-    const savedProfile = localStorage.getItem('sukoyaka_profile');
-    const savedHistory = localStorage.getItem('sukoyaka_history');
+    const savedProfile = loadProfile();
     
     if (savedProfile) {
-      const parsedProfile = JSON.parse(savedProfile);
-      setUserProfile(parsedProfile);
+      setUserProfile(savedProfile);
       // Check if profile is actually valid/complete
-      if (parsedProfile.age && parsedProfile.healthContext) {
+      if (savedProfile.age && savedProfile.healthContext) {
           setAppState(AppState.DASHBOARD);
       } else {
           setAppState(AppState.ONBOARDING);
       }
     }
-    
-    if (savedHistory) {
-      setHistory(JSON.parse(savedHistory));
-    }
+
+
+    migrateLegacyHistory()
+      .catch((e) => console.error("History migration failed", e))
+      .then(() => loadMoreHistory(0));
+
+    getQueuedScans()
+      .then((scans) => setQueuedCount(scans.length))
+      .catch((e) => console.warn("Failed to read scan queue", e));
+
+    const onOnline = () => setIsOnline(true);
+    const onOffline = () => setIsOnline(false);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
   }, []);
 
-  // Save History
-  const saveToHistory = (result: AnalysisResult, images: string[]) => {
+  // Runs scans queued while offline as soon as there is a connection. Needs a
+  // complete profile, same as a scan started by hand.
+  useEffect(() => {
+    if (!isOnline || appState !== AppState.DASHBOARD) return;
+    runQueuedScans();
+  }, [isOnline, appState]);
+
+  // Appends the next page of history from IndexedDB
+  const loadMoreHistory = async (offset = history.length, limit?: number) => {
+    setIsLoadingHistory(true);
+    try {
+      const page = await getHistoryPage(offset, limit);
+      setHistory(prev => (offset === 0 ? page.items : [...prev, ...page.items]));
+      setHasMoreHistory(page.hasMore);
+    } catch (e) {
+      console.error("Failed to load history", e);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  // Searching or re-sorting only the loaded pages would miss older scans, so
+  // the rest of the history is loaded once either is in use.
+  const isSearchingHistory = hasActiveFilters(historyFilters) || historySort !== 'newest';
+  useEffect(() => {
+    if (activeTab !== 'history' || !isSearchingHistory || !hasMoreHistory || isLoadingHistory) return;
+    loadMoreHistory(history.length, Infinity);
+  }, [activeTab, isSearchingHistory, hasMoreHistory, isLoadingHistory]);
+
+  // Save History. Resolves with the new item's id only once it is in IndexedDB,
+  // since updateHistoryItem (chat, food log) ignores ids it can't find yet.
+  const saveToHistory = async (result: AnalysisResult, images: string[], barcode: string | null, promptVersion: string): Promise<string | null> => {
     // Don't save if the result was an error/unclear image
-    if (result.imageQualityCheck && result.imageQualityCheck.isUnclear) return;
+    if (result.imageQualityCheck && result.imageQualityCheck.isUnclear) return null;
 
-    // Compress logic or simplified thumbnail logic could go here.
-    // For now, we use the first image. In production, canvas resizing is recommended.
-    const newItem: ScanHistoryItem = {
+    const item = {
       id: Date.now().toString(),
       timestamp: Date.now(),
       result,
-      imagePreviewUrl: images[0] 
+      barcode: barcode ?? undefined,
+      promptVersion,
     };
-    
-    setHistory(prev => {
-        const updated = [newItem, ...prev];
-        // Limit history to avoid storage overflow
-        if (updated.length > 20) updated.pop();
-        
-        try {
-             localStorage.setItem('sukoyaka_history', JSON.stringify(updated));
-        } catch (e) {
-            console.error("Storage full", e);
-            // Fallback: save without image if full
-            const noImageHistory = updated.map(h => ({...h, imagePreviewUrl: undefined}));
-             localStorage.setItem('sukoyaka_history', JSON.stringify(noImageHistory));
-        }
-        return updated;
-    });
+    await storeHistoryItem(item, images[0]);
+    return item.id;
+  };
+
+  const storeHistoryItem = async (item: Omit<ScanHistoryItem, 'imagePreviewUrl'>, image: string) => {
+    let thumbnail: Blob | undefined;
+    try {
+      thumbnail = await createThumbnail(image);
+    } catch (e) {
+      console.warn("Thumbnail generation failed", e);
+    }
+
+    const newItem: ScanHistoryItem = {
+      ...item,
+      imagePreviewUrl: thumbnail ? URL.createObjectURL(thumbnail) : undefined,
+    };
+    setHistory(prev => [newItem, ...prev]);
+
+    try {
+      await addHistoryItem(item, thumbnail);
+    } catch (e) {
+      console.error("Failed to save history", e);
+    }
+  };
+
+  const replaceHistoryResult = (id: string, result: AnalysisResult, promptVersion?: string) => {
+    const changes = promptVersion ? { result, promptVersion } : { result };
+    setHistory(prev => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+    updateHistoryItem(id, changes).catch((e) => console.error("Failed to update history result", e));
   };
 
-  const clearHistory = () => {
-      if(window.confirm("履歴をすべて削除しますか？")) {
+  const runQueuedScans = async () => {
+    let run: ScanQueueRun;
+    try {
+      run = await runScanQueue(userProfile, async (scan, { result, promptVersion }) =>
+        (await saveToHistory(result, scan.images, scan.barcode ?? null, promptVersion)) !== null
+      );
+    } catch (e) {
+      console.error("Failed to run queued scans", e);
+      return;
+    }
+    setQueuedCount(run.remaining);
+    if (run.completed + run.failed === 0) return;
+
+    setQueueNotice({ kind: 'done', completed: run.completed, failed: run.failed });
+    showBackgroundNotification(m.queue.doneTitle, m.queue.doneBody(run.completed, run.failed));
+  };
+
+  // Keeps the captured images for later and clears the scan screen for the next product
+  const queueScan = async () => {
+    try {
+      await enqueueScan({ images: selectedImages, barcode: barcode ?? undefined, locale });
+    } catch (e) {
+      console.error("Failed to queue scan", e);
+      setAnalysisError(toAnalysisError(e));
+      return;
+    }
+    requestNotificationPermission();
+    resetScan();
+    setCaptureKey((key) => key + 1);
+    setQueuedCount((count) => count + 1);
+    setQueueNotice({ kind: 'queued' });
+  };
+
+  const clearHistory = async () => {
+      if(window.confirm(m.history.confirmClear)) {
+          history.forEach(h => h.imagePreviewUrl && URL.revokeObjectURL(h.imagePreviewUrl));
           setHistory([]);
-          localStorage.removeItem('sukoyaka_history');
+          setHasMoreHistory(false);
+          setCompareIds([]);
+          setIsCompareOpen(false);
+          await clearHistoryStore();
       }
   }
 
   // Handlers
   const handleProfileSave = (profile: UserProfile) => {
     setUserProfile(profile);
-    localStorage.setItem('sukoyaka_profile', JSON.stringify(profile));
+    saveProfile(profile);
+    pruneResultCache(profile).catch((e) => console.warn("Failed to prune result cache", e));
     setAppState(AppState.DASHBOARD);
     setActiveTab('scan'); // Go to scan after setting update
   };
 
-  const handleAnalysis = async () => {
-    if (selectedImages.length === 0) return;
+  // After a backup restore: history is reloaded from the store since merged
+  // items may have changed, not just been added
+  const handleRestored = (profile: UserProfile | null) => {
+    if (profile) {
+      setUserProfile(profile);
+      saveProfile(profile);
+      pruneResultCache(profile).catch((e) => console.warn("Failed to prune result cache", e));
+    }
+    history.forEach(h => h.imagePreviewUrl && URL.revokeObjectURL(h.imagePreviewUrl));
+    loadMoreHistory(0);
+  };
+
+  // bypassCache is the "re-analyze" path: the current result stays on screen
+  // until the fresh one arrives. productCorrection re-analyzes the same photos
+  // as the product the user says it is; later re-analyses of the scan keep it.
+  const handleAnalysis = async (bypassCache = false, productCorrection?: ProductCorrection) => {
+    if (selectedImages.length === 0 || !imagesPassQualityGate) return;
+
+    if (productCorrection) productCorrectionRef.current = productCorrection;
+    else if (!bypassCache) productCorrectionRef.current = null;
+    const correction = productCorrectionRef.current ?? undefined;
+
+    // No point waiting for a timeout in a basement: queue it straight away
+    if (!bypassCache && !navigator.onLine) {
+      await queueScan();
+      return;
+    }
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsAnalyzing(true);
-    setCurrentResult(null);
+    if (!bypassCache) {
+      setCurrentResult(null);
+      setScanRun(run => run + 1);
+      unsavedChatRef.current = null;
+    }
+    setPartialResult(null);
+    setAnalysisError(null);
     
     try {
-      const result = await analyzeHealthImpact(userProfile, selectedImages);
+      const { result, fromCache, promptVersion } = await analyzeWithCache(userProfile, selectedImages, {
+        signal: controller.signal,
+        barcode: barcode ?? undefined,
+        locale,
+        productCorrection: correction,
+        bypassCache,
+        // A re-analysis keeps showing the previous result instead of a preview
+        onPartial: bypassCache ? undefined : setPartialResult,
+      });
       setCurrentResult(result);
-      saveToHistory(result, selectedImages);
+      setIsResultFromCache(fromCache);
+      if (bypassCache && currentHistoryItem) {
+        // Same scan: replace the saved result so its chat and food log stay attached
+        if (!result.imageQualityCheck?.isUnclear) replaceHistoryResult(currentHistoryItem.id, result, promptVersion);
+      } else {
+        // Cache hits are logged too: history records scans, not model calls
+        const historyId = await saveToHistory(result, selectedImages, barcode, promptVersion);
+        // Reset while the entry was being written: it belongs to no open scan
+        if (!controller.signal.aborted) {
+          setCurrentHistoryItem(historyId ? { id: historyId } : null);
+          if (historyId && unsavedChatRef.current) saveChat(historyId, unsavedChatRef.current);
+          unsavedChatRef.current = null;
+        }
+      }
     } catch (error) {
-      alert(error instanceof Error ? error.message : "エラーが発生しました");
+      const analysisError = toAnalysisError(error);
+      if (analysisError.kind === 'network' && !bypassCache) {
+        // The connection dropped mid-scan; run it again once it's back
+        await queueScan();
+      } else if (analysisError.kind !== 'cancelled') {
+        // User-initiated cancel needs no explanation
+        setAnalysisError(analysisError);
+      }
     } finally {
+      abortControllerRef.current = null;
+      setPartialResult(null);
       setIsAnalyzing(false);
     }
   };
 
+  const cancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const resetScan = () => {
+    cancelAnalysis();
     setSelectedImages([]);
+    setImagesPassQualityGate(true);
+    setBarcode(null);
     setCurrentResult(null);
+    setIsResultFromCache(false);
+    setCurrentHistoryItem(null);
+    unsavedChatRef.current = null;
+    productCorrectionRef.current = null;
+    setAnalysisError(null);
+  };
+
+  // Either way the corrected result replaces the one in the current history
+  // entry. Without the photos (reopened from history) there is nothing to
+  // re-analyze, so the correction is only written onto the saved result.
+  const handleCorrectProduct = (correction: ProductCorrection) => {
+    if (selectedImages.length > 0) {
+      handleAnalysis(true, correction);
+      return;
+    }
+    if (!currentResult) return;
+    const result = applyProductCorrection(currentResult, correction);
+    setCurrentResult(result);
+    if (currentHistoryItem) replaceHistoryResult(currentHistoryItem.id, result);
+  };
+
+  const saveChat = (id: string, chat: ChatMessage[]) => {
+    setHistory(prev => prev.map((item) => (item.id === id ? { ...item, chat } : item)));
+    updateHistoryItem(id, { chat }).catch((e) => console.error("Failed to save chat", e));
+  };
+
+  const handleChatChange = (chat: ChatMessage[]) => {
+    if (currentHistoryItem) saveChat(currentHistoryItem.id, chat);
+    else unsavedChatRef.current = chat;
   };
 
   const loadHistoryItem = (item: ScanHistoryItem) => {
+      // Drop any images from an earlier scan so they can't be re-analyzed under this result
+      resetScan();
+      setScanRun(run => run + 1);
       setCurrentResult(item.result);
+      setCurrentHistoryItem({ id: item.id, chat: item.chat, consumptions: item.consumptions });
       setActiveTab('scan');
   };
 
+  const updateHistoryEntry = (id: string, changes: Pick<ScanHistoryItem, 'favorite' | 'tags' | 'note'>) => {
+    setHistory(prev => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+    updateHistoryItem(id, changes).catch((e) => console.error("Failed to update history item", e));
+  };
+
+  const deleteHistoryEntry = async (item: ScanHistoryItem) => {
+    if (!window.confirm(m.history.confirmDelete)) return;
+    if (item.imagePreviewUrl) URL.revokeObjectURL(item.imagePreviewUrl);
+    setHistory(prev => prev.filter((h) => h.id !== item.id));
+    setCompareIds(prev => prev.filter((id) => id !== item.id));
+    // The open result stays on screen, but chat and food log have nowhere to be saved
+    setCurrentHistoryItem(prev => (prev?.id === item.id ? null : prev));
+    try {
+      await deleteHistoryItem(item.id);
+    } catch (e) {
+      console.error("Failed to delete history item", e);
+    }
+  };
+
+  const updateConsumptions = (id: string, consumptions: Consumption[]) => {
+    setHistory(prev => prev.map((item) => (item.id === id ? { ...item, consumptions } : item)));
+    setCurrentHistoryItem(prev => (prev?.id === id ? { ...prev, consumptions } : prev));
+    updateHistoryItem(id, { consumptions }).catch((e) => console.error("Failed to save food log", e));
+  };
+
+  const logConsumption = (portion: number) => {
+    if (!currentHistoryItem) return;
+    const now = Date.now();
+    updateConsumptions(currentHistoryItem.id, [
+      ...(currentHistoryItem.consumptions ?? []),
+      { id: now.toString(), timestamp: now, portion },
+    ]);
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : prev.length < MAX_COMPARE_ITEMS ? [...prev, id] : prev
+    );
+  };
+
+  const openCompare = () => {
+    setIsSelectingForCompare(false);
+    setIsCompareOpen(true);
+    setActiveTab('history');
+  };
+
   const handleShareApp = async () => {
     const shareData = {
       title: 'VitalScope',
-      text: '私の健康状態に合わせて商品をAI診断！あなたもVitalScopeでチェックしてみない？',
+      text: m.app.shareText,
       url: window.location.href,
     };
 
@@ -130,20 +434,31 @@ function App() {
     } else {
       try {
         await navigator.clipboard.writeText(`${shareData.text} ${shareData.url}`);
-        alert('URLをコピーしました');
+        alert(m.app.shareCopied);
       } catch (err) {
         // clipboard permission error
       }
     }
   };
 
+  const visibleHistory = sortHistory(history.filter((item) => matchesHistoryFilters(item, historyFilters)), historySort);
+  const historyTags = collectTags(history);
+
+  const compareItems = compareIds
+    .map((id) => history.find((item) => item.id === id))
+    .filter((item): item is ScanHistoryItem => !!item);
+
   // Check if profile is configured
   const isProfileConfigured = userProfile.age && userProfile.gender && userProfile.healthContext;
 
   // Render Logic
   if (appState === AppState.ONBOARDING) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-4">
+        {/* Visitors may not read the detected language, so let them switch before setup */}
+        <div className="w-full max-w-md">
+          <LanguageSettingsCard />
+        </div>
         <UserProfileForm initialProfile={userProfile} onSave={handleProfileSave} />
       </div>
     );
@@ -165,7 +480,7 @@ function App() {
         <button 
             onClick={handleShareApp}
             className="p-2 text-teal-600 bg-teal-50 hover:bg-teal-100 rounded-full transition-colors"
-            title="アプリをシェア"
+            title={m.app.shareTitle}
         >
             <Share2 size={20} />
         </button>
@@ -173,6 +488,16 @@ function App() {
 
       {/* Main Content */}
       <main className="max-w-xl mx-auto p-4">
+        <OfflineQueueBanner
+            isOnline={isOnline}
+            queuedCount={queuedCount}
+            notice={queueNotice}
+            onDismiss={() => setQueueNotice(null)}
+            onViewHistory={() => {
+                setQueueNotice(null);
+                setActiveTab('history');
+            }}
+        />
         
         {/* TAB: SCAN */}
         {activeTab === 'scan' && (
@@ -184,15 +509,15 @@ function App() {
                       <Lock size={40} />
                   </div>
                   <div>
-                      <h2 className="text-xl font-bold text-gray-800 mb-2">初期設定が必要です</h2>
+                      <h2 className="text-xl font-bold text-gray-800 mb-2">{m.app.setupRequiredTitle}</h2>
                       <p className="text-gray-600 text-sm leading-relaxed mb-4">
-                          このアプリはあなたの健康状態に合わせた診断を行うため、最初にプロフィールを入力してください。
+                          {m.app.setupRequiredBody}
                       </p>
                       <p className="text-gray-600 text-sm leading-relaxed">
-                          VitalScope はあなたに最適な診断結果を出すために、年齢・性別・現在の健康状態・悩みを必要とします。
+                          {m.app.setupRequiredReason}
                       </p>
                       <span className="text-red-500 text-xs mt-4 block">
-                          ※設定が完了するまで診断機能は使用できません。
+                          {m.app.setupRequiredNote}
                       </span>
                   </div>
                   <button 
@@ -200,105 +525,256 @@ function App() {
                       className="w-full bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 rounded-xl shadow-md transition-all flex items-center justify-center gap-2"
                   >
                       <Settings size={18} />
-                      初期設定を始める
+                      {m.app.startSetup}
                   </button>
                </div>
             ) : !currentResult ? (
               /* NORMAL SCAN STATE */
               <>
                 <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 text-center">
-                    <h2 className="text-lg font-bold text-gray-700 mb-2">商品をチェックする</h2>
+                    <h2 className="text-lg font-bold text-gray-700 mb-2">{m.app.scanTitle}</h2>
                     <p className="text-sm text-gray-500 mb-6">
-                        食品の成分表示や商品のパッケージ写真を撮って、<br/>
-                        あなたの健康への影響をチェックしましょう。
+                        {m.app.scanLead[0]}<br/>
+                        {m.app.scanLead[1]}
                     </p>
-                    <ImageCapture onImagesSelected={setSelectedImages} />
+                    <ImageCapture
+                        key={captureKey}
+                        onImagesSelected={setSelectedImages}
+                        onQualityGateChange={setImagesPassQualityGate}
+                        qualityThresholds={QUALITY_THRESHOLDS}
+                        onBarcodeDetected={setBarcode}
+                    />
+
+                    {analysisError && !isAnalyzing && (
+                        <div className="mt-6 text-left">
+                            <AnalysisErrorCard
+                                error={analysisError}
+                                onRetry={selectedImages.length > 0 ? () => handleAnalysis() : undefined}
+                                onDismiss={() => setAnalysisError(null)}
+                            />
+                        </div>
+                    )}
                     
                     {selectedImages.length > 0 && (
                         <button
-                            onClick={handleAnalysis}
-                            disabled={isAnalyzing}
+                            onClick={() => handleAnalysis()}
+                            disabled={isAnalyzing || !imagesPassQualityGate}
                             className="w-full mt-6 bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 rounded-xl shadow-md transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             {isAnalyzing ? (
                                 <>
                                     <Loader2 className="animate-spin" />
-                                    解析中...
+                                    {m.app.analyzing}
+                                </>
+                            ) : !isOnline ? (
+                                <>
+                                    <CloudOff size={20} />
+                                    {m.queue.saveForLater}
                                 </>
                             ) : (
                                 <>
                                     <Sparkles size={20} />
-                                    診断する
+                                    {m.app.analyze}
                                 </>
                             )}
                         </button>
                     )}
+
+                    {isAnalyzing && (
+                        <button
+                            onClick={cancelAnalysis}
+                            className="w-full mt-3 text-sm text-gray-500 hover:text-gray-700 py-2 flex items-center justify-center gap-1"
+                        >
+                            <X size={16} />
+                            {m.common.cancel}
+                        </button>
+                    )}
                 </div>
+
+                {isAnalyzing && partialResult && <AnalysisProgressView partial={partialResult} />}
               </>
             ) : (
               /* RESULT VIEW */
-              <AnalysisView result={currentResult} onRetry={resetScan} />
+              <>
+                {analysisError && !isAnalyzing && (
+                    <AnalysisErrorCard
+                        error={analysisError}
+                        onRetry={() => handleAnalysis(true)}
+                        onDismiss={() => setAnalysisError(null)}
+                    />
+                )}
+                <AnalysisView
+                    result={currentResult}
+                    profile={userProfile}
+                    onRetry={resetScan}
+                    isFromCache={isResultFromCache}
+                    onReanalyze={selectedImages.length > 0 ? () => handleAnalysis(true) : undefined}
+                    isReanalyzing={isAnalyzing}
+                    onCorrectProduct={handleCorrectProduct}
+                />
+                {currentHistoryItem && (
+                    <LogConsumptionCard
+                        consumptions={currentHistoryItem.consumptions ?? []}
+                        onLog={logConsumption}
+                    />
+                )}
+                {currentHistoryItem && (
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => toggleCompare(currentHistoryItem.id)}
+                            disabled={!compareIds.includes(currentHistoryItem.id) && compareIds.length >= MAX_COMPARE_ITEMS}
+                            className="flex-1 py-3 text-sm text-teal-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            <Scale size={16} />
+                            {compareIds.includes(currentHistoryItem.id) ? m.compare.removeFromList : m.compare.addToList}
+                        </button>
+                        {compareIds.length >= 2 && (
+                            <button
+                                onClick={openCompare}
+                                className="flex-1 py-3 text-sm text-white bg-teal-600 rounded-xl hover:bg-teal-700 transition-colors"
+                            >
+                                {m.compare.compareCount(compareIds.length)}
+                            </button>
+                        )}
+                    </div>
+                )}
+                {!currentResult.imageQualityCheck.isUnclear && (
+                    <FollowUpChat
+                        key={scanRun}
+                        profile={userProfile}
+                        images={selectedImages}
+                        result={currentResult}
+                        initialMessages={currentHistoryItem?.chat}
+                        onMessagesChange={handleChatChange}
+                    />
+                )}
+              </>
             )}
           </div>
         )}
 
         {/* TAB: HISTORY */}
-        {activeTab === 'history' && (
+        {activeTab === 'history' && isCompareOpen && (
+          <div className="space-y-4 animate-fade-in">
+            <button onClick={() => setIsCompareOpen(false)} className="text-sm text-gray-500 hover:text-gray-800 flex items-center gap-1">
+                <ChevronLeft size={16} /> {m.compare.backToHistory}
+            </button>
+            {compareItems.length >= 2 ? (
+                <CompareView
+                    items={compareItems}
+                    profile={userProfile}
+                    onRemove={toggleCompare}
+                />
+            ) : (
+                <p className="text-center py-8 text-sm text-gray-400">{m.compare.needTwo}</p>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'history' && !isCompareOpen && (
           <div className="space-y-4 animate-fade-in">
             <div className="flex justify-between items-end mb-2">
-                <h2 className="text-xl font-bold text-gray-800">診断履歴</h2>
+                <h2 className="text-xl font-bold text-gray-800">{m.history.title}</h2>
                 {history.length > 0 && (
-                    <button onClick={clearHistory} className="text-xs text-red-500 flex items-center gap-1 hover:underline">
-                        <Trash2 size={12}/> 履歴を削除
-                    </button>
+                    <div className="flex gap-3">
+                        <button
+                            onClick={() => setIsSelectingForCompare(!isSelectingForCompare)}
+                            className="text-xs text-teal-700 flex items-center gap-1 hover:underline"
+                        >
+                            <Scale size={12}/> {isSelectingForCompare ? m.compare.endSelection : m.compare.start}
+                        </button>
+                        <button onClick={clearHistory} className="text-xs text-red-500 flex items-center gap-1 hover:underline">
+                            <Trash2 size={12}/> {m.history.clear}
+                        </button>
+                    </div>
                 )}
             </div>
+
+            {(isSelectingForCompare || compareIds.length > 0) && (
+                <div className="bg-teal-50 border border-teal-100 rounded-xl p-3 flex items-center justify-between gap-2 text-sm text-teal-800">
+                    <span>
+                        {m.compare.selecting(compareIds.length, MAX_COMPARE_ITEMS)}
+                    </span>
+                    <div className="flex gap-2">
+                        {compareIds.length > 0 && (
+                            <button onClick={() => setCompareIds([])} className="text-xs text-gray-500 hover:underline">
+                                {m.compare.clear}
+                            </button>
+                        )}
+                        <button
+                            onClick={openCompare}
+                            disabled={compareIds.length < 2}
+                            className="text-xs bg-teal-600 text-white px-3 py-1.5 rounded-full disabled:opacity-50"
+                        >
+                            {m.compare.start}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {history.length > 0 && (
+                <HistoryFilterBar
+                    filters={historyFilters}
+                    onFiltersChange={setHistoryFilters}
+                    sort={historySort}
+                    onSortChange={setHistorySort}
+                    tags={historyTags}
+                    matchCount={visibleHistory.length}
+                />
+            )}
             
             {history.length === 0 ? (
                 <div className="text-center py-12 text-gray-400">
                     <History size={48} className="mx-auto mb-3 opacity-20" />
-                    <p>まだ履歴がありません</p>
+                    <p>{m.history.empty}</p>
                 </div>
+            ) : visibleHistory.length === 0 ? (
+                <p className="text-center py-8 text-sm text-gray-400">{m.history.noMatch}</p>
             ) : (
-                history.map((item) => (
-                <div 
-                    key={item.id} 
-                    onClick={() => loadHistoryItem(item)}
-                    className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 flex gap-4 cursor-pointer hover:bg-gray-50 transition-colors"
+                <>
+                    <p className="text-xs text-gray-400 px-1">{m.history.gestureHint}</p>
+                    {visibleHistory.map((item) => (
+                        <HistoryListItem
+                            key={item.id}
+                            item={item}
+                            isSelectingForCompare={isSelectingForCompare}
+                            isSelectedForCompare={compareIds.includes(item.id)}
+                            knownTags={historyTags}
+                            onOpen={() => (isSelectingForCompare ? toggleCompare(item.id) : loadHistoryItem(item))}
+                            onToggleFavorite={() => updateHistoryEntry(item.id, { favorite: !item.favorite })}
+                            onDelete={() => deleteHistoryEntry(item)}
+                            onSaveDetails={(tags, note) => updateHistoryEntry(item.id, { tags, note })}
+                        />
+                    ))}
+                </>
+            )}
+
+            {hasMoreHistory && (
+                <button
+                    onClick={() => loadMoreHistory()}
+                    disabled={isLoadingHistory}
+                    className="w-full py-3 text-sm text-teal-700 bg-white border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
                 >
-                    <div className="w-20 h-20 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
-                        {item.imagePreviewUrl ? (
-                            <img src={item.imagePreviewUrl} alt="Thumbnail" className="w-full h-full object-cover" />
-                        ) : (
-                            <div className="w-full h-full flex items-center justify-center text-gray-300">
-                                <ImageIcon size={24} />
-                            </div>
-                        )}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                        <p className="text-xs text-gray-400 mb-1">
-                            {new Date(item.timestamp).toLocaleDateString('ja-JP')}
-                        </p>
-                        <p className="text-sm font-bold text-gray-800 line-clamp-2 mb-2">
-                            {item.result.summary}
-                        </p>
-                        {item.result.calorieAnalysis && (
-                             <div className="flex gap-2">
-                                <span className="text-xs bg-orange-100 text-orange-700 px-2 py-0.5 rounded-full">
-                                    {item.result.calorieAnalysis.productCalories}kcal
-                                </span>
-                            </div>
-                        )}
-                    </div>
-                </div>
-                ))
+                    {isLoadingHistory && <Loader2 size={16} className="animate-spin" />}
+                    {m.history.loadMore}
+                </button>
             )}
           </div>
         )}
 
+        {/* TAB: TODAY */}
+        {activeTab === 'today' && (
+          <TodayView profile={userProfile} onConsumptionsChange={updateConsumptions} />
+        )}
+
         {/* TAB: SETTINGS */}
         {activeTab === 'settings' && (
-          <UserProfileForm initialProfile={userProfile} onSave={handleProfileSave} isEditing />
+          <>
+            <LanguageSettingsCard />
+            <DailyEnergyCard profile={userProfile} />
+            <UserProfileForm initialProfile={userProfile} onSave={handleProfileSave} isEditing />
+            <DataManagementCard profile={userProfile} onRestored={handleRestored} />
+          </>
         )}
 
       </main>
@@ -310,7 +786,15 @@ function App() {
           className={clsx("flex flex-col items-center gap-1 transition-colors", activeTab === 'history' ? "text-teal-600" : "hover:text-gray-600")}
         >
           <History size={24} strokeWidth={activeTab === 'history' ? 2.5 : 2} />
-          履歴
+          {m.nav.history}
+        </button>
+
+        <button 
+          onClick={() => setActiveTab('today')}
+          className={clsx("flex flex-col items-center gap-1 transition-colors", activeTab === 'today' ? "text-teal-600" : "hover:text-gray-600")}
+        >
+          <CalendarDays size={24} strokeWidth={activeTab === 'today' ? 2.5 : 2} />
+          {m.nav.today}
         </button>
 
         <button 
@@ -323,7 +807,7 @@ function App() {
           <div className={clsx("w-16 h-16 rounded-full flex items-center justify-center shadow-lg transform transition-transform active:scale-95", activeTab === 'scan' ? "bg-teal-600 text-white" : "bg-gray-800 text-white")}>
             <PlusCircle size={32} />
           </div>
-          <span className={clsx("mt-1", activeTab === 'scan' ? "text-teal-600" : "text-gray-400")}>診断</span>
+          <span className={clsx("mt-1", activeTab === 'scan' ? "text-teal-600" : "text-gray-400")}>{m.nav.scan}</span>
         </button>
 
         <button 
@@ -332,7 +816,7 @@ function App() {
         >
           <Settings size={24} strokeWidth={activeTab === 'settings' ? 2.5 : 2} />
           <span className="relative">
-              設定
+              {m.nav.settings}
               {!isProfileConfigured && <span className="absolute -top-1 -right-2 w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>}
           </span>
         </button>
@@ -341,26 +825,4 @@ function App() {
   );
 }
 
-// Helper component for Icon inside History tab
-function ImageIcon(props: any) {
-    return (
-        <svg 
-            {...props}
-            xmlns="http://www.w3.org/2000/svg" 
-            width="24" 
-            height="24" 
-            viewBox="0 0 24 24" 
-            fill="none" 
-            stroke="currentColor" 
-            strokeWidth="2" 
-            strokeLinecap="round" 
-            strokeLinejoin="round"
-        >
-            <rect width="18" height="18" x="3" y="3" rx="2" ry="2" />
-            <circle cx="9" cy="9" r="2" />
-            <path d="m21 15-3.086-3.086a2 2 0 0 0-2.828 0L6 21" />
-        </svg>
-    )
-}
-
 export default App;
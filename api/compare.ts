@@ -0,0 +1,6 @@
+import { handleProxyRequest } from "../server/proxy";
+
+// Vercel Function (web handler). A streamed analysis can take most of a minute.
+export const maxDuration = 60;
+
+export const POST = (request: Request): Promise<Response> => handleProxyRequest('compare', request);
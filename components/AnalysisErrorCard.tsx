@@ -0,0 +1,67 @@
+import React from 'react';
+import { AlertTriangle, Clock, ImageOff, KeyRound, RefreshCcw, ServerCrash, ShieldAlert, WifiOff, X } from 'lucide-react';
+import { AnalysisError, AnalysisErrorKind, MissingApiKeyError } from '../services/errors';
+import { useI18n } from '../i18n';
+
+interface AnalysisErrorCardProps {
+  error: AnalysisError;
+  onRetry?: () => void;
+  onDismiss: () => void;
+}
+
+const ERROR_ICONS: Record<AnalysisErrorKind, React.ElementType> = {
+  'missing-api-key': KeyRound,
+  'rate-limit': Clock,
+  network: WifiOff,
+  'service-unavailable': ServerCrash,
+  'safety-block': ShieldAlert,
+  'empty-response': AlertTriangle,
+  'invalid-response': AlertTriangle,
+  timeout: Clock,
+  cancelled: X,
+  'payload-too-large': ImageOff,
+  unknown: AlertTriangle,
+};
+
+const AnalysisErrorCard: React.FC<AnalysisErrorCardProps> = ({ error, onRetry, onDismiss }) => {
+  const { m } = useI18n();
+  // The thrown message is Japanese; the catalog has the same text per kind
+  const { title, message, advice } = m.errors[error.kind];
+  const Icon = ERROR_ICONS[error.kind];
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-red-100 animate-fade-in relative" role="alert">
+      <button
+        onClick={onDismiss}
+        className="absolute top-3 right-3 p-1 text-gray-400 hover:text-gray-600"
+        title={m.common.close}
+      >
+        <X size={18} />
+      </button>
+      <div className="flex items-start gap-4">
+        <div className="w-12 h-12 bg-red-50 rounded-full flex items-center justify-center flex-shrink-0 text-red-400">
+          <Icon size={24} />
+        </div>
+        <div className="flex-1 min-w-0 pr-4">
+          <h3 className="font-bold text-gray-800 mb-1">{title}</h3>
+          <p className="text-sm text-gray-600">{message}</p>
+          <p className="text-xs text-gray-500 mt-2">{advice}</p>
+          {error instanceof MissingApiKeyError && error.variable && (
+            <p className="text-xs text-gray-500 mt-1">{m.errors.apiKeyVariable(error.variable)}</p>
+          )}
+        </div>
+      </div>
+      {onRetry && error.kind !== 'missing-api-key' && (
+        <button
+          onClick={onRetry}
+          className="mt-4 w-full bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 rounded-xl shadow-md transition-all flex items-center justify-center gap-2"
+        >
+          <RefreshCcw size={18} />
+          {m.common.retry}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisErrorCard;
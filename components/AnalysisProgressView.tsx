@@ -0,0 +1,102 @@
+import React from 'react';
+import { AnalysisResult } from '../types';
+import HealthScoreBadge from './HealthScoreBadge';
+import { Messages, useI18n } from '../i18n';
+import { Info, Activity, CheckCircle2, Loader2, AlertTriangle, Package } from 'lucide-react';
+import clsx from 'clsx';
+
+interface AnalysisProgressViewProps {
+  partial: Partial<AnalysisResult> | null;
+}
+
+// Sections in the order they stream in (see propertyOrdering)
+const STEPS: { id: keyof Messages['progress']['steps']; done: (p: Partial<AnalysisResult>) => boolean }[] = [
+  { id: 'quality', done: (p) => !!p.imageQualityCheck },
+  { id: 'summary', done: (p) => p.summary !== undefined },
+  { id: 'score', done: (p) => !!p.healthScore },
+  { id: 'calories', done: (p) => !!p.calorieAnalysis },
+  { id: 'nutrition', done: (p) => p.ingredients !== undefined },
+  { id: 'prosCons', done: (p) => p.cons !== undefined },
+];
+
+// Preview of a result while it streams in. Only fields that have finished
+// arriving are shown; AnalysisView takes over once the full result is validated.
+const AnalysisProgressView: React.FC<AnalysisProgressViewProps> = ({ partial }) => {
+  const { m } = useI18n();
+  const current = partial ?? {};
+  const activeStep = STEPS.findIndex((step) => !step.done(current));
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <ol className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 grid grid-cols-2 gap-2">
+        {STEPS.map((step, idx) => {
+          const isDone = step.done(current);
+          return (
+            <li
+              key={step.id}
+              className={clsx(
+                "flex items-center gap-2 text-xs",
+                isDone ? "text-teal-700" : idx === activeStep ? "text-gray-700" : "text-gray-300"
+              )}
+            >
+              {isDone ? (
+                <CheckCircle2 size={14} />
+              ) : idx === activeStep ? (
+                <Loader2 size={14} className="animate-spin" />
+              ) : (
+                <span className="w-3.5 h-3.5 rounded-full border border-current" />
+              )}
+              {m.progress.steps[step.id]}
+            </li>
+          );
+        })}
+      </ol>
+
+      {current.imageQualityCheck?.isUnclear && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 p-4 rounded-2xl text-sm flex items-start gap-2">
+          <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+          <p>{m.progress.unclear(current.imageQualityCheck.reason)}</p>
+        </div>
+      )}
+
+      {current.product?.name && (
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex items-center gap-3">
+          <Package size={20} className="text-teal-600 shrink-0" />
+          <div className="min-w-0">
+            {current.product.brand && <p className="text-xs text-gray-500 truncate">{current.product.brand}</p>}
+            <p className="font-bold text-gray-800 truncate">{current.product.name}</p>
+          </div>
+        </div>
+      )}
+
+      {current.healthScore && <HealthScoreBadge healthScore={current.healthScore} size="lg" />}
+
+      {current.summary && (
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center gap-2 mb-3 text-teal-700 font-bold">
+            <Info size={20} />
+            <h3>{m.analysis.summaryTitle}</h3>
+          </div>
+          <p className="text-gray-700 leading-relaxed text-sm">{current.summary}</p>
+        </div>
+      )}
+
+      {current.calorieAnalysis && (
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-center gap-2 mb-3 text-teal-700 font-bold">
+            <Activity size={20} />
+            <h3>{m.analysis.calorieTitle}</h3>
+          </div>
+          <div className="flex items-baseline gap-2">
+            <span className="text-2xl font-bold text-gray-800">{current.calorieAnalysis.productCalories}</span>
+            <span className="text-sm text-gray-500">kcal</span>
+            <span className="ml-auto text-xl font-bold text-teal-700">{current.calorieAnalysis.percentage}%</span>
+            <span className="text-[10px] text-gray-400">{m.analysis.ofDailyNeed}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisProgressView;
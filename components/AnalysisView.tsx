@@ -1,16 +1,253 @@
-import React from 'react';
-import { AnalysisResult } from '../types';
-import { ThumbsUp, ThumbsDown, Info, ShoppingBag, ExternalLink, Activity, AlertTriangle, RefreshCcw } from 'lucide-react';
+import React, { useState } from 'react';
+import { AnalysisResult, NutritionFacts, ProductCorrection, ProductIdentification, UserProfile } from '../types';
+import { PRODUCT_CATEGORIES } from '../constants';
+import { NUTRIENTS, dailyReferenceIntake } from '../services/nutrition';
+import { AllergenMatch, matchAllergens } from '../services/allergens';
+import { isLowConfidence, normalizeCorrection } from '../services/productIdentification';
+import HealthScoreBadge from './HealthScoreBadge';
+import { optionLabel, useI18n } from '../i18n';
+import { ThumbsUp, ThumbsDown, Info, ShoppingBag, ExternalLink, Activity, AlertTriangle, RefreshCcw, ClipboardList, OctagonAlert, History, Loader2, Package, PencilLine, CheckCircle2 } from 'lucide-react';
 import clsx from 'clsx';
 
 interface AnalysisViewProps {
   result: AnalysisResult;
+  profile: UserProfile;
   onRetry?: () => void;
+  isFromCache?: boolean; // Result was served from the local result cache
+  onReanalyze?: () => void; // Runs the analysis again, bypassing the cache
+  isReanalyzing?: boolean;
+  // Saves the user's correction of the identified product; re-analyzes too when onReanalyze is available
+  onCorrectProduct?: (correction: ProductCorrection) => void;
 }
 
 const AMAZON_TAG = 'simplemind0f-22';
 
-const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
+// Share of the daily reference intake above which a nutrient is highlighted
+const HIGH_INTAKE_PERCENT = 30;
+
+const formatAmount = (amount: number | undefined) =>
+  amount === undefined ? '-' : Number.isInteger(amount) ? amount.toString() : amount.toFixed(1);
+
+interface NutritionFactsCardProps {
+  facts: NutritionFacts;
+  profile: UserProfile;
+}
+
+const NutritionFactsCard: React.FC<NutritionFactsCardProps> = ({ facts, profile }) => {
+  const { m } = useI18n();
+  const reference = dailyReferenceIntake(profile);
+  const serving = facts.servingSize || m.analysis.perServingFallback;
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex items-center gap-2 mb-1 text-teal-700 font-bold">
+        <ClipboardList size={20} />
+        <h3>{m.analysis.nutritionTitle}</h3>
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        {facts.source === 'label' ? m.analysis.nutritionFromLabel : m.analysis.nutritionEstimated}
+      </p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-400 border-b border-gray-100">
+            <th className="text-left font-normal pb-2"></th>
+            <th className="text-right font-normal pb-2">{serving}</th>
+            {facts.per100g && <th className="text-right font-normal pb-2">{m.analysis.per100g}</th>}
+            <th className="text-right font-normal pb-2 w-24">{m.analysis.dailyShare}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {NUTRIENTS.filter(({ key }) => facts.perServing[key] !== undefined).map(({ key, unit }) => {
+            const amount = facts.perServing[key] ?? 0;
+            const percent = reference[key] > 0 ? Math.round((amount / reference[key]) * 100) : 0;
+            const isHigh = percent >= HIGH_INTAKE_PERCENT;
+            return (
+              <tr key={key} className="border-b border-gray-50 last:border-0">
+                <td className={clsx("py-2", key === 'saltEquivalentG' ? "font-bold text-gray-800" : "text-gray-600")}>{m.nutrients[key]}</td>
+                <td className="py-2 text-right text-gray-800">{formatAmount(facts.perServing[key])}{unit}</td>
+                {facts.per100g && <td className="py-2 text-right text-gray-500">{formatAmount(facts.per100g[key])}{unit}</td>}
+                <td className="py-2 pl-3">
+                  <div className="flex items-center gap-1">
+                    <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className={clsx("h-full rounded-full", isHigh ? "bg-red-400" : "bg-teal-500")}
+                        style={{ width: `${Math.min(100, percent)}%` }}
+                      />
+                    </div>
+                    <span className={clsx("text-xs w-9 text-right", isHigh ? "text-red-500 font-bold" : "text-gray-500")}>{percent}%</span>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-gray-400 mt-2">
+        {m.analysis.nutritionFootnote(reference.saltEquivalentG, serving)}
+      </p>
+    </div>
+  );
+};
+
+interface ProductHeaderProps {
+  product: ProductIdentification;
+  onCorrect?: (correction: ProductCorrection) => void;
+  canReanalyze: boolean;
+  isReanalyzing?: boolean;
+}
+
+const ProductHeader: React.FC<ProductHeaderProps> = ({ product, onCorrect, canReanalyze, isReanalyzing }) => {
+  const { m } = useI18n();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<ProductCorrection>({ name: product.name, brand: product.brand, category: product.category });
+  const correction = normalizeCorrection(draft);
+  const isUncertain = isLowConfidence(product);
+
+  const startEditing = () => {
+    setDraft({ name: product.name, brand: product.brand, category: product.category });
+    setIsEditing(true);
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!correction || !onCorrect) return;
+    onCorrect(correction);
+    setIsEditing(false);
+  };
+
+  const inputClass = "w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 outline-none";
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex items-start gap-3">
+        <div className="w-10 h-10 bg-teal-50 text-teal-600 rounded-xl flex items-center justify-center shrink-0">
+          <Package size={20} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-gray-500">
+            {[product.brand, optionLabel(m.options.productCategories, product.category)].filter(Boolean).join(' ・ ')}
+          </p>
+          <h2 className="text-lg font-bold text-gray-800 leading-snug">{product.name || m.product.unknownName}</h2>
+          <p className="text-xs text-gray-400 mt-0.5 flex items-center gap-1">
+            {product.correctedByUser ? (
+              <>
+                <CheckCircle2 size={12} className="text-teal-600" />
+                {m.product.correctedByUser}
+              </>
+            ) : (
+              m.product.confidence(product.confidence)
+            )}
+          </p>
+        </div>
+        {onCorrect && !isEditing && (
+          <button
+            type="button"
+            onClick={startEditing}
+            className="shrink-0 text-xs text-teal-700 bg-white border border-gray-200 hover:bg-gray-50 px-3 py-1.5 rounded-full flex items-center gap-1"
+          >
+            <PencilLine size={14} />
+            {m.product.correct}
+          </button>
+        )}
+      </div>
+
+      {isUncertain && !isEditing && (
+        <p className="mt-3 text-xs bg-amber-50 border border-amber-200 text-amber-800 p-2 rounded-lg flex items-start gap-1">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          {m.product.lowConfidence}
+        </p>
+      )}
+
+      {isEditing && (
+        <form onSubmit={submit} className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+          <p className="text-sm font-bold text-gray-700">{m.product.correctTitle}</p>
+          <div>
+            <label className="block text-xs font-bold text-gray-500 mb-1">{m.product.name}</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder={m.product.namePlaceholder}
+              className={inputClass}
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-500 mb-1">{m.product.brand}</label>
+            <input
+              type="text"
+              value={draft.brand}
+              onChange={(e) => setDraft({ ...draft, brand: e.target.value })}
+              placeholder={m.product.brandPlaceholder}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-500 mb-1">{m.product.category}</label>
+            <select
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value as ProductCorrection['category'] })}
+              className={clsx(inputClass, "bg-white")}
+            >
+              {PRODUCT_CATEGORIES.map(({ id }) => (
+                <option key={id} value={id}>{optionLabel(m.options.productCategories, id)}</option>
+              ))}
+            </select>
+          </div>
+          {!canReanalyze && <p className="text-xs text-gray-400">{m.product.noImagesNote}</p>}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setIsEditing(false)} className="text-sm px-4 py-2 rounded-full text-gray-500 hover:underline">
+              {m.common.cancel}
+            </button>
+            <button
+              type="submit"
+              disabled={!correction || isReanalyzing}
+              className="text-sm px-4 py-2 rounded-full bg-teal-600 text-white flex items-center gap-1 disabled:opacity-50"
+            >
+              {canReanalyze && <RefreshCcw size={14} />}
+              {canReanalyze ? m.product.reanalyze : m.product.save}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+interface AllergenWarningBannerProps {
+  matches: AllergenMatch[];
+}
+
+// Shown above everything else whenever the local matcher finds one of the
+// user's allergens, regardless of what the model wrote in pros/cons.
+const AllergenWarningBanner: React.FC<AllergenWarningBannerProps> = ({ matches }) => {
+  const { m } = useI18n();
+
+  return (
+    <div className="bg-red-600 text-white p-5 rounded-2xl shadow-md" role="alert">
+      <div className="flex items-center gap-2 font-bold text-lg mb-2">
+        <OctagonAlert size={24} />
+        <h3>{m.analysis.allergenTitle}</h3>
+      </div>
+      <ul className="space-y-1 text-sm">
+        {matches.map((match) => (
+          <li key={match.allergenId}>
+            <strong className="bg-white text-red-700 px-2 py-0.5 rounded mr-2">{optionLabel(m.options.allergens, match.allergenId)}</strong>
+            <span className="opacity-90">{match.ingredients.join(m.common.listSeparator)}</span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs mt-3 opacity-80">
+        {m.analysis.allergenNote}
+      </p>
+    </div>
+  );
+};
+
+const AnalysisView: React.FC<AnalysisViewProps> = ({ result, profile, onRetry, isFromCache, onReanalyze, isReanalyzing, onCorrectProduct }) => {
+  const { m } = useI18n();
+  const ingredients = result.ingredients ?? [];
+  const allergenMatches = matchAllergens(ingredients, profile.allergies);
 
   const getAmazonSearchUrl = (keyword: string) => {
     const encoded = encodeURIComponent(keyword);
@@ -25,13 +262,13 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
           <AlertTriangle size={40} />
         </div>
         <div>
-          <h3 className="text-xl font-bold text-gray-800 mb-2">画像を解析できませんでした</h3>
+          <h3 className="text-xl font-bold text-gray-800 mb-2">{m.analysis.unclearTitle}</h3>
           <p className="text-gray-600">
-            {result.imageQualityCheck.reason || "画像が不鮮明か、商品が特定できませんでした。"}
+            {result.imageQualityCheck.reason || m.analysis.unclearFallbackReason}
           </p>
           <p className="text-sm text-gray-500 mt-2">
-            明るい場所で、文字が読めるように撮影し直してください。<br/>
-            パッケージ全体や成分表示が写っていると精度が上がります。
+            {m.analysis.unclearAdvice[0]}<br/>
+            {m.analysis.unclearAdvice[1]}
           </p>
         </div>
         {onRetry && (
@@ -40,7 +277,7 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
             className="mt-4 bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 px-6 rounded-xl shadow-md transition-all flex items-center justify-center gap-2 mx-auto"
           >
             <RefreshCcw size={18} />
-            もう一度撮影する
+            {m.analysis.retake}
           </button>
         )}
       </div>
@@ -49,12 +286,57 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
 
   return (
     <div className="space-y-6 animate-fade-in">
+
+      {/* Allergen Warning */}
+      {allergenMatches.length > 0 ? (
+        <AllergenWarningBanner matches={allergenMatches} />
+      ) : profile.allergies.length > 0 && ingredients.length === 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 p-4 rounded-2xl text-sm flex items-start gap-2">
+          <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+          <p>{m.analysis.ingredientsUnreadable}</p>
+        </div>
+      )}
+
+      {/* Identified product */}
+      {result.product && (
+        <ProductHeader
+          product={result.product}
+          onCorrect={onCorrectProduct}
+          canReanalyze={!!onReanalyze}
+          isReanalyzing={isReanalyzing}
+        />
+      )}
+
+      {/* Cache notice / Re-analyze */}
+      {onReanalyze && (
+        <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+          <span className="flex items-center gap-1">
+            {isFromCache && (
+              <>
+                <History size={14} />
+                {m.analysis.fromCache}
+              </>
+            )}
+          </span>
+          <button
+            onClick={onReanalyze}
+            disabled={isReanalyzing}
+            className="shrink-0 text-teal-700 bg-white border border-gray-200 hover:bg-gray-50 px-3 py-1.5 rounded-full flex items-center gap-1 disabled:opacity-50"
+          >
+            {isReanalyzing ? <Loader2 size={14} className="animate-spin" /> : <RefreshCcw size={14} />}
+            {isReanalyzing ? m.analysis.reanalyzing : m.analysis.reanalyze}
+          </button>
+        </div>
+      )}
+
+      {/* Health Score */}
+      {result.healthScore && <HealthScoreBadge healthScore={result.healthScore} size="lg" />}
       
       {/* Summary */}
       <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
         <div className="flex items-center gap-2 mb-3 text-teal-700 font-bold">
           <Info size={20} />
-          <h3>AIによる概要解析</h3>
+          <h3>{m.analysis.summaryTitle}</h3>
         </div>
         <p className="text-gray-700 leading-relaxed text-sm">
           {result.summary}
@@ -66,7 +348,7 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
         <div className="bg-blue-50 p-5 rounded-2xl border border-blue-100">
           <div className="flex items-center gap-2 mb-3 text-blue-700 font-bold">
             <ThumbsUp size={20} />
-            <h3>メリット</h3>
+            <h3>{m.analysis.pros}</h3>
           </div>
           <ul className="space-y-2">
             {result.pros.map((item, idx) => (
@@ -82,7 +364,7 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
         <div className="bg-red-50 p-5 rounded-2xl border border-red-100">
           <div className="flex items-center gap-2 mb-3 text-red-700 font-bold">
             <ThumbsDown size={20} />
-            <h3>デメリット・注意点</h3>
+            <h3>{m.analysis.cons}</h3>
           </div>
           <ul className="space-y-2">
             {result.cons.map((item, idx) => (
@@ -100,7 +382,7 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
         <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
            <div className="flex items-center gap-2 mb-4 text-teal-700 font-bold">
             <Activity size={20} />
-            <h3>カロリー分析</h3>
+            <h3>{m.analysis.calorieTitle}</h3>
           </div>
           <div className="flex items-center gap-6">
             {/* Circular Progress (Simplified with CSS conic-gradient) */}
@@ -113,7 +395,7 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
                >
                  <div className="absolute inset-2 bg-white rounded-full flex flex-col items-center justify-center">
                     <span className="text-xl font-bold text-teal-700">{result.calorieAnalysis.percentage}%</span>
-                    <span className="text-[10px] text-gray-400">対1日必要量</span>
+                    <span className="text-[10px] text-gray-400">{m.analysis.ofDailyNeed}</span>
                  </div>
                </div>
             </div>
@@ -121,10 +403,15 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
             <div className="flex-1">
                 <div className="flex items-baseline gap-2 mb-1">
                     <span className="text-2xl font-bold text-gray-800">{result.calorieAnalysis.productCalories}</span>
-                    <span className="text-sm text-gray-500">kcal (推定)</span>
+                    <span className="text-sm text-gray-500">{m.analysis.kcalEstimated}</span>
                 </div>
                 <p className="text-xs text-gray-500 leading-snug">
-                    あなたの一日の推定必要カロリー: <strong>{result.calorieAnalysis.userDailyNeed}kcal</strong>
+                    {m.analysis.dailyNeed}<strong>{result.calorieAnalysis.userDailyNeed}kcal</strong>
+                    {result.calorieAnalysis.dailyNeedFormula && (
+                        <span className="block text-[10px] text-gray-400">
+                            {m.analysis.computedWith(m.bmrFormulas[result.calorieAnalysis.dailyNeedFormula].name)}
+                        </span>
+                    )}
                 </p>
                 <p className="text-xs text-teal-600 mt-2 bg-teal-50 p-2 rounded-lg">
                     {result.calorieAnalysis.note}
@@ -134,11 +421,16 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
         </div>
       )}
 
+      {/* Nutrition Facts */}
+      {result.nutritionFacts && (
+        <NutritionFactsCard facts={result.nutritionFacts} profile={profile} />
+      )}
+
       {/* Recommendations */}
       <div className="mt-8">
         <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
           <ShoppingBag className="text-orange-500" />
-          あなたへのおすすめ商品
+          {m.analysis.recommendationsTitle}
         </h3>
         <div className="space-y-3">
           {result.recommendations.map((item, idx) => (
@@ -164,7 +456,7 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onRetry }) => {
           ))}
         </div>
         <p className="text-xs text-gray-400 mt-2 text-right">
-          ※Amazonアソシエイトリンクを含みます
+          {m.analysis.affiliateNote}
         </p>
       </div>
     </div>
@@ -0,0 +1,229 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, SwitchCamera, Flashlight, FlashlightOff, Check, Loader2, ScanBarcode } from 'lucide-react';
+import { detectBarcode } from '../services/barcode';
+import { Messages, useI18n } from '../i18n';
+import clsx from 'clsx';
+
+interface CameraViewProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+  // Called when the camera can't be used (denied, missing, insecure context)
+  onUnavailable: (message: string) => void;
+  // When set, video frames are scanned for a JAN/EAN-13 barcode
+  onBarcodeDetected?: (barcode: string) => void;
+}
+
+type FacingMode = 'environment' | 'user';
+
+const CAPTURE_QUALITY = 0.92;
+const BARCODE_SCAN_INTERVAL_MS = 600;
+
+type UnavailableReason = keyof Messages['camera']['unavailable'];
+
+const classifyCameraError = (error: unknown): UnavailableReason => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return 'denied';
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return 'not-found';
+  }
+  return 'failed';
+};
+
+const CameraView: React.FC<CameraViewProps> = ({ onCapture, onClose, onUnavailable, onBarcodeDetected }) => {
+  const { m } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [isStarting, setIsStarting] = useState(true);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [capturedCount, setCapturedCount] = useState(0);
+  const [flash, setFlash] = useState(false);
+  const [detectedBarcode, setDetectedBarcode] = useState<string | null>(null);
+
+  const stopStream = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
+
+  // (Re)start the stream whenever the facing mode changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        onUnavailable(m.camera.unavailable.unsupported);
+        return;
+      }
+      setIsStarting(true);
+      stopStream();
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: facingMode }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+        // torch isn't in the standard capabilities typings yet
+        const capabilities = stream.getVideoTracks()[0]?.getCapabilities?.() as { torch?: boolean } | undefined;
+        setTorchSupported(!!capabilities?.torch);
+        setTorchOn(false);
+      } catch (e) {
+        if (!cancelled) onUnavailable(m.camera.unavailable[classifyCameraError(e)]);
+      } finally {
+        if (!cancelled) setIsStarting(false);
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [facingMode]);
+
+  // Poll frames for a barcode until one is found
+  useEffect(() => {
+    if (!onBarcodeDetected || isStarting || detectedBarcode) return;
+    let busy = false;
+    const timer = setInterval(async () => {
+      const video = videoRef.current;
+      if (busy || !video || video.videoWidth === 0) return;
+      busy = true;
+      try {
+        const code = await detectBarcode(video);
+        if (code) {
+          setDetectedBarcode(code);
+          onBarcodeDetected(code);
+        }
+      } catch (e) {
+        console.warn("Live barcode scan failed", e);
+      } finally {
+        busy = false;
+      }
+    }, BARCODE_SCAN_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isStarting, detectedBarcode]);
+
+  const toggleTorch = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] });
+      setTorchOn(!torchOn);
+    } catch (e) {
+      console.warn("Torch toggle failed", e);
+      setTorchSupported(false);
+    }
+  };
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+
+    // Capture the full frame; the guide only helps framing, so nothing is cropped
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) return;
+        onCapture(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+        setCapturedCount((n) => n + 1);
+      },
+      'image/jpeg',
+      CAPTURE_QUALITY
+    );
+
+    setFlash(true);
+    setTimeout(() => setFlash(false), 150);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black flex flex-col">
+      <div className="relative flex-1 overflow-hidden">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={clsx("w-full h-full object-cover", facingMode === 'user' && "-scale-x-100")}
+        />
+
+        {/* Framing guide: clear rectangle with the rest dimmed */}
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="w-4/5 max-w-sm aspect-[3/4] border-2 border-white/90 rounded-xl shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]" />
+        </div>
+        <p className="absolute top-16 left-0 right-0 text-center text-white text-sm font-bold drop-shadow">
+          {m.camera.framingHint}
+        </p>
+
+        {detectedBarcode && (
+          <p className="absolute bottom-4 left-4 right-4 bg-teal-600/90 text-white text-sm rounded-xl px-3 py-2 flex items-center gap-2">
+            <ScanBarcode size={18} />
+            {m.imageCapture.barcodeRead[0]}<span className="font-mono font-bold">{detectedBarcode}</span>{m.imageCapture.barcodeRead[1]}
+          </p>
+        )}
+
+        {isStarting && (
+          <div className="absolute inset-0 flex items-center justify-center text-white">
+            <Loader2 size={32} className="animate-spin" />
+          </div>
+        )}
+        {flash && <div className="absolute inset-0 bg-white/70" />}
+
+        <div className="absolute top-0 left-0 right-0 p-4 flex justify-between">
+          <button onClick={onClose} className="p-2 bg-black/50 text-white rounded-full" title={m.common.close}>
+            <X size={22} />
+          </button>
+          {torchSupported && (
+            <button onClick={toggleTorch} className="p-2 bg-black/50 text-white rounded-full" title={m.camera.torch}>
+              {torchOn ? <FlashlightOff size={22} /> : <Flashlight size={22} />}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-black px-8 py-6 flex items-center justify-between">
+        <button
+          onClick={() => setFacingMode(facingMode === 'environment' ? 'user' : 'environment')}
+          className="p-3 bg-white/10 text-white rounded-full"
+          title={m.camera.switchCamera}
+        >
+          <SwitchCamera size={24} />
+        </button>
+
+        <button
+          onClick={capture}
+          disabled={isStarting}
+          className="w-[72px] h-[72px] rounded-full border-4 border-white bg-white/20 active:bg-white/60 transition-colors disabled:opacity-40"
+          title={m.camera.capture}
+        />
+
+        <button
+          onClick={onClose}
+          className="p-3 bg-teal-600 text-white rounded-full relative"
+          title={m.camera.done}
+        >
+          <Check size={24} />
+          {capturedCount > 0 && (
+            <span className="absolute -top-1 -right-1 bg-white text-teal-700 text-xs font-bold w-5 h-5 rounded-full flex items-center justify-center">
+              {capturedCount}
+            </span>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraView;
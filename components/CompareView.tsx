@@ -0,0 +1,248 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ComparisonVerdict, NutrientAmounts, ScanHistoryItem, UserProfile } from '../types';
+import { NUTRIENTS, NutrientKey } from '../services/nutrition';
+import { matchAllergens } from '../services/allergens';
+import { compareProducts } from '../services/geminiService';
+import { AnalysisError, toAnalysisError } from '../services/errors';
+import HealthScoreBadge from './HealthScoreBadge';
+import AnalysisErrorCard from './AnalysisErrorCard';
+import { useI18n } from '../i18n';
+import { Scale, Sparkles, Loader2, X, Trophy, OctagonAlert, ThumbsUp, ThumbsDown } from 'lucide-react';
+import clsx from 'clsx';
+
+interface CompareViewProps {
+  items: ScanHistoryItem[];
+  profile: UserProfile;
+  onRemove: (id: string) => void;
+}
+
+// Nutrients where more is better; for everything else the lowest value wins
+const HIGHER_IS_BETTER: NutrientKey[] = ['proteinG', 'fiberG'];
+
+// Pros/cons shown per product; the full lists are in each item's own result
+const MAX_POINTS = 3;
+
+const formatAmount = (amount: number | undefined) =>
+  amount === undefined ? '-' : Number.isInteger(amount) ? amount.toString() : amount.toFixed(1);
+
+// Index of the best value in a row, or -1 when there's nothing to compare
+const bestIndexOf = (values: (number | undefined)[], higherIsBetter: boolean): number => {
+  const known = values.filter((v): v is number => v !== undefined);
+  if (known.length < 2) return -1;
+  const best = higherIsBetter ? Math.max(...known) : Math.min(...known);
+  // A tie highlights nothing
+  return known.filter((v) => v === best).length === 1 ? values.indexOf(best) : -1;
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ items, profile, onRemove }) => {
+  const { m, locale } = useI18n();
+  const [verdict, setVerdict] = useState<ComparisonVerdict | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<AnalysisError | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const itemIds = items.map((item) => item.id).join(',');
+
+  // The verdict is about a specific set of products
+  useEffect(() => {
+    abortControllerRef.current?.abort();
+    setVerdict(null);
+    setError(null);
+  }, [itemIds]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Per 100g is only fair when every product has it; serving sizes differ
+  const usePer100g = items.every((item) => item.result.nutritionFacts?.per100g);
+  const amountsOf = (item: ScanHistoryItem): NutrientAmounts | undefined =>
+    usePer100g ? item.result.nutritionFacts?.per100g : item.result.nutritionFacts?.perServing;
+
+  const handleCompare = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsComparing(true);
+    setError(null);
+    try {
+      setVerdict(await compareProducts(profile, items.map((item) => item.result), { signal: controller.signal, locale }));
+    } catch (e) {
+      const compareError = toAnalysisError(e);
+      if (compareError.kind !== 'cancelled') setError(compareError);
+    } finally {
+      abortControllerRef.current = null;
+      setIsComparing(false);
+    }
+  };
+
+  const winner = verdict?.bestIndex ?? -1;
+
+  const renderRow = (label: string, cells: React.ReactNode[], best = -1) => (
+    <tr className="border-b border-gray-50 last:border-0">
+      <th className="text-left font-normal text-xs text-gray-500 py-2 pr-2 align-top whitespace-nowrap">{label}</th>
+      {cells.map((cell, idx) => (
+        <td
+          key={items[idx].id}
+          className={clsx(
+            "py-2 px-2 text-sm align-top",
+            idx === winner && "bg-teal-50",
+            idx === best ? "font-bold text-teal-700" : "text-gray-700"
+          )}
+        >
+          {cell}
+        </td>
+      ))}
+    </tr>
+  );
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex items-center gap-2 mb-3 text-teal-700 font-bold">
+          <Scale size={20} />
+          <h3>{m.compare.title}</h3>
+        </div>
+
+        <div className="overflow-x-auto -mx-2">
+          <table className="w-full min-w-max">
+            <thead>
+              <tr className="border-b border-gray-100">
+                <th />
+                {items.map((item, idx) => {
+                  const hasAllergen = matchAllergens(item.result.ingredients ?? [], profile.allergies).length > 0;
+                  return (
+                    <th key={item.id} className={clsx("px-2 pb-3 align-top font-normal w-36", idx === winner && "bg-teal-50 rounded-t-xl")}>
+                      <div className="relative">
+                        <button
+                          onClick={() => onRemove(item.id)}
+                          className="absolute -top-1 -right-1 bg-white rounded-full shadow p-0.5 text-gray-400 hover:text-gray-600"
+                          title={m.compare.removeItem}
+                        >
+                          <X size={12} />
+                        </button>
+                        {item.imagePreviewUrl ? (
+                          <img src={item.imagePreviewUrl} alt={m.compare.product(idx)} className="w-16 h-16 object-cover rounded-lg mx-auto" />
+                        ) : (
+                          <div className="w-16 h-16 bg-gray-100 rounded-lg mx-auto" />
+                        )}
+                      </div>
+                      <p className="text-xs font-bold text-gray-700 mt-2 flex items-center justify-center gap-1">
+                        {idx === winner && <Trophy size={12} className="text-teal-600" />}
+                        {m.compare.product(idx)}
+                      </p>
+                      {item.result.product?.name && (
+                        <p className="text-[11px] font-bold text-gray-800 line-clamp-2 text-left mt-1">{item.result.product.name}</p>
+                      )}
+                      <p className="text-[10px] text-gray-500 line-clamp-2 text-left mt-1">{item.result.summary}</p>
+                      {hasAllergen && (
+                        <p className="text-[10px] text-red-600 font-bold mt-1 flex items-center gap-1">
+                          <OctagonAlert size={10} />
+                          {m.compare.containsAllergen}
+                        </p>
+                      )}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {renderRow(
+                m.compare.rowScore,
+                items.map((item) => (item.result.healthScore ? <HealthScoreBadge healthScore={item.result.healthScore} /> : '-')),
+                bestIndexOf(items.map((item) => item.result.healthScore?.score), true)
+              )}
+              {renderRow(
+                m.compare.rowCalories,
+                items.map((item) => (item.result.calorieAnalysis ? `${item.result.calorieAnalysis.productCalories}kcal` : '-')),
+                bestIndexOf(items.map((item) => item.result.calorieAnalysis?.productCalories), false)
+              )}
+              {renderRow(
+                m.compare.rowDailyShare,
+                items.map((item) => (item.result.calorieAnalysis ? `${item.result.calorieAnalysis.percentage}%` : '-')),
+                bestIndexOf(items.map((item) => item.result.calorieAnalysis?.percentage), false)
+              )}
+              {NUTRIENTS.filter(({ key }) => items.some((item) => amountsOf(item)?.[key] !== undefined)).map(({ key, unit }) => {
+                const values = items.map((item) => amountsOf(item)?.[key]);
+                return (
+                  <React.Fragment key={key}>
+                    {renderRow(
+                      m.nutrients[key],
+                      values.map((v) => (v === undefined ? '-' : `${formatAmount(v)}${unit}`)),
+                      bestIndexOf(values, HIGHER_IS_BETTER.includes(key))
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {renderRow(
+                m.compare.rowPros,
+                items.map((item) => (
+                  <ul className="space-y-1 text-xs">
+                    {item.result.pros.slice(0, MAX_POINTS).map((p, i) => (
+                      <li key={i} className="flex gap-1"><ThumbsUp size={10} className="text-blue-500 shrink-0 mt-0.5" />{p}</li>
+                    ))}
+                  </ul>
+                ))
+              )}
+              {renderRow(
+                m.compare.rowCons,
+                items.map((item) => (
+                  <ul className="space-y-1 text-xs">
+                    {item.result.cons.slice(0, MAX_POINTS).map((c, i) => (
+                      <li key={i} className="flex gap-1"><ThumbsDown size={10} className="text-red-500 shrink-0 mt-0.5" />{c}</li>
+                    ))}
+                  </ul>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-[10px] text-gray-400 mt-2">
+          {m.compare.footnote(usePer100g ? m.compare.basisPer100g : m.compare.basisPerServing)}
+        </p>
+      </div>
+
+      {/* Verdict */}
+      {error && !isComparing && (
+        <AnalysisErrorCard error={error} onRetry={handleCompare} onDismiss={() => setError(null)} />
+      )}
+
+      {verdict ? (
+        <div className="bg-teal-50 p-5 rounded-2xl border border-teal-100">
+          <div className="flex items-center gap-2 mb-3 text-teal-800 font-bold">
+            <Trophy size={20} />
+            <h3>{winner >= 0 ? m.compare.verdictBest(winner) : m.compare.verdictNone}</h3>
+          </div>
+          <p className="text-sm text-gray-700 leading-relaxed">{verdict.reason}</p>
+          {verdict.tips.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {verdict.tips.map((tip, idx) => (
+                <li key={idx} className="flex items-start gap-2 text-sm text-gray-600">
+                  <span className="text-teal-500 mt-1">•</span>
+                  <span>{tip}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <button
+          onClick={handleCompare}
+          disabled={isComparing || items.length < 2}
+          className="w-full bg-teal-600 hover:bg-teal-700 text-white font-bold py-3 rounded-xl shadow-md transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isComparing ? (
+            <>
+              <Loader2 className="animate-spin" />
+              {m.compare.comparing}
+            </>
+          ) : (
+            <>
+              <Sparkles size={20} />
+              {m.compare.ask}
+            </>
+          )}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { UserProfile } from '../types';
+import { estimateDailyEnergy } from '../services/nutrition';
+import { useI18n } from '../i18n';
+import { Flame } from 'lucide-react';
+
+interface DailyEnergyCardProps {
+  profile: UserProfile;
+}
+
+const DailyEnergyCard: React.FC<DailyEnergyCardProps> = ({ profile }) => {
+  const { m } = useI18n();
+  const estimate = estimateDailyEnergy(profile);
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 mb-4 animate-fade-in">
+      <div className="flex items-center gap-2 mb-3 text-teal-700 font-bold">
+        <Flame size={20} />
+        <h3>{m.dailyEnergy.title}</h3>
+      </div>
+
+      {!estimate ? (
+        <p className="text-sm text-gray-500 leading-relaxed">
+          {m.dailyEnergy.empty}
+        </p>
+      ) : (
+        <>
+          <div className="flex items-baseline gap-2 mb-3">
+            <span className="text-3xl font-bold text-gray-800">{estimate.tdee.toLocaleString(m.meta.intl)}</span>
+            <span className="text-sm text-gray-500">{m.dailyEnergy.perDay}</span>
+          </div>
+          <dl className="grid grid-cols-2 gap-2 text-xs mb-3">
+            <div className="bg-gray-50 rounded-lg p-2">
+              <dt className="text-gray-400">{m.dailyEnergy.bmr}</dt>
+              <dd className="font-bold text-gray-700">{estimate.bmr.toLocaleString(m.meta.intl)} kcal</dd>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-2">
+              <dt className="text-gray-400">{m.dailyEnergy.activityFactor}</dt>
+              <dd className="font-bold text-gray-700">
+                ×{estimate.activityFactor} ({m.options.activityLevels[estimate.activityLevel]})
+              </dd>
+            </div>
+          </dl>
+          <div className="text-xs text-teal-700 bg-teal-50 p-2 rounded-lg leading-relaxed">
+            <p className="font-bold">{m.bmrFormulas[estimate.formula].name}</p>
+            <p>{m.bmrFormulas[estimate.formula].expression}</p>
+            <p className="mt-1">{m.dailyEnergy.equation}</p>
+          </div>
+          {estimate.activityAssumed && (
+            <p className="text-xs text-gray-400 mt-2">
+              {m.dailyEnergy.activityAssumed(m.options.activityLevels[estimate.activityLevel])}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DailyEnergyCard;
@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import { UserProfile } from '../types';
+import { BackupError, createBackup, parseBackup, restoreHistory } from '../services/backup';
+import { getAllHistoryRecords } from '../services/historyStore';
+import { buildHealthReport, historyToCsv } from '../services/reports';
+import { useI18n } from '../i18n';
+import { Database, Download, FileSpreadsheet, Loader2, Printer, Upload } from 'lucide-react';
+import clsx from 'clsx';
+
+interface DataManagementCardProps {
+  profile: UserProfile;
+  // Called after a restore; `profile` is set when the user chose to replace theirs
+  onRestored: (profile: UserProfile | null) => void;
+}
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const fileDate = () => new Date().toISOString().slice(0, 10);
+
+const loadAllHistory = async () => (await getAllHistoryRecords()).map((record) => record.item);
+
+const DataManagementCard: React.FC<DataManagementCardProps> = ({ profile, onRestored }) => {
+  const { m } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [status, setStatus] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsWorking(true);
+    setStatus(null);
+    try {
+      await task();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const exportBackup = () => run(async () => {
+    try {
+      const backup = await createBackup(profile);
+      downloadFile(`vitalscope-backup-${fileDate()}.json`, JSON.stringify(backup), 'application/json');
+    } catch (e) {
+      console.error("Backup export failed", e);
+      setStatus({ tone: 'error', text: m.data.exportFailed });
+    }
+  });
+
+  const exportCsv = () => run(async () => {
+    try {
+      downloadFile(`vitalscope-nutrition-${fileDate()}.csv`, historyToCsv(await loadAllHistory(), m), 'text/csv;charset=utf-8');
+    } catch (e) {
+      console.error("CSV export failed", e);
+      setStatus({ tone: 'error', text: m.data.exportFailed });
+    }
+  });
+
+  const printReport = () => {
+    // Opened before any await, or popup blockers treat it as unrequested
+    const reportWindow = window.open('', '_blank');
+    run(async () => {
+      try {
+        const html = buildHealthReport(profile, await loadAllHistory(), m);
+        if (!reportWindow) {
+          downloadFile(`vitalscope-report-${fileDate()}.html`, html, 'text/html');
+          return;
+        }
+        reportWindow.document.write(html);
+        reportWindow.document.close();
+        reportWindow.focus();
+        reportWindow.print();
+      } catch (e) {
+        console.error("Report export failed", e);
+        reportWindow?.close();
+        setStatus({ tone: 'error', text: m.data.exportFailed });
+      }
+    });
+  };
+
+  const importBackup = (file: File) => run(async () => {
+    try {
+      const backup = await parseBackup(await file.text());
+      const replaceProfile = !!backup.profile && window.confirm(m.data.confirmReplaceProfile);
+      const summary = await restoreHistory(backup);
+      onRestored(replaceProfile ? backup.profile : null);
+      setStatus({ tone: 'success', text: m.data.imported(summary.added, summary.merged, summary.skipped) });
+    } catch (e) {
+      console.error("Backup import failed", e);
+      const reason = e instanceof BackupError ? e.reason : 'invalid';
+      setStatus({ tone: 'error', text: m.data.importErrors[reason] });
+    }
+  });
+
+  const buttonClass = "w-full py-2.5 px-3 rounded-xl border border-gray-200 text-sm text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50";
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 mb-4 animate-fade-in">
+      <div className="flex items-center gap-2 mb-2 text-teal-700 font-bold">
+        <Database size={20} />
+        <h3>{m.data.title}</h3>
+        {isWorking && <Loader2 size={16} className="animate-spin text-gray-400" aria-label={m.data.working} />}
+      </div>
+      <p className="text-xs text-gray-500 mb-3">{m.data.note}</p>
+
+      <div className="space-y-2">
+        <button type="button" onClick={exportBackup} disabled={isWorking} className={buttonClass}>
+          <Download size={16} className="text-teal-600" />
+          {m.data.exportBackup}
+        </button>
+        <button type="button" onClick={exportCsv} disabled={isWorking} className={buttonClass}>
+          <FileSpreadsheet size={16} className="text-teal-600" />
+          {m.data.exportCsv}
+        </button>
+        <button type="button" onClick={printReport} disabled={isWorking} className={buttonClass}>
+          <Printer size={16} className="text-teal-600" />
+          {m.data.printReport}
+        </button>
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isWorking} className={buttonClass}>
+          <Upload size={16} className="text-teal-600" />
+          {m.data.importBackup}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            // Reset so picking the same file again still fires onChange
+            e.target.value = '';
+            if (file) importBackup(file);
+          }}
+        />
+      </div>
+
+      {status && (
+        <p
+          className={clsx("text-xs mt-3", status.tone === 'success' ? "text-teal-700" : "text-red-500")}
+          role={status.tone === 'error' ? 'alert' : 'status'}
+        >
+          {status.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DataManagementCard;
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, ChatMessage, UserProfile } from '../types';
+import { streamFollowUp } from '../services/geminiService';
+import { AnalysisError, toAnalysisError } from '../services/errors';
+import { useI18n } from '../i18n';
+import { MessageCircle, Send, Square, Loader2 } from 'lucide-react';
+import clsx from 'clsx';
+
+interface FollowUpChatProps {
+  profile: UserProfile;
+  images: string[]; // Empty when the result was opened from history
+  result: AnalysisResult;
+  initialMessages?: ChatMessage[];
+  // Called after each completed turn with the whole thread
+  onMessagesChange?: (messages: ChatMessage[]) => void;
+}
+
+const FollowUpChat: React.FC<FollowUpChatProps> = ({ profile, images, result, initialMessages = [], onMessagesChange }) => {
+  const { m, locale } = useI18n();
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
+  const [input, setInput] = useState('');
+  // Answer received so far for the turn in flight, or null when idle
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [error, setError] = useState<AnalysisError | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  // A turn can outlive the render that started it (e.g. the scan's history id
+  // arrives mid-answer), so it reports to the latest callback
+  const onMessagesChangeRef = useRef(onMessagesChange);
+  onMessagesChangeRef.current = onMessagesChange;
+
+  const isStreaming = streamingText !== null;
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages, streamingText]);
+
+  // Stop streaming if the panel goes away mid-answer
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const sendQuestion = async (question: string) => {
+    const text = question.trim();
+    if (!text || isStreaming) return;
+
+    const thread: ChatMessage[] = [...messages, { role: 'user', text, timestamp: Date.now() }];
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setMessages(thread);
+    setInput('');
+    setError(null);
+    setStreamingText('');
+
+    let answer = '';
+    try {
+      for await (const chunk of streamFollowUp(profile, images, result, thread, { signal: controller.signal, locale })) {
+        answer += chunk;
+        setStreamingText(answer);
+      }
+    } catch (e) {
+      const analysisError = toAnalysisError(e);
+      if (analysisError.kind !== 'cancelled') {
+        // Put the question back so it can be sent again as-is
+        setError(analysisError);
+        setMessages(messages);
+        setInput(text);
+        setStreamingText(null);
+        abortControllerRef.current = null;
+        return;
+      }
+    }
+
+    abortControllerRef.current = null;
+    setStreamingText(null);
+    // A cancelled answer is kept as far as it got, so the thread still alternates
+    const finished: ChatMessage[] = [...thread, { role: 'model', text: answer || m.chat.interrupted, timestamp: Date.now() }];
+    setMessages(finished);
+    onMessagesChangeRef.current?.(finished);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendQuestion(input);
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex items-center gap-2 mb-3 text-teal-700 font-bold">
+        <MessageCircle size={20} />
+        <h3>{m.chat.title}</h3>
+      </div>
+
+      {messages.length === 0 && !isStreaming && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {m.chat.suggestions.map((q) => (
+            <button
+              key={q}
+              onClick={() => sendQuestion(q)}
+              className="text-xs bg-teal-50 text-teal-700 border border-teal-100 px-3 py-1.5 rounded-full hover:bg-teal-100 transition-colors"
+            >
+              {q}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(messages.length > 0 || isStreaming) && (
+        <div className="space-y-3 mb-3 max-h-96 overflow-y-auto">
+          {messages.map((message, idx) => (
+            <div key={idx} className={clsx("flex", message.role === 'user' ? "justify-end" : "justify-start")}>
+              <p
+                className={clsx(
+                  "text-sm leading-relaxed px-3 py-2 rounded-2xl max-w-[85%] whitespace-pre-wrap",
+                  message.role === 'user' ? "bg-teal-600 text-white rounded-br-sm" : "bg-gray-100 text-gray-700 rounded-bl-sm"
+                )}
+              >
+                {message.text}
+              </p>
+            </div>
+          ))}
+          {isStreaming && (
+            <div className="flex justify-start">
+              <p className="text-sm leading-relaxed px-3 py-2 rounded-2xl rounded-bl-sm max-w-[85%] whitespace-pre-wrap bg-gray-100 text-gray-700">
+                {streamingText || <Loader2 size={16} className="animate-spin text-gray-400" />}
+              </p>
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg p-2 mb-3">{m.errors[error.kind].message}</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={m.chat.placeholder}
+          disabled={isStreaming}
+          className="flex-1 text-sm border border-gray-200 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-gray-50"
+        />
+        {isStreaming ? (
+          <button
+            type="button"
+            onClick={() => abortControllerRef.current?.abort()}
+            className="px-3 rounded-xl bg-gray-200 text-gray-600 hover:bg-gray-300 transition-colors"
+            title={m.chat.stop}
+          >
+            <Square size={16} />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="px-3 rounded-xl bg-teal-600 text-white hover:bg-teal-700 transition-colors disabled:opacity-50"
+            title={m.chat.send}
+          >
+            <Send size={16} />
+          </button>
+        )}
+      </form>
+      <p className="text-[10px] text-gray-400 mt-2">
+        {m.chat.disclaimer}
+      </p>
+    </div>
+  );
+};
+
+export default FollowUpChat;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { HealthScore, NutriGrade, TrafficLight } from '../types';
+import { trafficLightFor } from '../services/scoring';
+import { useI18n } from '../i18n';
+import clsx from 'clsx';
+
+interface HealthScoreBadgeProps {
+  healthScore: HealthScore;
+  size?: 'sm' | 'lg';
+}
+
+const TRAFFIC_LIGHT_STYLES: Record<TrafficLight, { className: string; dotClassName: string }> = {
+  green: { className: 'bg-green-50 text-green-700 border-green-200', dotClassName: 'bg-green-500' },
+  amber: { className: 'bg-amber-50 text-amber-700 border-amber-200', dotClassName: 'bg-amber-400' },
+  red: { className: 'bg-red-50 text-red-700 border-red-200', dotClassName: 'bg-red-500' },
+};
+
+const NUTRI_GRADE_COLORS: Record<NutriGrade, string> = {
+  A: 'bg-green-700',
+  B: 'bg-green-500',
+  C: 'bg-yellow-400',
+  D: 'bg-orange-500',
+  E: 'bg-red-600',
+};
+
+const HealthScoreBadge: React.FC<HealthScoreBadgeProps> = ({ healthScore, size = 'sm' }) => {
+  const { m } = useI18n();
+  // Older history items may predate the locally derived traffic light
+  const light = healthScore.trafficLight ?? trafficLightFor(healthScore.score);
+  const style = TRAFFIC_LIGHT_STYLES[light];
+
+  if (size === 'sm') {
+    return (
+      <span className={clsx("inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full border", style.className)}>
+        <span className={clsx("w-2 h-2 rounded-full", style.dotClassName)} />
+        {m.score.points(healthScore.score)}
+        {healthScore.nutriGrade && <span className="font-bold ml-0.5">{healthScore.nutriGrade}</span>}
+      </span>
+    );
+  }
+
+  return (
+    <div className={clsx("p-4 rounded-2xl border flex items-center gap-4", style.className)}>
+      <div className="flex flex-col items-center flex-shrink-0">
+        <span className="text-3xl font-bold leading-none">{healthScore.score}</span>
+        <span className="text-[10px] opacity-70">/ 100</span>
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 font-bold">
+          <span className={clsx("w-3 h-3 rounded-full", style.dotClassName)} />
+          {m.score[light]}
+        </div>
+        <p className="text-xs mt-1 opacity-90 leading-snug">{healthScore.reason}</p>
+      </div>
+      {healthScore.nutriGrade && (
+        <div className="flex flex-col items-center flex-shrink-0" title={m.score.nutriGradeTitle}>
+          <span className={clsx("w-9 h-9 rounded-lg text-white font-bold text-lg flex items-center justify-center", NUTRI_GRADE_COLORS[healthScore.nutriGrade])}>
+            {healthScore.nutriGrade}
+          </span>
+          <span className="text-[10px] opacity-70 mt-0.5">{m.score.nutriGradeLabel}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HealthScoreBadge;
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { EMPTY_HISTORY_FILTERS, HistoryFilters, HistorySort, hasActiveFilters } from '../services/historySearch';
+import { useI18n } from '../i18n';
+import { Search, SlidersHorizontal, Star, X } from 'lucide-react';
+import clsx from 'clsx';
+
+interface HistoryFilterBarProps {
+  filters: HistoryFilters;
+  onFiltersChange: (filters: HistoryFilters) => void;
+  sort: HistorySort;
+  onSortChange: (sort: HistorySort) => void;
+  tags: string[]; // Tags in use, most used first
+  matchCount: number;
+}
+
+// Empty input clears the bound instead of filtering on 0
+const parseBound = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const RangeInputs: React.FC<{
+  label: string;
+  min: number | null;
+  max: number | null;
+  onChange: (min: number | null, max: number | null) => void;
+}> = ({ label, min, max, onChange }) => {
+  const { m } = useI18n();
+  const inputClass = "w-full p-2 border border-gray-200 rounded-lg text-sm bg-white";
+  return (
+    <div>
+      <p className="text-xs font-bold text-gray-500 mb-1">{label}</p>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          inputMode="numeric"
+          min={0}
+          value={min ?? ''}
+          placeholder={m.history.min}
+          onChange={(e) => onChange(parseBound(e.target.value), max)}
+          className={inputClass}
+        />
+        <span className="text-gray-400">–</span>
+        <input
+          type="number"
+          inputMode="numeric"
+          min={0}
+          value={max ?? ''}
+          placeholder={m.history.max}
+          onChange={(e) => onChange(min, parseBound(e.target.value))}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+};
+
+const HistoryFilterBar: React.FC<HistoryFilterBarProps> = ({ filters, onFiltersChange, sort, onSortChange, tags, matchCount }) => {
+  const { m } = useI18n();
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+  const update = (changes: Partial<HistoryFilters>) => onFiltersChange({ ...filters, ...changes });
+  const isFiltering = hasActiveFilters(filters);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 relative">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={filters.text}
+            onChange={(e) => update({ text: e.target.value })}
+            placeholder={m.history.searchPlaceholder}
+            className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-xl text-sm bg-white focus:ring-2 focus:ring-teal-500 outline-none"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsPanelOpen(!isPanelOpen)}
+          aria-expanded={isPanelOpen}
+          className={clsx(
+            "p-2 rounded-xl border transition-colors",
+            isPanelOpen ? "bg-teal-600 text-white border-teal-600" : "bg-white text-gray-600 border-gray-200"
+          )}
+          title={m.history.filters}
+        >
+          <SlidersHorizontal size={18} />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1 flex-wrap">
+          {([
+            { val: 'all', label: m.history.filterAll, dot: '' },
+            { val: 'green', label: m.history.filterGreen, dot: 'bg-green-500' },
+            { val: 'amber', label: m.history.filterAmber, dot: 'bg-amber-400' },
+            { val: 'red', label: m.history.filterRed, dot: 'bg-red-500' },
+          ] as const).map((opt) => (
+            <button
+              key={opt.val}
+              onClick={() => update({ trafficLight: opt.val })}
+              className={clsx(
+                "text-xs px-2 py-1 rounded-full border flex items-center gap-1 transition-colors",
+                filters.trafficLight === opt.val ? "bg-teal-600 text-white border-teal-600" : "bg-white text-gray-600 border-gray-200"
+              )}
+            >
+              {opt.dot && <span className={clsx("w-2 h-2 rounded-full", opt.dot)} />}
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as HistorySort)}
+          className="text-xs border border-gray-200 rounded-lg px-2 py-1 bg-white text-gray-600"
+        >
+          <option value="newest">{m.history.sortNewest}</option>
+          <option value="oldest">{m.history.sortOldest}</option>
+          <option value="score-desc">{m.history.sortScoreDesc}</option>
+          <option value="score-asc">{m.history.sortScoreAsc}</option>
+          <option value="kcal-desc">{m.history.sortKcalDesc}</option>
+          <option value="kcal-asc">{m.history.sortKcalAsc}</option>
+        </select>
+      </div>
+
+      {isPanelOpen && (
+        <div className="bg-gray-50 border border-gray-200 rounded-xl p-3 space-y-3 animate-fade-in">
+          <div>
+            <p className="text-xs font-bold text-gray-500 mb-1">{m.history.dateRange}</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => update({ from: e.target.value })}
+                className="w-full p-2 border border-gray-200 rounded-lg text-sm bg-white"
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => update({ to: e.target.value })}
+                className="w-full p-2 border border-gray-200 rounded-lg text-sm bg-white"
+              />
+            </div>
+          </div>
+          <RangeInputs
+            label={m.history.calorieRange}
+            min={filters.minKcal}
+            max={filters.maxKcal}
+            onChange={(minKcal, maxKcal) => update({ minKcal, maxKcal })}
+          />
+          <RangeInputs
+            label={m.history.scoreRange}
+            min={filters.minScore}
+            max={filters.maxScore}
+            onChange={(minScore, maxScore) => update({ minScore, maxScore })}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={filters.favoritesOnly}
+              onChange={(e) => update({ favoritesOnly: e.target.checked })}
+              className="w-4 h-4 accent-teal-600"
+            />
+            <Star size={14} className="text-amber-400" />
+            {m.history.favoritesOnly}
+          </label>
+          {tags.length > 0 && (
+            <div>
+              <p className="text-xs font-bold text-gray-500 mb-1">{m.history.tags}</p>
+              <div className="flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => update({ tag: filters.tag === tag ? null : tag })}
+                    className={clsx(
+                      "text-xs px-2 py-1 rounded-full border transition-colors",
+                      filters.tag === tag ? "bg-teal-600 text-white border-teal-600" : "bg-white text-gray-600 border-gray-200"
+                    )}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isFiltering && (
+        <div className="flex items-center justify-between text-xs text-gray-500 px-1">
+          <span>{m.history.matchCount(matchCount)}</span>
+          <button
+            type="button"
+            onClick={() => onFiltersChange(EMPTY_HISTORY_FILTERS)}
+            className="flex items-center gap-1 text-teal-700 hover:underline"
+          >
+            <X size={12} /> {m.history.resetFilters}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryFilterBar;
@@ -0,0 +1,342 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScanHistoryItem } from '../types';
+import { itemCalories, parseTags } from '../services/historySearch';
+import { optionLabel, useI18n } from '../i18n';
+import HealthScoreBadge from './HealthScoreBadge';
+import { CheckCircle2, Circle, Image as ImageIcon, MoreVertical, Pencil, Star, StickyNote, Trash2 } from 'lucide-react';
+import clsx from 'clsx';
+
+interface HistoryListItemProps {
+  item: ScanHistoryItem;
+  isSelectingForCompare: boolean;
+  isSelectedForCompare: boolean;
+  knownTags: string[]; // Suggested in the tag editor
+  onOpen: () => void;
+  onToggleFavorite: () => void;
+  onDelete: () => void;
+  onSaveDetails: (tags: string[], note: string) => void;
+}
+
+// Width of the favorite/delete buttons a left swipe reveals
+const SWIPE_ACTIONS_WIDTH = 128;
+// How far a swipe must travel before letting go keeps the actions open
+const SWIPE_OPEN_THRESHOLD = 48;
+// Movement below this is still a tap or long press, not a swipe
+const GESTURE_SLOP = 8;
+const LONG_PRESS_MS = 500;
+
+interface Gesture {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startOffset: number;
+  isSwiping: boolean;
+  longPressTimer: number;
+}
+
+const HistoryListItem: React.FC<HistoryListItemProps> = ({
+  item,
+  isSelectingForCompare,
+  isSelectedForCompare,
+  knownTags,
+  onOpen,
+  onToggleFavorite,
+  onDelete,
+  onSaveDetails,
+}) => {
+  const { m } = useI18n();
+  const [swipeOffset, setSwipeOffset] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [tagsInput, setTagsInput] = useState('');
+  const [noteInput, setNoteInput] = useState('');
+  const gestureRef = useRef<Gesture | null>(null);
+  // A swipe or long press ends with a click event that must not open the item
+  const suppressClickRef = useRef(false);
+
+  useEffect(() => () => {
+    if (gestureRef.current) window.clearTimeout(gestureRef.current.longPressTimer);
+  }, []);
+
+  // Gestures would fight the compare selection tap
+  const gesturesEnabled = !isSelectingForCompare && !isEditing;
+
+  const closeActions = () => {
+    setSwipeOffset(0);
+    setIsMenuOpen(false);
+  };
+
+  const startEditing = () => {
+    setTagsInput((item.tags ?? []).join(', '));
+    setNoteInput(item.note ?? '');
+    setIsEditing(true);
+    closeActions();
+  };
+
+  const saveDetails = () => {
+    onSaveDetails(parseTags(tagsInput), noteInput.trim());
+    setIsEditing(false);
+  };
+
+  const addSuggestedTag = (tag: string) => {
+    setTagsInput((prev) => parseTags(`${prev},${tag}`).join(', '));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!gesturesEnabled || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    const longPressTimer = window.setTimeout(() => {
+      suppressClickRef.current = true;
+      gestureRef.current = null;
+      setSwipeOffset(0);
+      setIsMenuOpen(true);
+      navigator.vibrate?.(10);
+    }, LONG_PRESS_MS);
+    gestureRef.current = {
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      startOffset: swipeOffset,
+      isSwiping: false,
+      longPressTimer,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const gesture = gestureRef.current;
+    if (!gesture || gesture.pointerId !== e.pointerId) return;
+    const dx = e.clientX - gesture.startX;
+    const dy = e.clientY - gesture.startY;
+    if (Math.abs(dx) < GESTURE_SLOP && Math.abs(dy) < GESTURE_SLOP) return;
+
+    window.clearTimeout(gesture.longPressTimer);
+    if (!gesture.isSwiping) {
+      // Mostly vertical: the user is scrolling the list
+      if (Math.abs(dy) > Math.abs(dx)) {
+        gestureRef.current = null;
+        return;
+      }
+      gesture.isSwiping = true;
+      setIsDragging(true);
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    setSwipeOffset(Math.min(0, Math.max(-SWIPE_ACTIONS_WIDTH, gesture.startOffset + dx)));
+  };
+
+  const handlePointerEnd = () => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    if (!gesture) return;
+    window.clearTimeout(gesture.longPressTimer);
+    if (!gesture.isSwiping) return;
+    setIsDragging(false);
+    suppressClickRef.current = true;
+    setSwipeOffset((offset) => (offset < -SWIPE_OPEN_THRESHOLD ? -SWIPE_ACTIONS_WIDTH : 0));
+  };
+
+  const handleClick = () => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    if (swipeOffset !== 0 || isMenuOpen) {
+      closeActions();
+      return;
+    }
+    if (!isEditing) onOpen();
+  };
+
+  const calories = itemCalories(item);
+  const product = item.result.product;
+  const actionButtonClass = "flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-full border border-gray-200 bg-white text-gray-700 hover:bg-gray-50";
+
+  return (
+    <div className="relative overflow-hidden rounded-xl">
+      {/* Revealed by swiping the card left */}
+      <div className="absolute inset-y-0 right-0 flex" style={{ width: SWIPE_ACTIONS_WIDTH }} aria-hidden={swipeOffset === 0}>
+        <button
+          type="button"
+          tabIndex={swipeOffset === 0 ? -1 : 0}
+          onClick={() => { closeActions(); onToggleFavorite(); }}
+          className="flex-1 bg-amber-400 text-white flex flex-col items-center justify-center gap-1 text-xs font-bold"
+        >
+          <Star size={20} fill={item.favorite ? 'currentColor' : 'none'} />
+          {item.favorite ? m.history.unfavorite : m.history.favorite}
+        </button>
+        <button
+          type="button"
+          tabIndex={swipeOffset === 0 ? -1 : 0}
+          onClick={() => { closeActions(); onDelete(); }}
+          className="flex-1 bg-red-500 text-white flex flex-col items-center justify-center gap-1 text-xs font-bold"
+        >
+          <Trash2 size={20} />
+          {m.history.delete}
+        </button>
+      </div>
+
+      <div
+        onClick={handleClick}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerEnd}
+        onPointerCancel={handlePointerEnd}
+        // Long press opens our menu instead of the browser's
+        onContextMenu={(e) => gesturesEnabled && e.preventDefault()}
+        style={{ transform: `translateX(${swipeOffset}px)` }}
+        className={clsx(
+          "relative bg-white p-4 rounded-xl shadow-sm border cursor-pointer hover:bg-gray-50 transition-[transform,background-color] touch-pan-y",
+          gesturesEnabled && "select-none",
+          // Follow the finger without easing while dragging
+          isDragging && "transition-none",
+          isSelectedForCompare ? "border-teal-500" : "border-gray-200"
+        )}
+      >
+        <div className="flex gap-4">
+          {isSelectingForCompare && (
+            <div className="self-center text-teal-600">
+              {isSelectedForCompare ? <CheckCircle2 size={22} /> : <Circle size={22} className="text-gray-300" />}
+            </div>
+          )}
+          <div className="w-20 h-20 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
+            {item.imagePreviewUrl ? (
+              <img src={item.imagePreviewUrl} alt="Thumbnail" className="w-full h-full object-cover" draggable={false} />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center text-gray-300">
+                <ImageIcon size={24} />
+              </div>
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-start justify-between gap-2 mb-1">
+              <p className="text-xs text-gray-400 flex items-center gap-1">
+                {item.favorite && <Star size={12} className="text-amber-400" fill="currentColor" aria-label={m.history.favorite} />}
+                {new Date(item.timestamp).toLocaleDateString(m.meta.intl)}
+              </p>
+              {!isSelectingForCompare && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSwipeOffset(0);
+                    setIsMenuOpen(!isMenuOpen);
+                  }}
+                  onPointerDown={(e) => e.stopPropagation()}
+                  className="-mt-1 -mr-2 p-1 text-gray-400 hover:text-gray-600 rounded-full"
+                  aria-label={m.history.actions}
+                  aria-expanded={isMenuOpen}
+                >
+                  <MoreVertical size={16} />
+                </button>
+              )}
+            </div>
+            {product?.name ? (
+              <div className="mb-2">
+                <p className="text-sm font-bold text-gray-800 line-clamp-1">{product.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {[product.brand, optionLabel(m.options.productCategories, product.category)].filter(Boolean).join(' ・ ')}
+                </p>
+                <p className="text-xs text-gray-400 line-clamp-1">{item.result.summary}</p>
+              </div>
+            ) : (
+              <p className="text-sm font-bold text-gray-800 line-clamp-2 mb-2">
+                {item.result.summary}
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {item.result.healthScore && <HealthScoreBadge healthScore={item.result.healthScore} />}
+              {calories !== undefined && (
+                <span className="text-xs bg-orange-100 text-orange-700 px-2 py-0.5 rounded-full">
+                  {Math.round(calories)}kcal
+                </span>
+              )}
+              {item.tags?.map((tag) => (
+                <span key={tag} className="text-xs bg-teal-50 text-teal-700 px-2 py-0.5 rounded-full">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+            {item.note && !isEditing && (
+              <p className="text-xs text-gray-500 mt-2 flex items-start gap-1">
+                <StickyNote size={12} className="flex-shrink-0 mt-0.5" />
+                <span className="line-clamp-2">{item.note}</span>
+              </p>
+            )}
+          </div>
+        </div>
+
+        {isMenuOpen && (
+          <div
+            className="flex flex-wrap gap-2 mt-3 pt-3 border-t border-gray-100"
+            onClick={(e) => e.stopPropagation()}
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <button type="button" onClick={() => { closeActions(); onToggleFavorite(); }} className={actionButtonClass}>
+              <Star size={14} className="text-amber-400" fill={item.favorite ? 'currentColor' : 'none'} />
+              {item.favorite ? m.history.unfavorite : m.history.favorite}
+            </button>
+            <button type="button" onClick={startEditing} className={actionButtonClass}>
+              <Pencil size={14} className="text-teal-600" />
+              {m.history.edit}
+            </button>
+            <button type="button" onClick={() => { closeActions(); onDelete(); }} className={clsx(actionButtonClass, "text-red-600")}>
+              <Trash2 size={14} />
+              {m.history.delete}
+            </button>
+          </div>
+        )}
+
+        {isEditing && (
+          <div className="mt-3 pt-3 border-t border-gray-100 space-y-3 cursor-auto" onClick={(e) => e.stopPropagation()}>
+            <div>
+              <label className="block text-xs font-bold text-gray-500 mb-1">{m.history.tagsInput}</label>
+              <input
+                type="text"
+                value={tagsInput}
+                onChange={(e) => setTagsInput(e.target.value)}
+                placeholder={m.history.tagsPlaceholder}
+                className="w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 outline-none"
+              />
+              {knownTags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {knownTags
+                    .filter((tag) => !parseTags(tagsInput).includes(tag))
+                    .slice(0, 8)
+                    .map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => addSuggestedTag(tag)}
+                        className="text-xs px-2 py-0.5 rounded-full border border-gray-200 text-gray-600 hover:bg-gray-50"
+                      >
+                        +#{tag}
+                      </button>
+                    ))}
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-500 mb-1">{m.history.note}</label>
+              <textarea
+                value={noteInput}
+                onChange={(e) => setNoteInput(e.target.value)}
+                placeholder={m.history.notePlaceholder}
+                rows={2}
+                className="w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 outline-none resize-none"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setIsEditing(false)} className="text-xs px-3 py-1.5 rounded-full text-gray-500 hover:underline">
+                {m.common.cancel}
+              </button>
+              <button type="button" onClick={saveDetails} className="text-xs px-3 py-1.5 rounded-full bg-teal-600 text-white">
+                {m.history.save}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryListItem;
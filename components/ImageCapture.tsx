@@ -1,77 +1,234 @@
-import React, { useRef, useState } from 'react';
-import { Camera, Image as ImageIcon, X } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Image as ImageIcon, X, Loader2, AlertTriangle, RefreshCcw, FolderOpen, ScanBarcode } from 'lucide-react';
+import CameraView from './CameraView';
+import { ProcessedImage, UnsupportedImageError, formatBytes, preprocessImage } from '../services/imageProcessing';
+import {
+  DEFAULT_QUALITY_THRESHOLDS,
+  ImageQualityReport,
+  QualityThresholds,
+  assessImageQuality,
+} from '../services/imageQuality';
+import { detectBarcodeInDataUrl } from '../services/barcode';
+import { useI18n } from '../i18n';
 
 interface ImageCaptureProps {
   onImagesSelected: (images: string[]) => void;
+  // Called with false while any image has unresolved quality warnings
+  onQualityGateChange?: (passed: boolean) => void;
+  qualityThresholds?: Partial<QualityThresholds>;
+  // Called with the JAN/EAN-13 code found in the images or live camera, or null
+  onBarcodeDetected?: (barcode: string | null) => void;
 }
 
-const ImageCapture: React.FC<ImageCaptureProps> = ({ onImagesSelected }) => {
-  const [previews, setPreviews] = useState<string[]>([]);
+interface CapturedImage extends ProcessedImage {
+  quality?: ImageQualityReport; // Undefined if the local check itself failed
+  accepted: boolean; // User chose to keep it despite warnings
+  barcode?: string;
+}
+
+const hasOpenIssues = (image: CapturedImage) =>
+  !!image.quality && image.quality.issues.length > 0 && !image.accepted;
+
+const ImageCapture: React.FC<ImageCaptureProps> = ({ onImagesSelected, onQualityGateChange, qualityThresholds, onBarcodeDetected }) => {
+  const { m } = useI18n();
+  const [previews, setPreviews] = useState<CapturedImage[]>([]);
+  // Number of files still being preprocessed; camera shots can overlap
+  const [pendingCount, setPendingCount] = useState(0);
+  const [processingError, setProcessingError] = useState<string | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  // Barcode read from the live camera preview, which may never be captured as a photo
+  const [liveBarcode, setLiveBarcode] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Index of the image being retaken, or null when adding new images
+  const replaceIndexRef = useRef<number | null>(null);
+
+  const thresholds = { ...DEFAULT_QUALITY_THRESHOLDS, ...qualityThresholds };
+
+  // Keep the parent in sync; updates below are functional because camera
+  // captures may finish processing while earlier ones are still in flight.
+  useEffect(() => {
+    onImagesSelected(previews.map((p) => p.dataUrl));
+    onQualityGateChange?.(!previews.some(hasOpenIssues));
+  }, [previews]);
+
+  const barcode = liveBarcode ?? previews.find((p) => p.barcode)?.barcode ?? null;
+
+  useEffect(() => {
+    onBarcodeDetected?.(barcode);
+  }, [barcode]);
+
+  const captureImage = async (file: File): Promise<CapturedImage> => {
+    const processed = await preprocessImage(file);
+    let quality: ImageQualityReport | undefined;
+    try {
+      quality = await assessImageQuality(processed.dataUrl, thresholds);
+    } catch (e) {
+      // Never block the user because the heuristic itself broke
+      console.warn("Quality check failed", e);
+    }
+    let barcode: string | undefined;
+    try {
+      barcode = (await detectBarcodeInDataUrl(processed.dataUrl)) ?? undefined;
+    } catch (e) {
+      console.warn("Barcode detection failed", e);
+    }
+    return { ...processed, quality, accepted: false, barcode };
+  };
+
+  // Preprocesses and quality-checks files, then appends them (or replaces the
+  // image at replaceIndex when retaking)
+  const addFiles = async (files: File[], replaceIndex: number | null = null) => {
+    setPendingCount((n) => n + files.length);
+    setProcessingError(null);
+
+    const results = await Promise.allSettled(files.map(captureImage));
+    const captured = results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+
+    if (failed) {
+      setProcessingError(
+        failed.reason instanceof UnsupportedImageError
+          ? m.imageCapture.unsupportedFormat(failed.reason.fileName)
+          : m.imageCapture.loadFailed
+      );
+    }
+    if (replaceIndex !== null && captured.length > 0) {
+      setPreviews((prev) => prev.map((p, i) => (i === replaceIndex ? captured[0] : p)));
+    } else {
+      setPreviews((prev) => [...prev, ...captured]);
+    }
+    setPendingCount((n) => n - files.length);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      const files = Array.from(e.target.files) as File[];
-      const newPreviews: string[] = [];
-      
-      let processedCount = 0;
-
-      files.forEach(file => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          if (reader.result) {
-            newPreviews.push(reader.result as string);
-          }
-          processedCount++;
-          if (processedCount === files.length) {
-            const updated = [...previews, ...newPreviews];
-            setPreviews(updated);
-            onImagesSelected(updated);
-          }
-        };
-        reader.readAsDataURL(file);
-      });
+    if (!e.target.files || e.target.files.length === 0) return;
+    const files = Array.from(e.target.files) as File[];
+    // Allow re-selecting the same file after removing it
+    e.target.value = '';
+    const replaceIndex = replaceIndexRef.current;
+    replaceIndexRef.current = null;
+    addFiles(files, replaceIndex);
+  };
+
+  const handleCameraCapture = (file: File) => {
+    const replaceIndex = replaceIndexRef.current;
+    if (replaceIndex !== null) {
+      // A retake replaces exactly one image, then returns to the previews
+      replaceIndexRef.current = null;
+      setIsCameraOpen(false);
     }
+    addFiles([file], replaceIndex);
+  };
+
+  const handleCameraUnavailable = (message: string) => {
+    setIsCameraOpen(false);
+    setProcessingError(message);
+    fileInputRef.current?.click();
   };
 
   const removeImage = (index: number) => {
-    const updated = previews.filter((_, i) => i !== index);
-    setPreviews(updated);
-    onImagesSelected(updated);
+    setPreviews((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const acceptImage = (index: number) => {
+    setPreviews((prev) => prev.map((p, i) => (i === index ? { ...p, accepted: true } : p)));
+  };
+
+  const retakeImage = (index: number) => {
+    replaceIndexRef.current = index;
+    setIsCameraOpen(true);
   };
 
+  const originalTotal = previews.reduce((sum, p) => sum + p.originalBytes, 0);
+  const processedTotal = previews.reduce((sum, p) => sum + p.processedBytes, 0);
+
   const triggerInput = () => {
+    replaceIndexRef.current = null;
     fileInputRef.current?.click();
   };
 
+  const openCamera = () => {
+    replaceIndexRef.current = null;
+    setIsCameraOpen(true);
+  };
+
   return (
     <div className="space-y-4">
+      {isCameraOpen && (
+        <CameraView
+          onCapture={handleCameraCapture}
+          onClose={() => setIsCameraOpen(false)}
+          onUnavailable={handleCameraUnavailable}
+          onBarcodeDetected={setLiveBarcode}
+        />
+      )}
+
       <div 
-        onClick={triggerInput}
+        onClick={openCamera}
         className="border-2 border-dashed border-teal-300 bg-teal-50 rounded-2xl p-8 text-center cursor-pointer hover:bg-teal-100 transition-colors flex flex-col items-center justify-center gap-3"
       >
         <div className="p-4 bg-teal-200 rounded-full text-teal-700">
           <Camera size={32} />
         </div>
         <div>
-          <p className="font-bold text-teal-900">写真を撮影 / アップロード</p>
-          <p className="text-sm text-teal-600 mt-1">成分表示や商品パッケージを撮影</p>
+          <p className="font-bold text-teal-900">{m.imageCapture.openCamera}</p>
+          <p className="text-sm text-teal-600 mt-1">{m.imageCapture.openCameraHint}</p>
         </div>
-        <input 
-          type="file" 
-          ref={fileInputRef} 
-          className="hidden" 
-          accept="image/*" 
-          multiple
-          onChange={handleFileChange}
-        />
       </div>
 
+      <button
+        type="button"
+        onClick={triggerInput}
+        className="w-full py-3 rounded-xl border border-gray-200 bg-white text-sm font-bold text-gray-600 hover:bg-gray-50 transition-colors flex items-center justify-center gap-2"
+      >
+        <FolderOpen size={18} />
+        {m.imageCapture.pickPhotos}
+      </button>
+      <input 
+        type="file" 
+        ref={fileInputRef} 
+        className="hidden" 
+        accept="image/*" 
+        multiple
+        onChange={handleFileChange}
+      />
+
+      {barcode && (
+        <p className="text-xs text-teal-700 bg-teal-50 border border-teal-100 rounded-lg p-2 flex items-center gap-2">
+          <ScanBarcode size={16} />
+          <span>{m.imageCapture.barcodeRead[0]}<strong className="font-mono">{barcode}</strong>{m.imageCapture.barcodeRead[1]}</span>
+          {liveBarcode && (
+            <button onClick={() => setLiveBarcode(null)} className="ml-auto text-gray-400 hover:text-gray-600" title={m.imageCapture.undoBarcode}>
+              <X size={14} />
+            </button>
+          )}
+        </p>
+      )}
+
+      {pendingCount > 0 && (
+        <p className="text-sm text-teal-600 flex items-center justify-center gap-2">
+          <Loader2 size={16} className="animate-spin" />
+          {m.imageCapture.optimizing}
+        </p>
+      )}
+
+      {processingError && (
+        <p className="text-xs text-red-500 bg-red-50 p-2 rounded-lg">{processingError}</p>
+      )}
+
       {previews.length > 0 && (
         <div className="grid grid-cols-3 gap-2">
-          {previews.map((src, idx) => (
-            <div key={idx} className="relative aspect-square rounded-lg overflow-hidden shadow-sm border border-gray-200 group">
-              <img src={src} alt={`preview-${idx}`} className="w-full h-full object-cover" />
+          {previews.map((image, idx) => (
+            <div
+              key={idx}
+              className={`relative aspect-square rounded-lg overflow-hidden shadow-sm border group ${hasOpenIssues(image) ? 'border-amber-400 border-2' : 'border-gray-200'}`}
+            >
+              <img src={image.dataUrl} alt={`preview-${idx}`} className="w-full h-full object-cover" />
+              {hasOpenIssues(image) && (
+                <span className="absolute bottom-1 left-1 bg-amber-400 text-white p-1 rounded-full">
+                  <AlertTriangle size={12} />
+                </span>
+              )}
               <button 
                 onClick={() => removeImage(idx)}
                 className="absolute top-1 right-1 bg-black/50 text-white p-1 rounded-full hover:bg-red-500 transition-colors"
@@ -82,8 +239,51 @@ const ImageCapture: React.FC<ImageCaptureProps> = ({ onImagesSelected }) => {
           ))}
         </div>
       )}
+
+      {/* Quality warnings */}
+      {previews.some(hasOpenIssues) && (
+        <div className="space-y-2 text-left">
+          {previews.map((image, idx) => hasOpenIssues(image) && (
+            <div key={idx} className="bg-amber-50 border border-amber-200 rounded-xl p-3 text-xs text-amber-800">
+              <p className="font-bold mb-1 flex items-center gap-1">
+                <AlertTriangle size={14} />
+                {m.imageCapture.imageIssues(
+                  idx,
+                  image.quality!.issues.map((issue) => m.qualityIssues[issue]).join(m.imageCapture.issueSeparator)
+                )}
+              </p>
+              <p className="text-amber-700 mb-2">{m.imageCapture.issueWarning}</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => retakeImage(idx)}
+                  className="flex-1 bg-amber-500 hover:bg-amber-600 text-white font-bold py-2 rounded-lg flex items-center justify-center gap-1"
+                >
+                  <RefreshCcw size={12} />
+                  {m.imageCapture.retake}
+                </button>
+                <button
+                  onClick={() => acceptImage(idx)}
+                  className="flex-1 bg-white border border-amber-300 text-amber-700 font-bold py-2 rounded-lg"
+                >
+                  {m.imageCapture.useAnyway}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {previews.length > 0 && originalTotal > processedTotal && (
+        <p className="text-xs text-gray-400 text-right">
+          {m.imageCapture.savings(
+            formatBytes(originalTotal),
+            formatBytes(processedTotal),
+            Math.round((1 - processedTotal / originalTotal) * 100)
+          )}
+        </p>
+      )}
     </div>
   );
 };
 
-export default ImageCapture;
\ No newline at end of file
+export default ImageCapture;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { SUPPORTED_LOCALES, useI18n } from '../i18n';
+import { Languages } from 'lucide-react';
+import clsx from 'clsx';
+
+const LanguageSettingsCard: React.FC = () => {
+  const { m, locale, setLocale } = useI18n();
+
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 mb-4 animate-fade-in">
+      <div className="flex items-center gap-2 mb-3 text-teal-700 font-bold">
+        <Languages size={20} />
+        <h3>{m.settings.language}</h3>
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {SUPPORTED_LOCALES.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            lang={option.id}
+            onClick={() => setLocale(option.id)}
+            className={clsx(
+              "py-2 rounded-xl border text-sm font-bold transition-all",
+              locale === option.id
+                ? "bg-teal-600 text-white border-teal-600"
+                : "bg-white text-gray-600 border-gray-200 hover:bg-gray-50"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-2">{m.settings.languageNote}</p>
+    </div>
+  );
+};
+
+export default LanguageSettingsCard;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Consumption } from '../types';
+import { PORTION_OPTIONS, startOfDay } from '../services/foodLog';
+import { Utensils, Check } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+interface LogConsumptionCardProps {
+  consumptions: Consumption[];
+  onLog: (portion: number) => void;
+}
+
+const LogConsumptionCard: React.FC<LogConsumptionCardProps> = ({ consumptions, onLog }) => {
+  const { m } = useI18n();
+  const today = startOfDay(Date.now());
+  const todayCount = consumptions.filter((c) => c.timestamp >= today).length;
+
+  return (
+    <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-teal-700 font-bold text-sm">
+          <Utensils size={18} />
+          <h3>{m.foodLog.logTitle}</h3>
+        </div>
+        {todayCount > 0 && (
+          <span className="text-xs text-teal-700 flex items-center gap-1">
+            <Check size={14} />
+            {m.foodLog.loggedToday(todayCount)}
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {PORTION_OPTIONS.map((portion) => (
+          <button
+            key={portion}
+            onClick={() => onLog(portion)}
+            className="text-xs py-2 rounded-xl border border-teal-100 bg-teal-50 text-teal-700 hover:bg-teal-100 transition-colors"
+          >
+            {m.foodLog.portion(portion)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LogConsumptionCard;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { CheckCircle2, CloudOff, CloudUpload, X } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+export type QueueNotice = { kind: 'queued' } | { kind: 'done'; completed: number; failed: number };
+
+interface OfflineQueueBannerProps {
+  isOnline: boolean;
+  queuedCount: number;
+  notice: QueueNotice | null;
+  onDismiss: () => void;
+  onViewHistory: () => void;
+}
+
+// Connection state and scans waiting in the offline queue, shown above every tab
+const OfflineQueueBanner: React.FC<OfflineQueueBannerProps> = ({ isOnline, queuedCount, notice, onDismiss, onViewHistory }) => {
+  const { m } = useI18n();
+
+  if (isOnline && queuedCount === 0 && !notice) return null;
+
+  return (
+    <div className="space-y-2 mb-4 animate-fade-in">
+      {!isOnline && (
+        <div className="bg-gray-800 text-white rounded-xl px-4 py-3 flex items-start gap-3 text-sm" role="status">
+          <CloudOff size={18} className="flex-shrink-0 mt-0.5" />
+          <p>{m.queue.offline}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-teal-50 border border-teal-100 rounded-xl px-4 py-3 flex items-start gap-3 text-sm text-teal-900 relative" role="status">
+          {notice.kind === 'queued' ? (
+            <CloudUpload size={18} className="flex-shrink-0 mt-0.5 text-teal-600" />
+          ) : (
+            <CheckCircle2 size={18} className="flex-shrink-0 mt-0.5 text-teal-600" />
+          )}
+          <div className="flex-1 pr-6">
+            <p className="font-bold">{notice.kind === 'queued' ? m.queue.queuedTitle : m.queue.doneTitle}</p>
+            <p className="text-teal-800">
+              {notice.kind === 'queued' ? m.queue.queuedBody : m.queue.doneBody(notice.completed, notice.failed)}
+            </p>
+            {notice.kind === 'done' && notice.completed > 0 && (
+              <button onClick={onViewHistory} className="mt-1 text-teal-700 font-bold hover:underline">
+                {m.queue.viewHistory}
+              </button>
+            )}
+          </div>
+          <button
+            onClick={onDismiss}
+            className="absolute top-2 right-2 p-1 text-teal-400 hover:text-teal-700"
+            title={m.common.close}
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {queuedCount > 0 && (
+        <p className="text-xs text-gray-500 flex items-center gap-1 px-1">
+          <CloudUpload size={14} />
+          {m.queue.pending(queuedCount)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OfflineQueueBanner;
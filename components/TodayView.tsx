@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { Consumption, ScanHistoryItem, UserProfile } from '../types';
+import { NUTRIENTS, dailyReferenceIntake } from '../services/nutrition';
+import { addDays, startOfDay, summarizeDays } from '../services/foodLog';
+import { getHistoryItemsConsumedSince } from '../services/historyStore';
+import { Flame, Utensils, BarChart3, Loader2, Trash2 } from 'lucide-react';
+import { useI18n } from '../i18n';
+import clsx from 'clsx';
+
+interface TodayViewProps {
+  profile: UserProfile;
+  onConsumptionsChange: (id: string, consumptions: Consumption[]) => void;
+}
+
+const WEEK_DAYS = 7;
+const MONTH_DAYS = 30;
+
+// Chart headroom above the budget so a day slightly over still fits
+const CHART_HEADROOM = 1.2;
+
+const TodayView: React.FC<TodayViewProps> = ({ profile, onConsumptionsChange }) => {
+  const { m } = useI18n();
+  const [items, setItems] = useState<ScanHistoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [range, setRange] = useState<'week' | 'month'>('week');
+
+  useEffect(() => {
+    let loaded: ScanHistoryItem[] = [];
+    const since = addDays(startOfDay(Date.now()), -(MONTH_DAYS - 1));
+    getHistoryItemsConsumedSince(since)
+      .then((result) => {
+        loaded = result;
+        setItems(result);
+      })
+      .catch((e) => console.error("Failed to load food log", e))
+      .finally(() => setIsLoading(false));
+    // These object URLs are ours, separate from the history tab's
+    return () => loaded.forEach((item) => item.imagePreviewUrl && URL.revokeObjectURL(item.imagePreviewUrl));
+  }, []);
+
+  const removeConsumption = (item: ScanHistoryItem, consumptionId: string) => {
+    const consumptions = (item.consumptions ?? []).filter((c) => c.id !== consumptionId);
+    setItems(prev => prev.map((i) => (i.id === item.id ? { ...i, consumptions } : i)));
+    onConsumptionsChange(item.id, consumptions);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12 text-gray-400">
+        <Loader2 className="animate-spin" />
+      </div>
+    );
+  }
+
+  const reference = dailyReferenceIntake(profile);
+  const budget = reference.energyKcal;
+  const logs = summarizeDays(items, MONTH_DAYS);
+  const today = logs[logs.length - 1];
+  const consumed = Math.round(today.totals.energyKcal);
+  const remaining = budget - consumed;
+
+  const chartLogs = range === 'week' ? logs.slice(-WEEK_DAYS) : logs;
+  const chartMax = Math.max(budget * CHART_HEADROOM, ...chartLogs.map((log) => log.totals.energyKcal));
+  const loggedDays = chartLogs.filter((log) => log.foods.length > 0);
+  const average = loggedDays.length > 0
+    ? Math.round(loggedDays.reduce((sum, log) => sum + log.totals.energyKcal, 0) / loggedDays.length)
+    : 0;
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <h2 className="text-xl font-bold text-gray-800">{m.foodLog.todayTitle}</h2>
+
+      {/* Calorie budget */}
+      <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex items-center gap-2 mb-3 text-teal-700 font-bold">
+          <Flame size={20} />
+          <h3>{m.foodLog.calories}</h3>
+        </div>
+        <div className="flex items-baseline gap-2 mb-2">
+          <span className="text-3xl font-bold text-gray-800">{consumed.toLocaleString(m.meta.intl)}</span>
+          <span className="text-sm text-gray-500">/ {budget.toLocaleString(m.meta.intl)} kcal</span>
+        </div>
+        <div className="h-3 bg-gray-100 rounded-full overflow-hidden mb-2">
+          <div
+            className={clsx("h-full rounded-full", remaining < 0 ? "bg-red-500" : "bg-teal-500")}
+            style={{ width: `${Math.min(100, (consumed / budget) * 100)}%` }}
+          />
+        </div>
+        <p className={clsx("text-sm", remaining < 0 ? "text-red-600 font-bold" : "text-gray-600")}>
+          {remaining < 0
+            ? m.foodLog.over((-remaining).toLocaleString(m.meta.intl))
+            : m.foodLog.remaining(remaining.toLocaleString(m.meta.intl))}
+        </p>
+
+        <div className="grid grid-cols-2 gap-x-4 gap-y-2 mt-4">
+          {NUTRIENTS.filter(({ key }) => key !== 'energyKcal').map(({ key, unit }) => {
+            const amount = today.totals[key];
+            const percent = reference[key] > 0 ? Math.round((amount / reference[key]) * 100) : 0;
+            return (
+              <div key={key}>
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span className={clsx(key === 'saltEquivalentG' && "font-bold text-gray-700")}>{m.nutrients[key]}</span>
+                  <span>{Math.round(amount * 10) / 10}{unit} / {reference[key]}{unit}</span>
+                </div>
+                <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={clsx("h-full rounded-full", percent > 100 ? "bg-red-400" : "bg-teal-500")}
+                    style={{ width: `${Math.min(100, percent)}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Today's foods */}
+      <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex items-center gap-2 mb-3 text-teal-700 font-bold">
+          <Utensils size={20} />
+          <h3>{m.foodLog.eatenToday}</h3>
+        </div>
+        {today.foods.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            {m.foodLog.emptyToday}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-50">
+            {today.foods.map(({ item, consumption, nutrients }) => (
+              <li key={consumption.id} className="py-2 flex items-center gap-3">
+                <div className="w-10 h-10 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
+                  {item.imagePreviewUrl && <img src={item.imagePreviewUrl} alt="" className="w-full h-full object-cover" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-800 truncate">{item.result.product?.name || item.result.summary}</p>
+                  <p className="text-xs text-gray-400">
+                    {new Date(consumption.timestamp).toLocaleTimeString(m.meta.intl, { hour: '2-digit', minute: '2-digit' })}
+                    {' ・ '}{m.foodLog.portion(consumption.portion)}
+                  </p>
+                </div>
+                <span className="text-sm font-bold text-gray-700">{Math.round(nutrients.energyKcal)}kcal</span>
+                <button
+                  onClick={() => removeConsumption(item, consumption.id)}
+                  className="text-gray-300 hover:text-red-500"
+                  title={m.foodLog.removeEntry}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Trend chart */}
+      <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2 text-teal-700 font-bold">
+            <BarChart3 size={20} />
+            <h3>{m.foodLog.trendTitle}</h3>
+          </div>
+          <div className="flex gap-1">
+            {([
+              { val: 'week', label: m.foodLog.week },
+              { val: 'month', label: m.foodLog.month },
+            ] as const).map((opt) => (
+              <button
+                key={opt.val}
+                onClick={() => setRange(opt.val)}
+                className={clsx(
+                  "text-xs px-2 py-1 rounded-full border transition-colors",
+                  range === opt.val ? "bg-teal-600 text-white border-teal-600" : "bg-white text-gray-600 border-gray-200"
+                )}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="relative h-32 flex items-end gap-0.5">
+          {/* Budget line */}
+          <div
+            className="absolute left-0 right-0 border-t border-dashed border-gray-300"
+            style={{ bottom: `${(budget / chartMax) * 100}%` }}
+          />
+          {chartLogs.map((log) => (
+            <div
+              key={log.date}
+              className="flex-1 h-full flex items-end"
+              title={`${new Date(log.date).toLocaleDateString(m.meta.intl)}: ${Math.round(log.totals.energyKcal)}kcal`}
+            >
+              <div
+                className={clsx("w-full rounded-t", log.totals.energyKcal > budget ? "bg-red-400" : "bg-teal-500")}
+                style={{ height: `${(log.totals.energyKcal / chartMax) * 100}%` }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-0.5 mt-1">
+          {chartLogs.map((log, idx) => {
+            const date = new Date(log.date);
+            // A month of labels doesn't fit; show every 5th day counting back from today
+            const showLabel = range === 'week' || (chartLogs.length - 1 - idx) % 5 === 0;
+            return (
+              <span key={log.date} className="flex-1 text-[10px] text-gray-400 text-center">
+                {showLabel ? (range === 'week' ? m.foodLog.weekdays[date.getDay()] : date.getDate()) : ''}
+              </span>
+            );
+          })}
+        </div>
+        <p className="text-xs text-gray-500 mt-3">
+          {m.foodLog.average(average.toLocaleString(m.meta.intl), budget.toLocaleString(m.meta.intl))}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TodayView;
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { UserProfile } from '../types';
+import { ACTIVITY_LEVELS, ALLERGENS, CONDITIONS, DIETARY_STYLES, GOALS, ProfileOption } from '../constants';
 import { Save, User, Info, ShieldCheck, CheckSquare, Square } from 'lucide-react';
 import clsx from 'clsx';
+import { optionLabel, useI18n } from '../i18n';
 
 interface UserProfileFormProps {
   initialProfile: UserProfile;
@@ -9,7 +11,37 @@ interface UserProfileFormProps {
   isEditing?: boolean;
 }
 
+interface ChipGroupProps {
+  options: ProfileOption[];
+  labels: Record<string, string>; // Catalog labels by option id
+  selected: string[];
+  onToggle: (id: string) => void;
+  activeClassName?: string;
+}
+
+// Multi-select toggle chips for list-type profile fields
+const ChipGroup: React.FC<ChipGroupProps> = ({ options, labels, selected, onToggle, activeClassName = "bg-teal-600 text-white border-teal-600" }) => (
+  <div className="flex flex-wrap gap-2">
+    {options.map((opt) => (
+      <button
+        key={opt.id}
+        type="button"
+        onClick={() => onToggle(opt.id)}
+        className={clsx(
+          "px-3 py-1.5 rounded-full border text-xs font-bold transition-all",
+          selected.includes(opt.id)
+            ? activeClassName
+            : "bg-white text-gray-600 border-gray-200 hover:bg-gray-50"
+        )}
+      >
+        {optionLabel(labels, opt.id)}
+      </button>
+    ))}
+  </div>
+);
+
 const UserProfileForm: React.FC<UserProfileFormProps> = ({ initialProfile, onSave, isEditing = false }) => {
+  const { m } = useI18n();
   const [profile, setProfile] = useState<UserProfile>(initialProfile);
   const [hasConsented, setHasConsented] = useState(false);
 
@@ -23,6 +55,13 @@ const UserProfileForm: React.FC<UserProfileFormProps> = ({ initialProfile, onSav
     }
   }, [initialProfile, isEditing]);
 
+  // Adds or removes an id from one of the list-type profile fields
+  const toggleListValue = (field: 'allergies' | 'conditions' | 'dietaryStyles' | 'goals', id: string) => {
+    const current = profile[field] as string[];
+    const next = current.includes(id) ? current.filter((v) => v !== id) : [...current, id];
+    setProfile({ ...profile, [field]: next });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!hasConsented) return;
@@ -40,7 +79,7 @@ const UserProfileForm: React.FC<UserProfileFormProps> = ({ initialProfile, onSav
           <User size={32} />
         </div>
         <h2 className="text-xl font-bold text-gray-800">
-          {isEditing ? 'プロフィールの設定' : 'VitalScopeへようこそ'}
+          {isEditing ? m.profile.titleEditing : m.profile.titleWelcome}
         </h2>
       </div>
 
@@ -49,12 +88,12 @@ const UserProfileForm: React.FC<UserProfileFormProps> = ({ initialProfile, onSav
         <div className="bg-teal-50 border border-teal-200 rounded-xl p-4 mb-6 text-sm text-teal-900 space-y-3">
           <div className="flex items-start gap-2 font-bold text-teal-700">
             <Info size={20} className="shrink-0 mt-0.5" />
-            <h3>はじめにお読みください</h3>
+            <h3>{m.profile.introTitle}</h3>
           </div>
           <ul className="list-disc list-outside pl-5 space-y-1 text-teal-800 leading-relaxed opacity-90">
-            <li>VitalScopeは、あなたの<strong>健康状態に合わせて市販の商品をAIが解析</strong>する、パーソナライズ診断アプリです。</li>
-            <li>あなたの悩みや目標に応じてメリット・デメリットを評価するため、<strong>プロフィールの入力が必要</strong>です。</li>
-            <li>入力された情報は<strong>すべてあなたの端末にのみ保存</strong>され、外部には送信されません。</li>
+            {m.profile.intro.map(([before, emphasized, after], idx) => (
+              <li key={idx}>{before}<strong>{emphasized}</strong>{after}</li>
+            ))}
           </ul>
         </div>
       )}
@@ -62,11 +101,11 @@ const UserProfileForm: React.FC<UserProfileFormProps> = ({ initialProfile, onSav
       <div className="space-y-5">
         {/* Age Input */}
         <div>
-          <label className="block text-sm font-bold text-gray-700 mb-1">年齢 <span className="text-red-500">*</span></label>
+          <label className="block text-sm font-bold text-gray-700 mb-1">{m.profile.age} <span className="text-red-500">*</span></label>
           <input
             type="number"
             required
-            placeholder="例: 35"
+            placeholder={m.profile.agePlaceholder}
             value={profile.age}
             onChange={(e) => setProfile({ ...profile, age: e.target.value })}
             className="w-full p-4 rounded-xl border border-gray-300 bg-slate-800 text-white placeholder-gray-400 focus:ring-4 focus:ring-teal-500/20 focus:border-teal-500 outline-none transition-all font-bold text-lg"
@@ -75,12 +114,12 @@ const UserProfileForm: React.FC<UserProfileFormProps> = ({ initialProfile, onSav
 
         {/* Gender Input */}
         <div>
-          <label className="block text-sm font-bold text-gray-700 mb-1">性別 <span className="text-red-500">*</span></label>
+          <label className="block text-sm font-bold text-gray-700 mb-1">{m.profile.gender} <span className="text-red-500">*</span></label>
           <div className="flex gap-3">
             {[
-              { val: 'male', label: '男性' },
-              { val: 'female', label: '女性' },
-              { val: 'other', label: 'その他' }
+              { val: 'male', label: m.profile.genderMale },
+              { val: 'female', label: m.profile.genderFemale },
+              { val: 'other', label: m.profile.genderOther }
             ].map((opt) => (
               <button
                 key={opt.val}
@@ -99,10 +138,115 @@ const UserProfileForm: React.FC<UserProfileFormProps> = ({ initialProfile, onSav
           </div>
         </div>
 
+        {/* Height / Weight Input */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-1">{m.profile.height}</label>
+            <input
+              type="number"
+              inputMode="decimal"
+              placeholder={m.profile.heightPlaceholder}
+              value={profile.heightCm}
+              onChange={(e) => setProfile({ ...profile, heightCm: e.target.value })}
+              className="w-full p-4 rounded-xl border border-gray-300 bg-slate-800 text-white placeholder-gray-400 focus:ring-4 focus:ring-teal-500/20 focus:border-teal-500 outline-none transition-all font-bold text-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-1">{m.profile.weight}</label>
+            <input
+              type="number"
+              inputMode="decimal"
+              placeholder={m.profile.weightPlaceholder}
+              value={profile.weightKg}
+              onChange={(e) => setProfile({ ...profile, weightKg: e.target.value })}
+              className="w-full p-4 rounded-xl border border-gray-300 bg-slate-800 text-white placeholder-gray-400 focus:ring-4 focus:ring-teal-500/20 focus:border-teal-500 outline-none transition-all font-bold text-lg"
+            />
+          </div>
+        </div>
+
+        {/* Activity Level Input */}
+        <div>
+          <label className="block text-sm font-bold text-gray-700 mb-1">{m.profile.activityLevel}</label>
+          <div className="space-y-2">
+            {ACTIVITY_LEVELS.map((opt) => (
+              <button
+                key={opt.id}
+                type="button"
+                onClick={() => setProfile({ ...profile, activityLevel: opt.id })}
+                className={clsx(
+                  "w-full text-left px-4 py-2 rounded-xl border transition-all",
+                  profile.activityLevel === opt.id
+                    ? "bg-teal-600 text-white border-teal-600 shadow-md"
+                    : "bg-white text-gray-600 border-gray-200 hover:bg-gray-50"
+                )}
+              >
+                <span className="block text-sm font-bold">{optionLabel(m.options.activityLevels, opt.id)}</span>
+                <span className={clsx("block text-xs", profile.activityLevel === opt.id ? "text-teal-100" : "text-gray-400")}>
+                  {optionLabel(m.options.activityDescriptions, opt.id)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Allergies Input */}
+        <div>
+          <label className="block text-sm font-bold text-gray-700 mb-1">{m.profile.allergies}</label>
+          <p className="text-xs text-gray-500 mb-2">{m.profile.allergensMandatory}</p>
+          <ChipGroup
+            options={ALLERGENS.filter((a) => a.mandatory)}
+            labels={m.options.allergens}
+            selected={profile.allergies}
+            onToggle={(id) => toggleListValue('allergies', id)}
+            activeClassName="bg-red-500 text-white border-red-500"
+          />
+          <p className="text-xs text-gray-500 mt-3 mb-2">{m.profile.allergensRecommended}</p>
+          <ChipGroup
+            options={ALLERGENS.filter((a) => !a.mandatory)}
+            labels={m.options.allergens}
+            selected={profile.allergies}
+            onToggle={(id) => toggleListValue('allergies', id)}
+            activeClassName="bg-red-500 text-white border-red-500"
+          />
+        </div>
+
+        {/* Conditions Input */}
+        <div>
+          <label className="block text-sm font-bold text-gray-700 mb-2">{m.profile.conditions}</label>
+          <ChipGroup
+            options={CONDITIONS}
+            labels={m.options.conditions}
+            selected={profile.conditions}
+            onToggle={(id) => toggleListValue('conditions', id)}
+          />
+        </div>
+
+        {/* Dietary Style Input */}
+        <div>
+          <label className="block text-sm font-bold text-gray-700 mb-2">{m.profile.dietaryStyles}</label>
+          <ChipGroup
+            options={DIETARY_STYLES}
+            labels={m.options.dietaryStyles}
+            selected={profile.dietaryStyles}
+            onToggle={(id) => toggleListValue('dietaryStyles', id)}
+          />
+        </div>
+
+        {/* Goals Input */}
+        <div>
+          <label className="block text-sm font-bold text-gray-700 mb-2">{m.profile.goals}</label>
+          <ChipGroup
+            options={GOALS}
+            labels={m.options.goals}
+            selected={profile.goals}
+            onToggle={(id) => toggleListValue('goals', id)}
+          />
+        </div>
+
         {/* Health Context Input */}
         <div>
           <label className="block text-sm font-bold text-gray-700 mb-1">
-            現在の健康状態・悩み・目標 <span className="text-red-500">*</span>
+            {m.profile.healthContext} <span className="text-red-500">*</span>
           </label>
           <div className="relative">
             <textarea
@@ -110,12 +254,12 @@ const UserProfileForm: React.FC<UserProfileFormProps> = ({ initialProfile, onSav
               rows={6}
               value={profile.healthContext}
               onChange={(e) => setProfile({ ...profile, healthContext: e.target.value })}
-              placeholder="例：最近、健康診断で血圧が高めと言われたので塩分を控えたいです。甲殻類のアレルギーがあります。また、デスクワーク中心で運動不足のため、むくみやすいのが悩みです。"
+              placeholder={m.profile.healthContextPlaceholder}
               className="w-full p-4 rounded-xl border border-gray-300 bg-slate-800 text-white placeholder-gray-500 focus:ring-4 focus:ring-teal-500/20 focus:border-teal-500 outline-none transition-all text-sm leading-relaxed resize-none"
             />
           </div>
           <p className="text-xs text-gray-500 mt-2 text-right">
-            具体的であればあるほど、AIの精度が向上します。
+            {m.profile.healthContextHint}
           </p>
         </div>
 
@@ -128,10 +272,9 @@ const UserProfileForm: React.FC<UserProfileFormProps> = ({ initialProfile, onSav
                 {hasConsented ? <CheckSquare size={20} /> : <Square size={20} />}
             </div>
             <div className="text-xs text-gray-600 leading-snug">
-                <p className="font-bold mb-1">以下を確認し、同意します</p>
+                <p className="font-bold mb-1">{m.profile.consentTitle}</p>
                 <ul className="list-disc pl-4 space-y-0.5">
-                    <li>このアプリの診断は、私のプロフィール情報に基づいてパーソナライズされます。</li>
-                    <li>プロフィールは後からでも変更できます。</li>
+                    {m.profile.consentItems.map((item) => <li key={item}>{item}</li>)}
                 </ul>
             </div>
         </div>
@@ -148,7 +291,7 @@ const UserProfileForm: React.FC<UserProfileFormProps> = ({ initialProfile, onSav
           )}
         >
           <Save size={20} />
-          {isEditing ? '設定を保存する' : '初期設定を完了して始める'}
+          {isEditing ? m.profile.save : m.profile.finishSetup}
         </button>
       </div>
     </form>
@@ -0,0 +1,102 @@
+import { ActivityLevel, DietaryStyle, ProductCategory } from './types';
+
+export interface ProfileOption<T extends string = string> {
+  id: T;
+  label: string;
+}
+
+export interface AllergenOption extends ProfileOption {
+  mandatory: boolean; // 特定原材料 (表示義務) vs 特定原材料に準ずるもの (表示推奨)
+  synonyms: string[]; // Terms that indicate the allergen in an ingredient list (katakana is matched as hiragana)
+  excludes?: string[]; // Look-alike terms that do NOT indicate it, e.g. 乳化剤 for 乳, スイカ for いか
+}
+
+// Japan's food labelling allergens: 8 mandatory + 20 recommended (食品表示基準, 2025)
+export const ALLERGENS: AllergenOption[] = [
+  { id: 'shrimp', label: 'えび', mandatory: true, synonyms: ['えび', '海老', '蝦', 'シュリンプ', 'ロブスター', 'shrimp', 'prawn', 'lobster'], excludes: ['エビアン'] },
+  { id: 'crab', label: 'かに', mandatory: true, synonyms: ['かに', '蟹', 'crab'], excludes: ['やかに', 'らかに'] },
+  { id: 'walnut', label: 'くるみ', mandatory: true, synonyms: ['くるみ', '胡桃', 'walnut'] },
+  { id: 'wheat', label: '小麦', mandatory: true, synonyms: ['小麦', 'こむぎ', '薄力粉', '強力粉', '全粒粉', 'パン粉', 'グルテン', 'ふすま', 'デュラム', 'セモリナ', 'wheat', 'gluten'] },
+  { id: 'buckwheat', label: 'そば', mandatory: true, synonyms: ['そば', '蕎麦', 'buckwheat'] },
+  { id: 'egg', label: '卵', mandatory: true, synonyms: ['卵', 'たまご', '玉子', 'マヨネーズ', 'egg'] },
+  { id: 'milk', label: '乳', mandatory: true, synonyms: ['乳', 'ミルク', 'チーズ', 'バター', 'クリーム', 'ヨーグルト', 'ホエイ', 'カゼイン', 'milk', 'whey', 'casein', 'cheese', 'butter'], excludes: ['乳化剤', '乳酸', '豆乳', 'ココナッツミルク', 'ココナッツクリーム', '植物性クリーム', 'ピーナッツバター'] },
+  { id: 'peanut', label: '落花生', mandatory: true, synonyms: ['落花生', 'らっかせい', 'ピーナッツ', 'ピーナツ', 'peanut'] },
+  { id: 'almond', label: 'アーモンド', mandatory: false, synonyms: ['アーモンド', 'almond'] },
+  { id: 'abalone', label: 'あわび', mandatory: false, synonyms: ['あわび', '鮑', 'abalone'] },
+  { id: 'squid', label: 'いか', mandatory: false, synonyms: ['いか', '烏賊', 'squid'], excludes: ['スイカ', 'マイカ', 'ハイカカオ', 'ハイカロリー'] },
+  { id: 'salmon_roe', label: 'いくら', mandatory: false, synonyms: ['いくら', 'すじこ', '筋子'] },
+  { id: 'orange', label: 'オレンジ', mandatory: false, synonyms: ['オレンジ', 'orange'] },
+  { id: 'cashew', label: 'カシューナッツ', mandatory: false, synonyms: ['カシュー', 'cashew'] },
+  { id: 'kiwi', label: 'キウイフルーツ', mandatory: false, synonyms: ['キウイ', 'kiwi'] },
+  { id: 'beef', label: '牛肉', mandatory: false, synonyms: ['牛肉', '牛脂', '牛骨', '牛エキス', 'ビーフ', 'beef'] },
+  { id: 'sesame', label: 'ごま', mandatory: false, synonyms: ['ごま', '胡麻', 'セサミ', 'sesame'] },
+  { id: 'salmon', label: 'さけ', mandatory: false, synonyms: ['さけ', '鮭', 'サーモン', 'salmon'] },
+  { id: 'mackerel', label: 'さば', mandatory: false, synonyms: ['さば', '鯖', 'mackerel'] },
+  { id: 'soybean', label: '大豆', mandatory: false, synonyms: ['大豆', 'だいず', '豆乳', '醤油', 'しょうゆ', '味噌', 'みそ', '豆腐', '納豆', 'きなこ', 'ソイ', 'soy'] },
+  { id: 'chicken', label: '鶏肉', mandatory: false, synonyms: ['鶏', 'チキン', 'chicken'], excludes: ['鶏卵'] },
+  { id: 'banana', label: 'バナナ', mandatory: false, synonyms: ['バナナ', 'banana'] },
+  { id: 'pork', label: '豚肉', mandatory: false, synonyms: ['豚', 'ポーク', 'ラード', 'pork', 'lard'] },
+  { id: 'macadamia', label: 'マカダミアナッツ', mandatory: false, synonyms: ['マカダミア', 'マカデミア', 'macadamia'] },
+  { id: 'peach', label: 'もも', mandatory: false, synonyms: ['もも', '桃', 'ピーチ', 'peach'], excludes: ['鶏もも', 'すもも'] },
+  { id: 'yam', label: 'やまいも', mandatory: false, synonyms: ['やまいも', '山芋', '長芋', '長いも', 'とろろ', '自然薯', 'yam'] },
+  { id: 'apple', label: 'りんご', mandatory: false, synonyms: ['りんご', '林檎', 'アップル', 'apple'], excludes: ['パイナップル'] },
+  { id: 'gelatin', label: 'ゼラチン', mandatory: false, synonyms: ['ゼラチン', 'gelatin'] },
+];
+
+export const ACTIVITY_LEVELS: (ProfileOption<ActivityLevel> & { description: string })[] = [
+  { id: 'sedentary', label: 'ほとんど動かない', description: 'デスクワーク中心、運動習慣なし' },
+  { id: 'light', label: 'やや低い', description: '通勤・家事で歩く程度、軽い運動を週1〜2回' },
+  { id: 'moderate', label: 'ふつう', description: '立ち仕事や移動が多い、運動を週3〜5回' },
+  { id: 'active', label: '高い', description: '肉体労働、またはほぼ毎日しっかり運動' },
+  { id: 'very_active', label: '非常に高い', description: 'アスリート並みのトレーニングを毎日' },
+];
+
+export const CONDITIONS: ProfileOption[] = [
+  { id: 'hypertension', label: '高血圧' },
+  { id: 'diabetes', label: '糖尿病・血糖値が高め' },
+  { id: 'dyslipidemia', label: '脂質異常症' },
+  { id: 'hyperuricemia', label: '高尿酸血症・痛風' },
+  { id: 'kidney_disease', label: '腎臓病' },
+  { id: 'liver_disease', label: '肝臓の病気' },
+  { id: 'heart_disease', label: '心臓の病気' },
+  { id: 'osteoporosis', label: '骨粗しょう症' },
+  { id: 'anemia', label: '貧血' },
+  { id: 'ibs', label: '過敏性腸症候群' },
+  { id: 'pregnancy', label: '妊娠中・授乳中' },
+];
+
+export const DIETARY_STYLES: ProfileOption<DietaryStyle>[] = [
+  { id: 'vegetarian', label: 'ベジタリアン' },
+  { id: 'vegan', label: 'ヴィーガン' },
+  { id: 'halal', label: 'ハラール' },
+  { id: 'low_fodmap', label: '低FODMAP' },
+  { id: 'gluten_free', label: 'グルテンフリー' },
+  { id: 'low_carb', label: '糖質制限' },
+];
+
+export const GOALS: ProfileOption[] = [
+  { id: 'lose_weight', label: '減量' },
+  { id: 'gain_muscle', label: '筋力アップ' },
+  { id: 'reduce_salt', label: '減塩' },
+  { id: 'control_blood_sugar', label: '血糖値のコントロール' },
+  { id: 'lower_cholesterol', label: 'コレステロール対策' },
+  { id: 'improve_gut', label: '腸内環境の改善' },
+  { id: 'beauty', label: '美容・肌の健康' },
+  { id: 'maintain', label: '現状の健康維持' },
+];
+
+// What the model classifies a scanned product as
+export const PRODUCT_CATEGORIES: ProfileOption<ProductCategory>[] = [
+  { id: 'snack', label: 'お菓子・スナック' },
+  { id: 'beverage', label: '飲料' },
+  { id: 'meal', label: '食品・食事' },
+  { id: 'seasoning', label: '調味料' },
+  { id: 'supplement', label: 'サプリメント' },
+  { id: 'cosmetic', label: '化粧品' },
+  { id: 'medicine', label: '医薬品' },
+  { id: 'other', label: 'その他' },
+];
+
+// Looks up display labels for stored option ids, keeping unknown ids as-is
+export const labelsFor = (options: ProfileOption[], ids: string[]): string[] =>
+  ids.map((id) => options.find((opt) => opt.id === id)?.label ?? id);
@@ -0,0 +1,74 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Locale } from '../types';
+import { ja, Messages } from './locales/ja';
+import { en } from './locales/en';
+import { zh } from './locales/zh';
+import { ko } from './locales/ko';
+
+export type { Messages, Emphasized } from './locales/ja';
+
+const LOCALE_KEY = 'sukoyaka_locale';
+
+const CATALOGS: Record<Locale, Messages> = { ja, en, zh, ko };
+
+// Picker entries, each named in its own language
+export const SUPPORTED_LOCALES: { id: Locale; label: string }[] = (Object.keys(CATALOGS) as Locale[]).map((id) => ({
+  id,
+  label: CATALOGS[id].meta.languageName,
+}));
+
+const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in CATALOGS;
+
+// First supported language in the browser's preference list, falling back to
+// Japanese. Region subtags are ignored, so zh-TW still gets the zh catalog.
+export const detectLocale = (): Locale => {
+  const preferred = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const tag of preferred) {
+    const language = tag?.toLowerCase().split('-')[0];
+    if (isLocale(language)) return language;
+  }
+  return 'ja';
+};
+
+const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  return isLocale(saved) ? saved : detectLocale();
+};
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  m: Messages;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Only an explicit choice is stored; otherwise the browser language keeps deciding
+  const setLocale = (next: Locale) => {
+    localStorage.setItem(LOCALE_KEY, next);
+    setLocaleState(next);
+  };
+
+  return (
+    <I18nContext.Provider value={{ locale, setLocale, m: CATALOGS[locale] }}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used inside I18nProvider");
+  return context;
+};
+
+// Label for a stored option id; ids the catalog doesn't know are shown as-is
+export const optionLabel = (labels: Record<string, string>, id: string): string => labels[id] ?? id;
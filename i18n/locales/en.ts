@@ -0,0 +1,529 @@
+import type { Messages } from './ja';
+
+export const en: Messages = {
+  meta: {
+    intl: 'en-US',
+    languageName: 'English',
+  },
+
+  common: {
+    close: 'Close',
+    cancel: 'Cancel',
+    retry: 'Try again',
+    listSeparator: ', ',
+  },
+
+  nav: {
+    history: 'History',
+    today: 'Today',
+    scan: 'Scan',
+    settings: 'Settings',
+  },
+
+  app: {
+    shareTitle: 'Share this app',
+    shareText: 'AI checks products against my own health profile! Try VitalScope too.',
+    shareCopied: 'Link copied',
+    setupRequiredTitle: 'Setup required',
+    setupRequiredBody: 'This app tailors every check to your health, so please fill in your profile first.',
+    setupRequiredReason: 'VitalScope needs your age, sex, current health and concerns to give you the right results.',
+    setupRequiredNote: '* Scanning is unavailable until setup is complete.',
+    startSetup: 'Start setup',
+    scanTitle: 'Check a product',
+    scanLead: ['Take a photo of the nutrition label or package', 'to see how it affects your health.'],
+    analyzing: 'Analyzing...',
+    analyze: 'Analyze',
+  },
+
+  queue: {
+    offline: "You're offline. Scans are saved and analyzed automatically once you're back online.",
+    saveForLater: 'Save and analyze later',
+    queuedTitle: 'Scan saved',
+    queuedBody: "It will be analyzed automatically when you're back online, and the result added to your history.",
+    pending: (count: number) => `Waiting to analyze: ${count} ${count === 1 ? 'scan' : 'scans'}`,
+    doneTitle: 'Offline scans analyzed',
+    doneBody: (completed: number, failed: number) =>
+      failed > 0
+        ? `Added ${completed} to your history (${failed} could not be analyzed).`
+        : `Added ${completed} to your history.`,
+    viewHistory: 'View history',
+  },
+
+  compare: {
+    addToList: 'Add to comparison',
+    removeFromList: 'Remove from comparison',
+    compareCount: (count: number) => `Compare ${count} items`,
+    backToHistory: 'Back to history',
+    needTwo: 'Select at least two history items to compare',
+    start: 'Compare',
+    endSelection: 'Done',
+    selecting: (count: number, max: number) => `Selecting products to compare (${count}/${max})`,
+    clear: 'Clear',
+    title: 'Compare products',
+    removeItem: 'Remove from comparison',
+    product: (index: number) => `Product ${index + 1}`,
+    containsAllergen: 'Contains an allergen',
+    rowScore: 'Score',
+    rowCalories: 'Calories',
+    rowDailyShare: 'Share of daily need',
+    rowPros: 'Pros',
+    rowCons: 'Cons',
+    basisPer100g: 'per 100 g',
+    basisPerServing: "per each product's labelled serving",
+    footnote: (basis: string) => `* Nutrients are ${basis}. Bold marks the best value in each row.`,
+    verdictBest: (index: number) => `Product ${index + 1} is the best fit for you`,
+    verdictNone: 'None of these products is recommended',
+    comparing: 'Comparing...',
+    ask: 'Ask the AI which suits me',
+  },
+
+  history: {
+    title: 'Scan history',
+    clear: 'Delete history',
+    confirmClear: 'Delete all history?',
+    filterAll: 'All',
+    filterGreen: 'Good',
+    filterAmber: 'Caution',
+    filterRed: 'Limit',
+    sortNewest: 'Newest',
+    sortScoreDesc: 'Highest score',
+    sortScoreAsc: 'Lowest score',
+    empty: 'No history yet',
+    noMatch: 'No history matches these filters',
+    loadMore: 'Load more',
+    sortOldest: 'Oldest first',
+    sortKcalDesc: 'Most calories',
+    sortKcalAsc: 'Fewest calories',
+    searchPlaceholder: 'Search summaries, products, tags and notes',
+    filters: 'Filters',
+    resetFilters: 'Clear filters',
+    dateRange: 'Dates',
+    calorieRange: 'Calories (kcal)',
+    scoreRange: 'Score',
+    min: 'Min',
+    max: 'Max',
+    favoritesOnly: 'Favorites only',
+    tags: 'Tags',
+    matchCount: (count: number) => `${count} ${count === 1 ? 'item' : 'items'}`,
+    gestureHint: 'Swipe a card left or long-press it to favorite, edit or delete',
+    actions: 'Actions',
+    favorite: 'Add to favorites',
+    unfavorite: 'Remove from favorites',
+    edit: 'Edit tags and note',
+    delete: 'Delete',
+    confirmDelete: 'Delete this history item?',
+    tagsInput: 'Tags (comma-separated)',
+    tagsPlaceholder: 'e.g. breakfast, for the kids',
+    note: 'Note',
+    notePlaceholder: 'e.g. Not too sweet, the family liked it',
+    save: 'Save',
+  },
+
+  settings: {
+    language: 'Language',
+    languageNote: 'Analysis results and AI answers also use this language.',
+  },
+
+  data: {
+    title: 'Your data',
+    note: 'Your profile and history are stored only on this device. Save a backup before switching phones.',
+    exportBackup: 'Save backup (JSON)',
+    exportCsv: 'Save nutrition data (CSV)',
+    printReport: 'Report for your doctor (print / PDF)',
+    importBackup: 'Restore from backup',
+    working: 'Working...',
+    exportFailed: 'Could not export your data.',
+    confirmReplaceProfile: 'Replace your current profile with the one in the backup?\nChoose "Cancel" to restore only the history.',
+    imported: (added: number, merged: number, skipped: number) =>
+      `Added ${added} and updated ${merged} items.` + (skipped > 0 ? ` (${skipped} unreadable items were skipped.)` : ''),
+    importErrors: {
+      'not-a-backup': 'This is not a VitalScope backup file.',
+      'newer-version': 'This backup was made by a newer version of the app. Update the app, then restore it.',
+      invalid: 'The backup file is damaged and could not be restored.',
+    },
+    csv: {
+      date: 'Date',
+      summary: 'Summary',
+      productName: 'Product name',
+      brand: 'Maker / brand',
+      category: 'Category',
+      score: 'Score',
+      rating: 'Rating',
+      productCalories: 'Calories (kcal)',
+      dailyPercentage: 'Share of daily need (%)',
+      servingSize: 'Serving',
+      source: 'Nutrition source',
+      sources: { label: 'Label', estimated: 'Estimated' },
+      timesLogged: 'Times logged',
+      barcode: 'Barcode',
+      id: 'ID',
+    },
+    report: {
+      title: 'VitalScope diet report',
+      generatedAt: (date: string) => `Created: ${date}`,
+      profileSection: 'Profile',
+      foodLogSection: (days: number) => `Food log (last ${days} days)`,
+      day: 'Date',
+      foods: 'Eaten',
+      noFoodLog: 'Nothing was logged in this period.',
+      scansSection: (count: number) => `Scanned products (${count})`,
+      disclaimer: 'This report summarizes AI analyses of products and entries made in the app. It is not a medical diagnosis, and some values are estimates.',
+    },
+  },
+
+  analysis: {
+    unclearTitle: "Couldn't analyze the image",
+    unclearFallbackReason: 'The image is unclear or the product could not be identified.',
+    unclearAdvice: ['Retake the photo in good light so the text is readable.', 'Including the whole package or the nutrition label improves accuracy.'],
+    retake: 'Retake photo',
+    ingredientsUnreadable: "The ingredient list couldn't be read, so allergens were not checked. Photograph the ingredient list too, or check the package yourself.",
+    fromCache: 'Showing the previous result for the same photos',
+    reanalyze: 'Analyze again',
+    reanalyzing: 'Analyzing again...',
+    summaryTitle: 'AI summary',
+    pros: 'Pros',
+    cons: 'Cons & cautions',
+    calorieTitle: 'Calories',
+    ofDailyNeed: 'of daily need',
+    kcalEstimated: 'kcal (est.)',
+    dailyNeed: 'Your estimated daily calorie need: ',
+    computedWith: (formula: string) => `Calculated with ${formula}`,
+    recommendationsTitle: 'Recommended for you',
+    affiliateNote: '* Contains Amazon Associate links',
+    allergenTitle: 'Contains allergens',
+    allergenNote: 'Matched on this device against the allergies in your profile. Always check the actual package as well.',
+    nutritionTitle: 'Nutrition facts',
+    nutritionFromLabel: 'From the nutrition label',
+    nutritionEstimated: 'Estimated from typical values',
+    perServingFallback: '1 serving',
+    per100g: 'Per 100 g',
+    dailyShare: '% daily',
+    nutritionFootnote: (saltTarget: number, serving: string) =>
+      `* % daily is the share of ${serving} against the daily reference amounts calculated from your profile (salt under ${saltTarget} g).`,
+  },
+
+  product: {
+    unknownName: 'Unknown product',
+    confidence: (percent: number) => `${percent}% sure`,
+    lowConfidence: "We couldn't identify this product with certainty. Correct it if it's wrong.",
+    correctedByUser: 'Corrected',
+    correct: 'Correct product',
+    correctTitle: 'Enter the right product',
+    name: 'Product name',
+    namePlaceholder: 'e.g. Lightly salted potato chips',
+    brand: 'Maker / brand',
+    brandPlaceholder: 'e.g. Calbee',
+    category: 'Category',
+    reanalyze: 'Re-analyze as this product',
+    save: 'Save correction',
+    noImagesNote: "The photos aren't available, so this can't be re-analyzed. Only the product details will be corrected.",
+  },
+
+  progress: {
+    steps: {
+      quality: 'Image check',
+      summary: 'Summary',
+      score: 'Score',
+      calories: 'Calories',
+      nutrition: 'Nutrients & ingredients',
+      prosCons: 'Pros & cautions',
+    },
+    unclear: (reason: string) => `The image was judged unclear. ${reason}`,
+  },
+
+  score: {
+    green: 'Good choice',
+    amber: 'Watch portions',
+    red: 'Limit',
+    points: (score: number) => `${score} pts`,
+    nutriGradeTitle: 'Nutri-Score style grade calculated from the nutrients (for reference)',
+    nutriGradeLabel: 'Nutrition',
+  },
+
+  errors: {
+    'missing-api-key': {
+      title: 'API key error',
+      message: 'The API key is missing or invalid.',
+      advice: 'Ask the app administrator to check the API key configuration.',
+    },
+    'rate-limit': {
+      title: 'Usage limit reached',
+      message: 'The AI usage limit has been reached.',
+      advice: 'Wait a few minutes, then try again.',
+    },
+    network: {
+      title: "You're offline",
+      message: "Couldn't connect to the network.",
+      advice: 'Move somewhere with better signal or turn on Wi-Fi or mobile data, then retry.',
+    },
+    'service-unavailable': {
+      title: 'The AI service is busy',
+      message: 'The AI service is temporarily unavailable.',
+      advice: 'Wait a moment, then try again.',
+    },
+    'safety-block': {
+      title: "This image can't be analyzed",
+      message: 'The image could not be analyzed for safety reasons.',
+      advice: 'Retake the photo showing only the product package or label.',
+    },
+    'empty-response': {
+      title: 'No response from the AI',
+      message: 'The AI returned no response.',
+      advice: 'Try again. If it keeps happening, try fewer images.',
+    },
+    'invalid-response': {
+      title: "Couldn't read the result",
+      message: 'The AI response was not in the expected format.',
+      advice: 'Try again. Results are generated each time, so a retry often fixes this.',
+    },
+    timeout: {
+      title: 'The analysis took too long',
+      message: 'The analysis timed out.',
+      advice: 'Try again somewhere with a better connection.',
+    },
+    cancelled: {
+      title: 'Analysis cancelled',
+      message: 'The analysis was cancelled.',
+      advice: 'Press "Analyze" again when you are ready.',
+    },
+    'payload-too-large': {
+      title: 'The images are too large',
+      message: 'The images were too large to send.',
+      advice: 'Use fewer images, or retake the photo showing just the ingredient label.',
+    },
+    unknown: {
+      title: 'Something went wrong',
+      message: 'An error occurred during the analysis.',
+      advice: 'Wait a moment, then try again.',
+    },
+    apiKeyVariable: (name: string) => `Setting to check: ${name}`,
+  },
+
+  camera: {
+    unavailable: {
+      denied: 'Camera access was not allowed. Please choose a photo instead.',
+      'not-found': 'No camera was found. Please choose a photo instead.',
+      unsupported: "This browser doesn't support taking photos. Please choose a photo instead.",
+      failed: "Couldn't start the camera. Please choose a photo instead.",
+    },
+    framingHint: 'Fit the nutrition label or ingredient list inside the frame',
+    torch: 'Light',
+    switchCamera: 'Switch camera',
+    capture: 'Take photo',
+    done: 'Done',
+  },
+
+  imageCapture: {
+    openCamera: 'Take a photo',
+    openCameraHint: 'Photograph the label or package',
+    pickPhotos: 'Choose photos',
+    barcodeRead: ['Read barcode ', ''],
+    undoBarcode: 'Undo',
+    optimizing: 'Optimizing images...',
+    loadFailed: "Couldn't load the image.",
+    unsupportedFormat: (fileName: string) =>
+      `"${fileName}" is in a format this browser can't read. Save it as JPEG or PNG, or set your camera to "Most Compatible".`,
+    imageIssues: (index: number, issues: string) => `Image ${index + 1}: ${issues}`,
+    issueSeparator: ', ',
+    issueWarning: 'Analyzing as-is may give inaccurate results.',
+    retake: 'Retake',
+    useAnyway: 'Use anyway',
+    savings: (from: string, to: string, percent: number) => `Upload size: ${from} → ${to} (${percent}% smaller)`,
+  },
+
+  qualityIssues: {
+    blurry: 'May be out of focus',
+    'too-dark': 'Too dark',
+    'too-bright': 'Too bright (overexposed)',
+    'too-small': 'Resolution too low',
+  },
+
+  chat: {
+    title: 'Ask the AI about this product',
+    suggestions: [
+      'How much can I eat per day?',
+      'Is it OK with the medication I take?',
+      'Is there a healthier way to eat it?',
+    ],
+    placeholder: 'e.g. How many can I have per day?',
+    stop: 'Stop answer',
+    send: 'Send',
+    interrupted: '(Answer stopped)',
+    disclaimer: '* AI answers are general information. Ask a doctor or pharmacist about medication or treatment.',
+  },
+
+  dailyEnergy: {
+    title: 'Estimated daily calorie need',
+    empty: 'Enter your age and weight and the app will calculate your daily calorie need on this device, using the same baseline for every analysis. Otherwise the AI estimates it each time.',
+    perDay: 'kcal/day',
+    bmr: 'Basal metabolic rate (BMR)',
+    activityFactor: 'Activity factor',
+    equation: 'Daily need = BMR × activity factor',
+    activityAssumed: (level: string) => `* No activity level entered, so "${level}" was assumed.`,
+  },
+
+  bmrFormulas: {
+    'mifflin-st-jeor': {
+      name: 'the Mifflin-St Jeor equation',
+      expression: '10 × weight (kg) + 6.25 × height (cm) − 5 × age + 5 (men) / −161 (women)',
+    },
+    'japanese-reference': {
+      name: 'Japanese BMR reference values (Dietary Reference Intakes for Japanese)',
+      expression: 'BMR reference value (kcal/kg/day) × weight (kg)',
+    },
+  },
+
+  nutrients: {
+    energyKcal: 'Energy',
+    proteinG: 'Protein',
+    fatG: 'Fat',
+    carbohydrateG: 'Carbohydrate',
+    sugarG: 'Sugars',
+    fiberG: 'Fiber',
+    saltEquivalentG: 'Salt equivalent',
+  },
+
+  foodLog: {
+    logTitle: 'Log what you ate',
+    loggedToday: (count: number) => `Logged ${count}× today`,
+    portion: (portion: number) => (portion === 0.5 ? 'Half' : `${portion} serving${portion === 1 ? '' : 's'}`),
+    todayTitle: "Today's log",
+    calories: 'Calories',
+    over: (kcal: string) => `${kcal} kcal over your target`,
+    remaining: (kcal: string) => `${kcal} kcal left`,
+    eatenToday: 'Eaten today',
+    emptyToday: 'Nothing logged yet. Use "Log what you ate" on an analysis result.',
+    removeEntry: 'Delete entry',
+    trendTitle: 'Calorie trend',
+    week: '1 week',
+    month: '1 month',
+    weekdays: ['S', 'M', 'T', 'W', 'T', 'F', 'S'],
+    average: (average: string, budget: string) => `Average on logged days: ${average} kcal (dotted line: daily target ${budget} kcal)`,
+  },
+
+  profile: {
+    titleEditing: 'Profile settings',
+    titleWelcome: 'Welcome to VitalScope',
+    introTitle: 'Please read first',
+    intro: [
+      ['VitalScope is a personalized app where ', 'AI analyzes store-bought products against your health', '.'],
+      ['It weighs pros and cons against your concerns and goals, so ', 'a profile is required', '.'],
+      ['Everything you enter is ', 'stored only on this device', ' and never sent elsewhere.'],
+    ],
+    age: 'Age',
+    agePlaceholder: 'e.g. 35',
+    gender: 'Sex',
+    genderMale: 'Male',
+    genderFemale: 'Female',
+    genderOther: 'Other',
+    height: 'Height (cm)',
+    heightPlaceholder: 'e.g. 165',
+    weight: 'Weight (kg)',
+    weightPlaceholder: 'e.g. 60',
+    activityLevel: 'Activity level',
+    allergies: 'Allergies',
+    allergensMandatory: '8 items that must be labelled in Japan',
+    allergensRecommended: '20 items recommended for labelling',
+    conditions: 'Conditions & health markers',
+    dietaryStyles: 'Dietary style',
+    goals: 'Goals',
+    healthContext: 'Current health, concerns & goals',
+    healthContextPlaceholder: 'e.g. My last checkup said my blood pressure is a bit high, so I want to cut down on salt. I am allergic to shellfish. I work at a desk, rarely exercise and tend to get puffy.',
+    healthContextHint: 'The more specific you are, the more accurate the AI gets.',
+    consentTitle: 'I have read and agree to the following',
+    consentItems: [
+      'Analyses in this app are personalized using my profile.',
+      'I can change my profile later.',
+    ],
+    save: 'Save settings',
+    finishSetup: 'Finish setup and start',
+  },
+
+  options: {
+    allergens: {
+      shrimp: 'Shrimp',
+      crab: 'Crab',
+      walnut: 'Walnut',
+      wheat: 'Wheat',
+      buckwheat: 'Buckwheat',
+      egg: 'Egg',
+      milk: 'Milk',
+      peanut: 'Peanut',
+      almond: 'Almond',
+      abalone: 'Abalone',
+      squid: 'Squid',
+      salmon_roe: 'Salmon roe',
+      orange: 'Orange',
+      cashew: 'Cashew',
+      kiwi: 'Kiwi',
+      beef: 'Beef',
+      sesame: 'Sesame',
+      salmon: 'Salmon',
+      mackerel: 'Mackerel',
+      soybean: 'Soybean',
+      chicken: 'Chicken',
+      banana: 'Banana',
+      pork: 'Pork',
+      macadamia: 'Macadamia',
+      peach: 'Peach',
+      yam: 'Yam',
+      apple: 'Apple',
+      gelatin: 'Gelatin',
+    },
+    activityLevels: {
+      sedentary: 'Sedentary',
+      light: 'Lightly active',
+      moderate: 'Moderately active',
+      active: 'Active',
+      very_active: 'Very active',
+    },
+    activityDescriptions: {
+      sedentary: 'Desk work, no regular exercise',
+      light: 'Walking for commuting and chores, light exercise 1–2 times a week',
+      moderate: 'On your feet or moving a lot, exercise 3–5 times a week',
+      active: 'Physical work, or solid exercise almost every day',
+      very_active: 'Athlete-level training every day',
+    },
+    conditions: {
+      hypertension: 'High blood pressure',
+      diabetes: 'Diabetes / high blood sugar',
+      dyslipidemia: 'Dyslipidemia',
+      hyperuricemia: 'High uric acid / gout',
+      kidney_disease: 'Kidney disease',
+      liver_disease: 'Liver disease',
+      heart_disease: 'Heart disease',
+      osteoporosis: 'Osteoporosis',
+      anemia: 'Anemia',
+      ibs: 'Irritable bowel syndrome',
+      pregnancy: 'Pregnant / breastfeeding',
+    },
+    dietaryStyles: {
+      vegetarian: 'Vegetarian',
+      vegan: 'Vegan',
+      halal: 'Halal',
+      low_fodmap: 'Low FODMAP',
+      gluten_free: 'Gluten-free',
+      low_carb: 'Low carb',
+    },
+    goals: {
+      lose_weight: 'Lose weight',
+      gain_muscle: 'Build muscle',
+      reduce_salt: 'Cut salt',
+      control_blood_sugar: 'Control blood sugar',
+      lower_cholesterol: 'Lower cholesterol',
+      improve_gut: 'Improve gut health',
+      beauty: 'Skin & beauty',
+      maintain: 'Stay healthy',
+    },
+    productCategories: {
+      snack: 'Snack',
+      beverage: 'Beverage',
+      meal: 'Food / meal',
+      seasoning: 'Seasoning',
+      supplement: 'Supplement',
+      cosmetic: 'Cosmetic',
+      medicine: 'Medicine',
+      other: 'Other',
+    },
+  },
+};
@@ -0,0 +1,462 @@
+import { ACTIVITY_LEVELS, ALLERGENS, CONDITIONS, DIETARY_STYLES, GOALS, PRODUCT_CATEGORIES, ProfileOption } from '../../constants';
+
+// [before, emphasized, after], rendered with the middle part in bold
+export type Emphasized = [string, string, string];
+
+// Option labels in constants.ts are the Japanese source of truth (the prompt
+// uses them too), so this catalog reads them from there.
+const labelsById = (options: ProfileOption[]): Record<string, string> =>
+  Object.fromEntries(options.map((option) => [option.id, option.label]));
+
+export const ja = {
+  meta: {
+    intl: 'ja-JP', // BCP 47 tag for dates and numbers
+    languageName: '日本語',
+  },
+
+  common: {
+    close: '閉じる',
+    cancel: 'キャンセル',
+    retry: 'もう一度試す',
+    listSeparator: '、',
+  },
+
+  nav: {
+    history: '履歴',
+    today: '今日',
+    scan: '診断',
+    settings: '設定',
+  },
+
+  app: {
+    shareTitle: 'アプリをシェア',
+    shareText: '私の健康状態に合わせて商品をAI診断！あなたもVitalScopeでチェックしてみない？',
+    shareCopied: 'URLをコピーしました',
+    setupRequiredTitle: '初期設定が必要です',
+    setupRequiredBody: 'このアプリはあなたの健康状態に合わせた診断を行うため、最初にプロフィールを入力してください。',
+    setupRequiredReason: 'VitalScope はあなたに最適な診断結果を出すために、年齢・性別・現在の健康状態・悩みを必要とします。',
+    setupRequiredNote: '※設定が完了するまで診断機能は使用できません。',
+    startSetup: '初期設定を始める',
+    scanTitle: '商品をチェックする',
+    scanLead: ['食品の成分表示や商品のパッケージ写真を撮って、', 'あなたの健康への影響をチェックしましょう。'],
+    analyzing: '解析中...',
+    analyze: '診断する',
+  },
+
+  queue: {
+    offline: 'オフラインです。スキャンは保存され、接続が戻ると自動で診断されます。',
+    saveForLater: '保存して後で診断する',
+    queuedTitle: 'スキャンを保存しました',
+    queuedBody: 'オンラインに戻ると自動で診断し、結果を履歴に追加します。',
+    pending: (count: number) => `診断待ちのスキャン: ${count}件`,
+    doneTitle: 'オフライン中のスキャンを診断しました',
+    doneBody: (completed: number, failed: number) =>
+      failed > 0
+        ? `${completed}件を履歴に追加しました（${failed}件は診断できませんでした）。`
+        : `${completed}件を履歴に追加しました。`,
+    viewHistory: '履歴を見る',
+  },
+
+  compare: {
+    addToList: '比較リストに追加',
+    removeFromList: '比較リストから外す',
+    compareCount: (count: number) => `${count}件を比較する`,
+    backToHistory: '履歴に戻る',
+    needTwo: '比較するには2件以上の履歴を選んでください',
+    start: '比較する',
+    endSelection: '選択を終了',
+    selecting: (count: number, max: number) => `比較する商品を選択中（${count}/${max}）`,
+    clear: 'クリア',
+    title: '商品を比較',
+    removeItem: '比較から外す',
+    product: (index: number) => `商品${index + 1}`,
+    containsAllergen: 'アレルゲンを含む',
+    rowScore: 'スコア',
+    rowCalories: 'カロリー',
+    rowDailyShare: '1日の必要量比',
+    rowPros: 'メリット',
+    rowCons: 'デメリット',
+    basisPer100g: '100gあたり',
+    basisPerServing: '各商品の表示単位あたり',
+    footnote: (basis: string) => `※栄養成分は${basis}の値です。太字は各項目でもっとも良い値です。`,
+    verdictBest: (index: number) => `あなたには商品${index + 1}がおすすめ`,
+    verdictNone: 'どの商品もおすすめできません',
+    comparing: '比較中...',
+    ask: 'どれが自分に合うかAIに聞く',
+  },
+
+  history: {
+    title: '診断履歴',
+    clear: '履歴を削除',
+    confirmClear: '履歴をすべて削除しますか？',
+    filterAll: 'すべて',
+    filterGreen: 'おすすめ',
+    filterAmber: '注意',
+    filterRed: '控えめ',
+    sortNewest: '新しい順',
+    sortScoreDesc: 'スコアが高い順',
+    sortScoreAsc: 'スコアが低い順',
+    empty: 'まだ履歴がありません',
+    noMatch: '条件に一致する履歴がありません',
+    loadMore: 'さらに読み込む',
+    sortOldest: '古い順',
+    sortKcalDesc: 'カロリーが高い順',
+    sortKcalAsc: 'カロリーが低い順',
+    searchPlaceholder: '概要・商品名・タグ・メモを検索',
+    filters: '絞り込み',
+    resetFilters: '条件をクリア',
+    dateRange: '期間',
+    calorieRange: 'カロリー (kcal)',
+    scoreRange: 'スコア',
+    min: '下限',
+    max: '上限',
+    favoritesOnly: 'お気に入りのみ',
+    tags: 'タグ',
+    matchCount: (count: number) => `${count}件`,
+    gestureHint: 'カードを左にスワイプするか長押しすると、お気に入り・編集・削除ができます',
+    actions: '操作',
+    favorite: 'お気に入りに追加',
+    unfavorite: 'お気に入りから外す',
+    edit: 'タグ・メモを編集',
+    delete: '削除',
+    confirmDelete: 'この履歴を削除しますか？',
+    tagsInput: 'タグ（カンマ区切り）',
+    tagsPlaceholder: '例: 朝食, 子ども用',
+    note: 'メモ',
+    notePlaceholder: '例: 甘さ控えめで家族に好評',
+    save: '保存',
+  },
+
+  settings: {
+    language: '表示言語',
+    languageNote: '診断結果やAIの回答もこの言語で表示されます。',
+  },
+
+  data: {
+    title: 'データの管理',
+    note: 'プロフィールと履歴はこの端末にのみ保存されています。機種変更の前にバックアップを保存してください。',
+    exportBackup: 'バックアップを保存 (JSON)',
+    exportCsv: '栄養データを保存 (CSV)',
+    printReport: '医師に見せるレポート (印刷・PDF)',
+    importBackup: 'バックアップから復元',
+    working: '処理中...',
+    exportFailed: 'データを書き出せませんでした。',
+    confirmReplaceProfile: 'バックアップのプロフィールで現在のプロフィールを置き換えますか？\n「キャンセル」を選ぶと履歴だけを復元します。',
+    imported: (added: number, merged: number, skipped: number) =>
+      `${added}件を追加、${merged}件を更新しました。` + (skipped > 0 ? `（読み込めない${skipped}件はスキップしました）` : ''),
+    importErrors: {
+      'not-a-backup': 'VitalScopeのバックアップファイルではありません。',
+      'newer-version': 'このバックアップは新しいバージョンのアプリで作成されています。アプリを更新してから復元してください。',
+      invalid: 'バックアップファイルが壊れているため、復元できませんでした。',
+    },
+    csv: {
+      date: '日時',
+      summary: '概要',
+      productName: '商品名',
+      brand: 'メーカー・ブランド',
+      category: 'カテゴリ',
+      score: 'スコア',
+      rating: '判定',
+      productCalories: 'カロリー (kcal)',
+      dailyPercentage: '1日の目安に対する割合 (%)',
+      servingSize: '表示単位',
+      source: '栄養成分の出典',
+      sources: { label: 'ラベル', estimated: '推定' },
+      timesLogged: '食事記録の回数',
+      barcode: 'JANコード',
+      id: 'ID',
+    },
+    report: {
+      title: 'VitalScope 食生活レポート',
+      generatedAt: (date: string) => `作成日時: ${date}`,
+      profileSection: 'プロフィール',
+      foodLogSection: (days: number) => `食事記録（直近${days}日間）`,
+      day: '日付',
+      foods: '食べたもの',
+      noFoodLog: 'この期間の食事記録はありません。',
+      scansSection: (count: number) => `診断した商品（${count}件）`,
+      disclaimer: 'このレポートはAIによる商品の解析結果とアプリ内の記録をまとめたもので、医学的な診断ではありません。数値には推定値が含まれます。',
+    },
+  },
+
+  analysis: {
+    unclearTitle: '画像を解析できませんでした',
+    unclearFallbackReason: '画像が不鮮明か、商品が特定できませんでした。',
+    unclearAdvice: ['明るい場所で、文字が読めるように撮影し直してください。', 'パッケージ全体や成分表示が写っていると精度が上がります。'],
+    retake: 'もう一度撮影する',
+    ingredientsUnreadable: '原材料名を読み取れなかったため、アレルギーの照合ができていません。原材料表示も撮影するか、パッケージを直接ご確認ください。',
+    fromCache: '同じ写真の前回の診断結果を表示しています',
+    reanalyze: '再診断する',
+    reanalyzing: '再診断中...',
+    summaryTitle: 'AIによる概要解析',
+    pros: 'メリット',
+    cons: 'デメリット・注意点',
+    calorieTitle: 'カロリー分析',
+    ofDailyNeed: '対1日必要量',
+    kcalEstimated: 'kcal (推定)',
+    dailyNeed: 'あなたの一日の推定必要カロリー: ',
+    computedWith: (formula: string) => `${formula}で算出`,
+    recommendationsTitle: 'あなたへのおすすめ商品',
+    affiliateNote: '※Amazonアソシエイトリンクを含みます',
+    allergenTitle: 'アレルギー物質が含まれています',
+    allergenNote: 'プロフィールに登録されたアレルギーと原材料表示を端末内で照合した結果です。必ず実物のパッケージもご確認ください。',
+    nutritionTitle: '栄養成分',
+    nutritionFromLabel: '栄養成分表示より',
+    nutritionEstimated: '一般的な数値からの推定',
+    perServingFallback: '1食分',
+    per100g: '100gあたり',
+    dailyShare: '1日の目安比',
+    nutritionFootnote: (saltTarget: number, serving: string) =>
+      `※1日の目安比は、あなたのプロフィールから算出した1日の目安量（食塩相当量 ${saltTarget}g未満）に対する${serving}の割合です。`,
+  },
+
+  product: {
+    unknownName: '商品名不明',
+    confidence: (percent: number) => `特定の確度 ${percent}%`,
+    lowConfidence: '商品を確実には特定できませんでした。違う場合は訂正してください。',
+    correctedByUser: '訂正済み',
+    correct: '商品を訂正',
+    correctTitle: '正しい商品を入力',
+    name: '商品名',
+    namePlaceholder: '例: ポテトチップス うすしお',
+    brand: 'メーカー・ブランド',
+    brandPlaceholder: '例: カルビー',
+    category: 'カテゴリ',
+    reanalyze: 'この商品として再診断',
+    save: '訂正を保存',
+    noImagesNote: '撮影した画像がないため再診断はできません。商品名などの訂正のみ保存します。',
+  },
+
+  progress: {
+    steps: {
+      quality: '画像の確認',
+      summary: '概要',
+      score: 'スコア',
+      calories: 'カロリー',
+      nutrition: '栄養成分・原材料',
+      prosCons: 'メリット・注意点',
+    },
+    unclear: (reason: string) => `画像が不鮮明と判定されました。${reason}`,
+  },
+
+  score: {
+    green: 'おすすめ',
+    amber: '量に注意',
+    red: '控えめに',
+    points: (score: number) => `${score}点`,
+    nutriGradeTitle: '栄養成分から算出したNutri-Score風の評価（参考値）',
+    nutriGradeLabel: '栄養評価',
+  },
+
+  errors: {
+    'missing-api-key': {
+      title: 'APIキーの設定エラー',
+      message: 'APIキーが見つからないか、無効です。',
+      advice: 'アプリの管理者にAPIキーの設定を確認するよう依頼してください。',
+    },
+    'rate-limit': {
+      title: '利用上限に達しました',
+      message: 'AIの利用回数の上限に達しました。',
+      advice: '数分ほど時間をおいてから、もう一度お試しください。',
+    },
+    network: {
+      title: 'オフラインです',
+      message: 'ネットワークに接続できませんでした。',
+      advice: '電波の良い場所に移動するか、Wi-Fiやモバイル通信をオンにしてから再試行してください。',
+    },
+    'service-unavailable': {
+      title: 'AIサービスが混み合っています',
+      message: 'AIサービスが一時的に利用できません。',
+      advice: 'しばらく待ってから、もう一度お試しください。',
+    },
+    'safety-block': {
+      title: 'この画像は解析できません',
+      message: '安全上の理由により、この画像は解析できませんでした。',
+      advice: '商品のパッケージや成分表示だけが写るように撮影し直してください。',
+    },
+    'empty-response': {
+      title: 'AIから応答がありませんでした',
+      message: 'AIから応答がありませんでした。',
+      advice: 'もう一度お試しください。続く場合は画像の枚数を減らしてみてください。',
+    },
+    'invalid-response': {
+      title: '解析結果を読み取れませんでした',
+      message: 'AIの応答形式が正しくありませんでした。',
+      advice: 'もう一度お試しください。結果はその都度生成されるため、再試行で解決することがあります。',
+    },
+    timeout: {
+      title: '時間内に解析が終わりませんでした',
+      message: '解析がタイムアウトしました。',
+      advice: '通信環境の良い場所で、もう一度お試しください。',
+    },
+    cancelled: {
+      title: '解析をキャンセルしました',
+      message: '解析をキャンセルしました。',
+      advice: '準備ができたら、もう一度「診断する」を押してください。',
+    },
+    'payload-too-large': {
+      title: '画像が大きすぎます',
+      message: '画像のサイズが大きすぎて送信できませんでした。',
+      advice: '画像の枚数を減らすか、成分表示だけを撮影し直してください。',
+    },
+    unknown: {
+      title: 'エラーが発生しました',
+      message: '解析中にエラーが発生しました。',
+      advice: 'しばらく待ってから、もう一度お試しください。',
+    },
+    // Names the env variable an operator has to set, when the error knows it
+    apiKeyVariable: (name: string) => `確認する環境変数: ${name}`,
+  },
+
+  camera: {
+    unavailable: {
+      denied: 'カメラへのアクセスが許可されていません。写真を選択してください。',
+      'not-found': '利用できるカメラが見つかりませんでした。写真を選択してください。',
+      unsupported: 'このブラウザはカメラ撮影に対応していません。写真を選択してください。',
+      failed: 'カメラを起動できませんでした。写真を選択してください。',
+    },
+    framingHint: '栄養成分表示や原材料名を枠に合わせてください',
+    torch: 'ライト',
+    switchCamera: 'カメラを切り替え',
+    capture: '撮影',
+    done: '完了',
+  },
+
+  imageCapture: {
+    openCamera: 'カメラで撮影',
+    openCameraHint: '成分表示や商品パッケージを撮影',
+    pickPhotos: '写真を選択',
+    barcodeRead: ['JANコード ', ' を読み取りました'],
+    undoBarcode: '取り消す',
+    optimizing: '画像を最適化しています...',
+    loadFailed: '画像を読み込めませんでした。',
+    unsupportedFormat: (fileName: string) =>
+      `「${fileName}」はこのブラウザで読み込めない形式です。JPEGまたはPNGで保存し直すか、カメラの設定で「互換性優先」を選んでください。`,
+    imageIssues: (index: number, issues: string) => `${index + 1}枚目: ${issues}`,
+    issueSeparator: '・',
+    issueWarning: 'このまま診断すると、正しく解析できない可能性があります。',
+    retake: '撮り直す',
+    useAnyway: 'このまま使う',
+    savings: (from: string, to: string, percent: number) => `送信サイズ: ${from} → ${to}（${percent}%削減）`,
+  },
+
+  qualityIssues: {
+    blurry: 'ピントが合っていない可能性があります',
+    'too-dark': '暗すぎます',
+    'too-bright': '明るすぎます（白飛び）',
+    'too-small': '解像度が低すぎます',
+  },
+
+  chat: {
+    title: 'この商品についてAIに質問する',
+    suggestions: [
+      '1日にどれくらいまで食べても大丈夫？',
+      '飲んでいる薬と一緒にとっても大丈夫？',
+      'もっと健康的な食べ方はある？',
+    ],
+    placeholder: '例: 1日に何個までなら食べていい？',
+    stop: '回答を止める',
+    send: '送信',
+    interrupted: '（回答を中断しました）',
+    disclaimer: '※AIの回答は一般的な情報です。薬や治療に関わることは医師・薬剤師にご相談ください。',
+  },
+
+  dailyEnergy: {
+    title: '1日の推定必要カロリー',
+    empty: '年齢と体重を入力すると、あなたの1日の必要カロリーをアプリ内で計算し、すべての診断で同じ基準を使います。未入力の場合はAIがその都度推定します。',
+    perDay: 'kcal/日',
+    bmr: '基礎代謝 (BMR)',
+    activityFactor: '活動係数',
+    equation: '必要カロリー = 基礎代謝 × 活動係数',
+    activityAssumed: (level: string) => `※活動レベルが未入力のため「${level}」として計算しています。`,
+  },
+
+  bmrFormulas: {
+    'mifflin-st-jeor': {
+      name: 'Mifflin-St Jeor式',
+      expression: '10×体重(kg) + 6.25×身長(cm) − 5×年齢 + 5（男性）／ −161（女性）',
+    },
+    'japanese-reference': {
+      name: '基礎代謝基準値（日本人の食事摂取基準）',
+      expression: '基礎代謝基準値(kcal/kg/日) × 体重(kg)',
+    },
+  },
+
+  nutrients: {
+    energyKcal: 'エネルギー',
+    proteinG: 'たんぱく質',
+    fatG: '脂質',
+    carbohydrateG: '炭水化物',
+    sugarG: '糖質・糖類',
+    fiberG: '食物繊維',
+    saltEquivalentG: '食塩相当量',
+  },
+
+  foodLog: {
+    logTitle: '食べた量を記録する',
+    loggedToday: (count: number) => `今日 ${count}回記録済み`,
+    portion: (portion: number) => (portion === 0.5 ? '半分' : `${portion}食分`),
+    todayTitle: '今日の記録',
+    calories: 'カロリー',
+    over: (kcal: string) => `目安を ${kcal}kcal 超えています`,
+    remaining: (kcal: string) => `残り ${kcal}kcal`,
+    eatenToday: '今日食べたもの',
+    emptyToday: 'まだ記録がありません。診断結果の「食べた」ボタンから記録できます。',
+    removeEntry: '記録を削除',
+    trendTitle: 'カロリーの推移',
+    week: '1週間',
+    month: '1ヶ月',
+    weekdays: ['日', '月', '火', '水', '木', '金', '土'],
+    average: (average: string, budget: string) => `記録した日の平均: ${average}kcal（点線は1日の目安 ${budget}kcal）`,
+  },
+
+  profile: {
+    titleEditing: 'プロフィールの設定',
+    titleWelcome: 'VitalScopeへようこそ',
+    introTitle: 'はじめにお読みください',
+    intro: [
+      ['VitalScopeは、あなたの', '健康状態に合わせて市販の商品をAIが解析', 'する、パーソナライズ診断アプリです。'],
+      ['あなたの悩みや目標に応じてメリット・デメリットを評価するため、', 'プロフィールの入力が必要', 'です。'],
+      ['入力された情報は', 'すべてあなたの端末にのみ保存', 'され、外部には送信されません。'],
+    ] as Emphasized[],
+    age: '年齢',
+    agePlaceholder: '例: 35',
+    gender: '性別',
+    genderMale: '男性',
+    genderFemale: '女性',
+    genderOther: 'その他',
+    height: '身長 (cm)',
+    heightPlaceholder: '例: 165',
+    weight: '体重 (kg)',
+    weightPlaceholder: '例: 60',
+    activityLevel: '活動レベル',
+    allergies: 'アレルギー',
+    allergensMandatory: '表示義務のある8品目',
+    allergensRecommended: '表示が推奨されている20品目',
+    conditions: '持病・気になる数値',
+    dietaryStyles: '食事スタイル',
+    goals: '目標',
+    healthContext: '現在の健康状態・悩み・目標',
+    healthContextPlaceholder: '例：最近、健康診断で血圧が高めと言われたので塩分を控えたいです。甲殻類のアレルギーがあります。また、デスクワーク中心で運動不足のため、むくみやすいのが悩みです。',
+    healthContextHint: '具体的であればあるほど、AIの精度が向上します。',
+    consentTitle: '以下を確認し、同意します',
+    consentItems: [
+      'このアプリの診断は、私のプロフィール情報に基づいてパーソナライズされます。',
+      'プロフィールは後からでも変更できます。',
+    ],
+    save: '設定を保存する',
+    finishSetup: '初期設定を完了して始める',
+  },
+
+  options: {
+    allergens: labelsById(ALLERGENS),
+    activityLevels: labelsById(ACTIVITY_LEVELS),
+    activityDescriptions: Object.fromEntries(ACTIVITY_LEVELS.map((a) => [a.id, a.description])) as Record<string, string>,
+    conditions: labelsById(CONDITIONS),
+    dietaryStyles: labelsById(DIETARY_STYLES),
+    goals: labelsById(GOALS),
+    productCategories: labelsById(PRODUCT_CATEGORIES),
+  },
+};
+
+export type Messages = typeof ja;
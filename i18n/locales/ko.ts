@@ -0,0 +1,529 @@
+import type { Messages } from './ja';
+
+export const ko: Messages = {
+  meta: {
+    intl: 'ko-KR',
+    languageName: '한국어',
+  },
+
+  common: {
+    close: '닫기',
+    cancel: '취소',
+    retry: '다시 시도',
+    listSeparator: ', ',
+  },
+
+  nav: {
+    history: '기록',
+    today: '오늘',
+    scan: '진단',
+    settings: '설정',
+  },
+
+  app: {
+    shareTitle: '앱 공유하기',
+    shareText: '내 건강 상태에 맞춰 AI가 상품을 진단해 줘요! 당신도 VitalScope로 확인해 보세요.',
+    shareCopied: '링크를 복사했습니다',
+    setupRequiredTitle: '초기 설정이 필요합니다',
+    setupRequiredBody: '이 앱은 건강 상태에 맞춘 진단을 제공하므로, 먼저 프로필을 입력해 주세요.',
+    setupRequiredReason: 'VitalScope는 최적의 진단 결과를 위해 나이, 성별, 현재 건강 상태와 고민이 필요합니다.',
+    setupRequiredNote: '※설정을 완료하기 전에는 진단 기능을 사용할 수 없습니다.',
+    startSetup: '초기 설정 시작하기',
+    scanTitle: '상품 확인하기',
+    scanLead: ['식품의 영양성분표나 상품 포장을 촬영해서', '건강에 미치는 영향을 확인해 보세요.'],
+    analyzing: '분석 중...',
+    analyze: '진단하기',
+  },
+
+  queue: {
+    offline: '오프라인 상태입니다. 스캔은 저장되며 연결이 복구되면 자동으로 분석됩니다.',
+    saveForLater: '저장하고 나중에 분석',
+    queuedTitle: '스캔을 저장했습니다',
+    queuedBody: '온라인으로 돌아오면 자동으로 분석하고 결과를 기록에 추가합니다.',
+    pending: (count: number) => `분석 대기 중인 스캔: ${count}건`,
+    doneTitle: '오프라인 스캔을 분석했습니다',
+    doneBody: (completed: number, failed: number) =>
+      failed > 0
+        ? `${completed}건을 기록에 추가했습니다(${failed}건은 분석하지 못했습니다).`
+        : `${completed}건을 기록에 추가했습니다.`,
+    viewHistory: '기록 보기',
+  },
+
+  compare: {
+    addToList: '비교 목록에 추가',
+    removeFromList: '비교 목록에서 제외',
+    compareCount: (count: number) => `${count}개 비교하기`,
+    backToHistory: '기록으로 돌아가기',
+    needTwo: '비교하려면 기록을 2개 이상 선택해 주세요',
+    start: '비교하기',
+    endSelection: '선택 종료',
+    selecting: (count: number, max: number) => `비교할 상품 선택 중 (${count}/${max})`,
+    clear: '지우기',
+    title: '상품 비교',
+    removeItem: '비교에서 제외',
+    product: (index: number) => `상품 ${index + 1}`,
+    containsAllergen: '알레르기 유발 물질 포함',
+    rowScore: '점수',
+    rowCalories: '칼로리',
+    rowDailyShare: '하루 필요량 대비',
+    rowPros: '장점',
+    rowCons: '단점',
+    basisPer100g: '100g당',
+    basisPerServing: '각 상품의 표시 단위당',
+    footnote: (basis: string) => `※영양성분은 ${basis} 값입니다. 굵은 글씨는 각 항목에서 가장 좋은 값입니다.`,
+    verdictBest: (index: number) => `상품 ${index + 1}을(를) 추천합니다`,
+    verdictNone: '추천할 수 있는 상품이 없습니다',
+    comparing: '비교 중...',
+    ask: '어떤 게 나에게 맞는지 AI에게 묻기',
+  },
+
+  history: {
+    title: '진단 기록',
+    clear: '기록 삭제',
+    confirmClear: '기록을 모두 삭제할까요?',
+    filterAll: '전체',
+    filterGreen: '추천',
+    filterAmber: '주의',
+    filterRed: '절제',
+    sortNewest: '최신순',
+    sortScoreDesc: '점수 높은 순',
+    sortScoreAsc: '점수 낮은 순',
+    empty: '아직 기록이 없습니다',
+    noMatch: '조건에 맞는 기록이 없습니다',
+    loadMore: '더 불러오기',
+    sortOldest: '오래된 순',
+    sortKcalDesc: '칼로리 높은 순',
+    sortKcalAsc: '칼로리 낮은 순',
+    searchPlaceholder: '요약·상품명·태그·메모 검색',
+    filters: '필터',
+    resetFilters: '조건 지우기',
+    dateRange: '기간',
+    calorieRange: '칼로리 (kcal)',
+    scoreRange: '점수',
+    min: '최소',
+    max: '최대',
+    favoritesOnly: '즐겨찾기만',
+    tags: '태그',
+    matchCount: (count: number) => `${count}건`,
+    gestureHint: '카드를 왼쪽으로 밀거나 길게 누르면 즐겨찾기·편집·삭제를 할 수 있습니다',
+    actions: '작업',
+    favorite: '즐겨찾기에 추가',
+    unfavorite: '즐겨찾기에서 제거',
+    edit: '태그·메모 편집',
+    delete: '삭제',
+    confirmDelete: '이 기록을 삭제하시겠습니까?',
+    tagsInput: '태그 (쉼표로 구분)',
+    tagsPlaceholder: '예: 아침 식사, 아이용',
+    note: '메모',
+    notePlaceholder: '예: 단맛이 적당해서 가족들이 좋아함',
+    save: '저장',
+  },
+
+  settings: {
+    language: '표시 언어',
+    languageNote: '진단 결과와 AI 답변도 이 언어로 표시됩니다.',
+  },
+
+  data: {
+    title: '데이터 관리',
+    note: '프로필과 기록은 이 기기에만 저장됩니다. 기기를 바꾸기 전에 백업을 저장하세요.',
+    exportBackup: '백업 저장 (JSON)',
+    exportCsv: '영양 데이터 저장 (CSV)',
+    printReport: '의사에게 보여줄 보고서 (인쇄 / PDF)',
+    importBackup: '백업에서 복원',
+    working: '처리 중...',
+    exportFailed: '데이터를 내보내지 못했습니다.',
+    confirmReplaceProfile: '백업의 프로필로 현재 프로필을 바꾸시겠습니까?\n"취소"를 선택하면 기록만 복원합니다.',
+    imported: (added: number, merged: number, skipped: number) =>
+      `${added}건을 추가하고 ${merged}건을 업데이트했습니다.` + (skipped > 0 ? ` (읽을 수 없는 ${skipped}건은 건너뛰었습니다.)` : ''),
+    importErrors: {
+      'not-a-backup': 'VitalScope 백업 파일이 아닙니다.',
+      'newer-version': '이 백업은 더 새로운 버전의 앱에서 만들어졌습니다. 앱을 업데이트한 후 복원하세요.',
+      invalid: '백업 파일이 손상되어 복원할 수 없습니다.',
+    },
+    csv: {
+      date: '일시',
+      summary: '요약',
+      productName: '상품명',
+      brand: '제조사・브랜드',
+      category: '카테고리',
+      score: '점수',
+      rating: '판정',
+      productCalories: '칼로리 (kcal)',
+      dailyPercentage: '하루 필요량 대비 비율 (%)',
+      servingSize: '표시 단위',
+      source: '영양 성분 출처',
+      sources: { label: '라벨', estimated: '추정' },
+      timesLogged: '식사 기록 횟수',
+      barcode: '바코드',
+      id: 'ID',
+    },
+    report: {
+      title: 'VitalScope 식생활 보고서',
+      generatedAt: (date: string) => `작성 일시: ${date}`,
+      profileSection: '프로필',
+      foodLogSection: (days: number) => `식사 기록 (최근 ${days}일)`,
+      day: '날짜',
+      foods: '먹은 음식',
+      noFoodLog: '이 기간에 식사 기록이 없습니다.',
+      scansSection: (count: number) => `분석한 상품 (${count}건)`,
+      disclaimer: '이 보고서는 AI의 상품 분석 결과와 앱 내 기록을 정리한 것으로, 의학적 진단이 아닙니다. 수치에는 추정값이 포함됩니다.',
+    },
+  },
+
+  analysis: {
+    unclearTitle: '이미지를 분석할 수 없었습니다',
+    unclearFallbackReason: '이미지가 선명하지 않거나 상품을 식별할 수 없었습니다.',
+    unclearAdvice: ['밝은 곳에서 글자가 읽히도록 다시 촬영해 주세요.', '포장 전체나 영양성분표가 찍혀 있으면 정확도가 높아집니다.'],
+    retake: '다시 촬영하기',
+    ingredientsUnreadable: '원재료명을 읽지 못해 알레르기 대조를 하지 못했습니다. 원재료 표시도 촬영하거나 포장을 직접 확인해 주세요.',
+    fromCache: '같은 사진의 이전 진단 결과를 표시하고 있습니다',
+    reanalyze: '다시 진단하기',
+    reanalyzing: '다시 진단 중...',
+    summaryTitle: 'AI 개요 분석',
+    pros: '장점',
+    cons: '단점・주의점',
+    calorieTitle: '칼로리 분석',
+    ofDailyNeed: '하루 필요량 대비',
+    kcalEstimated: 'kcal (추정)',
+    dailyNeed: '하루 추정 필요 칼로리: ',
+    computedWith: (formula: string) => `${formula}으로 산출`,
+    recommendationsTitle: '추천 상품',
+    affiliateNote: '※아마존 어소시에이트 링크가 포함되어 있습니다',
+    allergenTitle: '알레르기 유발 물질이 포함되어 있습니다',
+    allergenNote: '프로필에 등록된 알레르기와 원재료 표시를 기기 안에서 대조한 결과입니다. 반드시 실제 포장도 확인해 주세요.',
+    nutritionTitle: '영양성분',
+    nutritionFromLabel: '영양성분표 기준',
+    nutritionEstimated: '일반적인 수치로 추정',
+    perServingFallback: '1회분',
+    per100g: '100g당',
+    dailyShare: '하루 기준 대비',
+    nutritionFootnote: (saltTarget: number, serving: string) =>
+      `※하루 기준 대비는 프로필로 산출한 하루 기준량(식염 상당량 ${saltTarget}g 미만)에 대한 ${serving}의 비율입니다.`,
+  },
+
+  product: {
+    unknownName: '알 수 없는 상품',
+    confidence: (percent: number) => `식별 확실도 ${percent}%`,
+    lowConfidence: '상품을 확실하게 식별하지 못했습니다. 다르면 수정해 주세요.',
+    correctedByUser: '수정됨',
+    correct: '상품 수정',
+    correctTitle: '올바른 상품 입력',
+    name: '상품명',
+    namePlaceholder: '예: 포테이토칩 소금맛',
+    brand: '제조사・브랜드',
+    brandPlaceholder: '예: 가루비',
+    category: '카테고리',
+    reanalyze: '이 상품으로 다시 분석',
+    save: '수정 저장',
+    noImagesNote: '촬영한 이미지가 없어 다시 분석할 수 없습니다. 상품 정보 수정만 저장합니다.',
+  },
+
+  progress: {
+    steps: {
+      quality: '이미지 확인',
+      summary: '개요',
+      score: '점수',
+      calories: '칼로리',
+      nutrition: '영양성분・원재료',
+      prosCons: '장점・주의점',
+    },
+    unclear: (reason: string) => `이미지가 선명하지 않은 것으로 판정되었습니다. ${reason}`,
+  },
+
+  score: {
+    green: '추천',
+    amber: '양에 주의',
+    red: '적게 드세요',
+    points: (score: number) => `${score}점`,
+    nutriGradeTitle: '영양성분으로 산출한 Nutri-Score 방식의 등급(참고값)',
+    nutriGradeLabel: '영양 등급',
+  },
+
+  errors: {
+    'missing-api-key': {
+      title: 'API 키 설정 오류',
+      message: 'API 키가 없거나 유효하지 않습니다.',
+      advice: '앱 관리자에게 API 키 설정을 확인해 달라고 요청해 주세요.',
+    },
+    'rate-limit': {
+      title: '이용 한도에 도달했습니다',
+      message: 'AI 이용 횟수 한도에 도달했습니다.',
+      advice: '몇 분 정도 기다린 후 다시 시도해 주세요.',
+    },
+    network: {
+      title: '오프라인 상태입니다',
+      message: '네트워크에 연결할 수 없었습니다.',
+      advice: '신호가 좋은 곳으로 이동하거나 Wi-Fi 또는 모바일 데이터를 켠 후 다시 시도해 주세요.',
+    },
+    'service-unavailable': {
+      title: 'AI 서비스가 혼잡합니다',
+      message: 'AI 서비스를 일시적으로 이용할 수 없습니다.',
+      advice: '잠시 기다린 후 다시 시도해 주세요.',
+    },
+    'safety-block': {
+      title: '이 이미지는 분석할 수 없습니다',
+      message: '안전상의 이유로 이 이미지를 분석할 수 없었습니다.',
+      advice: '상품 포장이나 영양성분표만 찍히도록 다시 촬영해 주세요.',
+    },
+    'empty-response': {
+      title: 'AI의 응답이 없었습니다',
+      message: 'AI로부터 응답이 없었습니다.',
+      advice: '다시 시도해 주세요. 계속되면 이미지 수를 줄여 보세요.',
+    },
+    'invalid-response': {
+      title: '분석 결과를 읽을 수 없었습니다',
+      message: 'AI 응답 형식이 올바르지 않았습니다.',
+      advice: '다시 시도해 주세요. 결과는 매번 생성되므로 재시도로 해결되는 경우가 있습니다.',
+    },
+    timeout: {
+      title: '시간 내에 분석이 끝나지 않았습니다',
+      message: '분석 시간이 초과되었습니다.',
+      advice: '통신 환경이 좋은 곳에서 다시 시도해 주세요.',
+    },
+    cancelled: {
+      title: '분석을 취소했습니다',
+      message: '분석을 취소했습니다.',
+      advice: '준비가 되면 다시 "진단하기"를 눌러 주세요.',
+    },
+    'payload-too-large': {
+      title: '이미지가 너무 큽니다',
+      message: '이미지가 너무 커서 보낼 수 없었습니다.',
+      advice: '이미지 수를 줄이거나 성분표만 다시 촬영해 주세요.',
+    },
+    unknown: {
+      title: '오류가 발생했습니다',
+      message: '분석 중 오류가 발생했습니다.',
+      advice: '잠시 기다린 후 다시 시도해 주세요.',
+    },
+    apiKeyVariable: (name: string) => `확인할 환경 변수: ${name}`,
+  },
+
+  camera: {
+    unavailable: {
+      denied: '카메라 접근이 허용되지 않았습니다. 사진을 선택해 주세요.',
+      'not-found': '사용할 수 있는 카메라를 찾지 못했습니다. 사진을 선택해 주세요.',
+      unsupported: '이 브라우저는 카메라 촬영을 지원하지 않습니다. 사진을 선택해 주세요.',
+      failed: '카메라를 시작할 수 없었습니다. 사진을 선택해 주세요.',
+    },
+    framingHint: '영양성분표나 원재료명을 틀에 맞춰 주세요',
+    torch: '라이트',
+    switchCamera: '카메라 전환',
+    capture: '촬영',
+    done: '완료',
+  },
+
+  imageCapture: {
+    openCamera: '카메라로 촬영',
+    openCameraHint: '영양성분표나 상품 포장을 촬영',
+    pickPhotos: '사진 선택',
+    barcodeRead: ['바코드 ', ' 을(를) 읽었습니다'],
+    undoBarcode: '취소',
+    optimizing: '이미지를 최적화하고 있습니다...',
+    loadFailed: '이미지를 불러올 수 없었습니다.',
+    unsupportedFormat: (fileName: string) =>
+      `"${fileName}"은(는) 이 브라우저에서 읽을 수 없는 형식입니다. JPEG 또는 PNG로 다시 저장하거나, 카메라 설정에서 "높은 호환성"을 선택해 주세요.`,
+    imageIssues: (index: number, issues: string) => `${index + 1}번째: ${issues}`,
+    issueSeparator: ', ',
+    issueWarning: '이대로 진단하면 정확하게 분석되지 않을 수 있습니다.',
+    retake: '다시 찍기',
+    useAnyway: '그대로 사용',
+    savings: (from: string, to: string, percent: number) => `전송 크기: ${from} → ${to} (${percent}% 감소)`,
+  },
+
+  qualityIssues: {
+    blurry: '초점이 맞지 않았을 수 있습니다',
+    'too-dark': '너무 어둡습니다',
+    'too-bright': '너무 밝습니다 (노출 과다)',
+    'too-small': '해상도가 너무 낮습니다',
+  },
+
+  chat: {
+    title: '이 상품에 대해 AI에게 질문하기',
+    suggestions: [
+      '하루에 얼마까지 먹어도 괜찮아?',
+      '먹고 있는 약과 함께 먹어도 괜찮아?',
+      '더 건강하게 먹는 방법이 있어?',
+    ],
+    placeholder: '예: 하루에 몇 개까지 먹어도 돼?',
+    stop: '답변 중지',
+    send: '보내기',
+    interrupted: '(답변을 중단했습니다)',
+    disclaimer: '※AI의 답변은 일반적인 정보입니다. 약이나 치료에 관한 것은 의사・약사와 상담해 주세요.',
+  },
+
+  dailyEnergy: {
+    title: '하루 추정 필요 칼로리',
+    empty: '나이와 체중을 입력하면 앱 안에서 하루 필요 칼로리를 계산해 모든 진단에 같은 기준을 사용합니다. 입력하지 않으면 AI가 매번 추정합니다.',
+    perDay: 'kcal/일',
+    bmr: '기초대사량 (BMR)',
+    activityFactor: '활동 계수',
+    equation: '필요 칼로리 = 기초대사량 × 활동 계수',
+    activityAssumed: (level: string) => `※활동 수준이 입력되지 않아 "${level}"(으)로 계산했습니다.`,
+  },
+
+  bmrFormulas: {
+    'mifflin-st-jeor': {
+      name: 'Mifflin-St Jeor 공식',
+      expression: '10×체중(kg) + 6.25×키(cm) − 5×나이 + 5 (남성) / −161 (여성)',
+    },
+    'japanese-reference': {
+      name: '기초대사 기준치 (일본인 식사섭취기준)',
+      expression: '기초대사 기준치(kcal/kg/일) × 체중(kg)',
+    },
+  },
+
+  nutrients: {
+    energyKcal: '열량',
+    proteinG: '단백질',
+    fatG: '지방',
+    carbohydrateG: '탄수화물',
+    sugarG: '당류',
+    fiberG: '식이섬유',
+    saltEquivalentG: '식염 상당량',
+  },
+
+  foodLog: {
+    logTitle: '먹은 양 기록하기',
+    loggedToday: (count: number) => `오늘 ${count}회 기록함`,
+    portion: (portion: number) => (portion === 0.5 ? '절반' : `${portion}회분`),
+    todayTitle: '오늘의 기록',
+    calories: '칼로리',
+    over: (kcal: string) => `기준보다 ${kcal}kcal 초과했습니다`,
+    remaining: (kcal: string) => `${kcal}kcal 남음`,
+    eatenToday: '오늘 먹은 것',
+    emptyToday: '아직 기록이 없습니다. 진단 결과의 "먹은 양 기록하기"에서 기록할 수 있습니다.',
+    removeEntry: '기록 삭제',
+    trendTitle: '칼로리 추이',
+    week: '1주',
+    month: '1개월',
+    weekdays: ['일', '월', '화', '수', '목', '금', '토'],
+    average: (average: string, budget: string) => `기록한 날의 평균: ${average}kcal (점선은 하루 기준 ${budget}kcal)`,
+  },
+
+  profile: {
+    titleEditing: '프로필 설정',
+    titleWelcome: 'VitalScope에 오신 것을 환영합니다',
+    introTitle: '먼저 읽어 주세요',
+    intro: [
+      ['VitalScope는 ', '건강 상태에 맞춰 시판 상품을 AI가 분석', '하는 맞춤형 진단 앱입니다.'],
+      ['고민과 목표에 따라 장단점을 평가하기 때문에 ', '프로필 입력이 필요', '합니다.'],
+      ['입력한 정보는 ', '모두 이 기기에만 저장', '되며 외부로 전송되지 않습니다.'],
+    ],
+    age: '나이',
+    agePlaceholder: '예: 35',
+    gender: '성별',
+    genderMale: '남성',
+    genderFemale: '여성',
+    genderOther: '기타',
+    height: '키 (cm)',
+    heightPlaceholder: '예: 165',
+    weight: '체중 (kg)',
+    weightPlaceholder: '예: 60',
+    activityLevel: '활동 수준',
+    allergies: '알레르기',
+    allergensMandatory: '일본 표시 의무 8품목',
+    allergensRecommended: '일본 표시 권장 20품목',
+    conditions: '지병・신경 쓰이는 수치',
+    dietaryStyles: '식사 스타일',
+    goals: '목표',
+    healthContext: '현재 건강 상태・고민・목표',
+    healthContextPlaceholder: '예: 최근 건강검진에서 혈압이 조금 높다고 해서 염분을 줄이고 싶어요. 갑각류 알레르기가 있어요. 또 사무직이라 운동이 부족해서 잘 붓는 게 고민이에요.',
+    healthContextHint: '구체적일수록 AI의 정확도가 높아집니다.',
+    consentTitle: '다음 내용을 확인하고 동의합니다',
+    consentItems: [
+      '이 앱의 진단은 나의 프로필 정보를 바탕으로 맞춤화됩니다.',
+      '프로필은 나중에도 변경할 수 있습니다.',
+    ],
+    save: '설정 저장하기',
+    finishSetup: '초기 설정을 완료하고 시작하기',
+  },
+
+  options: {
+    allergens: {
+      shrimp: '새우',
+      crab: '게',
+      walnut: '호두',
+      wheat: '밀',
+      buckwheat: '메밀',
+      egg: '달걀',
+      milk: '우유',
+      peanut: '땅콩',
+      almond: '아몬드',
+      abalone: '전복',
+      squid: '오징어',
+      salmon_roe: '연어알',
+      orange: '오렌지',
+      cashew: '캐슈너트',
+      kiwi: '키위',
+      beef: '쇠고기',
+      sesame: '참깨',
+      salmon: '연어',
+      mackerel: '고등어',
+      soybean: '대두',
+      chicken: '닭고기',
+      banana: '바나나',
+      pork: '돼지고기',
+      macadamia: '마카다미아',
+      peach: '복숭아',
+      yam: '마',
+      apple: '사과',
+      gelatin: '젤라틴',
+    },
+    activityLevels: {
+      sedentary: '거의 움직이지 않음',
+      light: '약간 낮음',
+      moderate: '보통',
+      active: '높음',
+      very_active: '매우 높음',
+    },
+    activityDescriptions: {
+      sedentary: '사무직 위주, 운동 습관 없음',
+      light: '출퇴근・집안일로 걷는 정도, 가벼운 운동 주 1~2회',
+      moderate: '서서 일하거나 이동이 많음, 운동 주 3~5회',
+      active: '육체노동, 또는 거의 매일 충분히 운동',
+      very_active: '매일 운동선수 수준의 훈련',
+    },
+    conditions: {
+      hypertension: '고혈압',
+      diabetes: '당뇨병・혈당이 높은 편',
+      dyslipidemia: '이상지질혈증',
+      hyperuricemia: '고요산혈증・통풍',
+      kidney_disease: '신장 질환',
+      liver_disease: '간 질환',
+      heart_disease: '심장 질환',
+      osteoporosis: '골다공증',
+      anemia: '빈혈',
+      ibs: '과민성 대장 증후군',
+      pregnancy: '임신・수유 중',
+    },
+    dietaryStyles: {
+      vegetarian: '채식',
+      vegan: '비건',
+      halal: '할랄',
+      low_fodmap: '저포드맵',
+      gluten_free: '글루텐 프리',
+      low_carb: '저탄수화물',
+    },
+    goals: {
+      lose_weight: '체중 감량',
+      gain_muscle: '근육 증가',
+      reduce_salt: '저염',
+      control_blood_sugar: '혈당 관리',
+      lower_cholesterol: '콜레스테롤 낮추기',
+      improve_gut: '장 건강 개선',
+      beauty: '미용・피부',
+      maintain: '건강 유지',
+    },
+    productCategories: {
+      snack: '과자・스낵',
+      beverage: '음료',
+      meal: '식품・식사',
+      seasoning: '조미료',
+      supplement: '건강기능식품',
+      cosmetic: '화장품',
+      medicine: '의약품',
+      other: '기타',
+    },
+  },
+};
@@ -0,0 +1,529 @@
+import type { Messages } from './ja';
+
+export const zh: Messages = {
+  meta: {
+    intl: 'zh-CN',
+    languageName: '中文',
+  },
+
+  common: {
+    close: '关闭',
+    cancel: '取消',
+    retry: '重试',
+    listSeparator: '、',
+  },
+
+  nav: {
+    history: '历史',
+    today: '今天',
+    scan: '检测',
+    settings: '设置',
+  },
+
+  app: {
+    shareTitle: '分享应用',
+    shareText: 'AI 根据我的健康状况检测商品！你也来用 VitalScope 查一查吧。',
+    shareCopied: '链接已复制',
+    setupRequiredTitle: '需要初始设置',
+    setupRequiredBody: '本应用会根据您的健康状况进行检测，请先填写个人资料。',
+    setupRequiredReason: '为了给出最适合您的结果，VitalScope 需要您的年龄、性别、当前健康状况和困扰。',
+    setupRequiredNote: '※完成设置前无法使用检测功能。',
+    startSetup: '开始初始设置',
+    scanTitle: '检测商品',
+    scanLead: ['拍下食品的营养成分表或商品包装，', '看看它对您的健康有什么影响。'],
+    analyzing: '分析中...',
+    analyze: '开始检测',
+  },
+
+  queue: {
+    offline: '当前处于离线状态。扫描会被保存，联网后将自动分析。',
+    saveForLater: '保存，稍后分析',
+    queuedTitle: '扫描已保存',
+    queuedBody: '恢复联网后将自动分析，并把结果添加到历史记录。',
+    pending: (count: number) => `等待分析的扫描：${count}项`,
+    doneTitle: '离线扫描已分析完成',
+    doneBody: (completed: number, failed: number) =>
+      failed > 0
+        ? `已将${completed}项添加到历史记录（${failed}项无法分析）。`
+        : `已将${completed}项添加到历史记录。`,
+    viewHistory: '查看历史记录',
+  },
+
+  compare: {
+    addToList: '加入对比列表',
+    removeFromList: '移出对比列表',
+    compareCount: (count: number) => `对比 ${count} 件商品`,
+    backToHistory: '返回历史',
+    needTwo: '请至少选择 2 条历史记录进行对比',
+    start: '对比',
+    endSelection: '结束选择',
+    selecting: (count: number, max: number) => `正在选择要对比的商品（${count}/${max}）`,
+    clear: '清除',
+    title: '商品对比',
+    removeItem: '移出对比',
+    product: (index: number) => `商品${index + 1}`,
+    containsAllergen: '含过敏原',
+    rowScore: '评分',
+    rowCalories: '热量',
+    rowDailyShare: '占每日所需',
+    rowPros: '优点',
+    rowCons: '缺点',
+    basisPer100g: '每 100g',
+    basisPerServing: '各商品标示单位',
+    footnote: (basis: string) => `※营养成分为${basis}的数值。粗体表示各项中最好的数值。`,
+    verdictBest: (index: number) => `推荐您选择商品${index + 1}`,
+    verdictNone: '没有推荐的商品',
+    comparing: '对比中...',
+    ask: '问问 AI 哪个适合我',
+  },
+
+  history: {
+    title: '检测历史',
+    clear: '删除历史',
+    confirmClear: '要删除全部历史记录吗？',
+    filterAll: '全部',
+    filterGreen: '推荐',
+    filterAmber: '注意',
+    filterRed: '少吃',
+    sortNewest: '最新',
+    sortScoreDesc: '评分从高到低',
+    sortScoreAsc: '评分从低到高',
+    empty: '还没有历史记录',
+    noMatch: '没有符合条件的历史记录',
+    loadMore: '加载更多',
+    sortOldest: '最早的在前',
+    sortKcalDesc: '热量从高到低',
+    sortKcalAsc: '热量从低到高',
+    searchPlaceholder: '搜索概要、商品名、标签和备注',
+    filters: '筛选',
+    resetFilters: '清除条件',
+    dateRange: '时间段',
+    calorieRange: '热量 (kcal)',
+    scoreRange: '评分',
+    min: '最低',
+    max: '最高',
+    favoritesOnly: '仅显示收藏',
+    tags: '标签',
+    matchCount: (count: number) => `${count}项`,
+    gestureHint: '向左滑动或长按卡片，可以收藏、编辑或删除',
+    actions: '操作',
+    favorite: '加入收藏',
+    unfavorite: '取消收藏',
+    edit: '编辑标签和备注',
+    delete: '删除',
+    confirmDelete: '要删除这条历史记录吗？',
+    tagsInput: '标签（用逗号分隔）',
+    tagsPlaceholder: '例如：早餐, 孩子用',
+    note: '备注',
+    notePlaceholder: '例如：甜度适中，家人很喜欢',
+    save: '保存',
+  },
+
+  settings: {
+    language: '显示语言',
+    languageNote: '检测结果和 AI 的回答也会使用此语言。',
+  },
+
+  data: {
+    title: '数据管理',
+    note: '个人资料和历史记录仅保存在本设备上。更换手机前请先保存备份。',
+    exportBackup: '保存备份 (JSON)',
+    exportCsv: '保存营养数据 (CSV)',
+    printReport: '给医生看的报告 (打印 / PDF)',
+    importBackup: '从备份恢复',
+    working: '处理中...',
+    exportFailed: '无法导出数据。',
+    confirmReplaceProfile: '要用备份中的个人资料替换当前的个人资料吗？\n选择“取消”则只恢复历史记录。',
+    imported: (added: number, merged: number, skipped: number) =>
+      `已添加${added}项，更新${merged}项。` + (skipped > 0 ? `（跳过了${skipped}项无法读取的记录）` : ''),
+    importErrors: {
+      'not-a-backup': '这不是VitalScope的备份文件。',
+      'newer-version': '此备份由更新版本的应用创建。请先更新应用再恢复。',
+      invalid: '备份文件已损坏，无法恢复。',
+    },
+    csv: {
+      date: '日期时间',
+      summary: '概要',
+      productName: '商品名称',
+      brand: '厂商・品牌',
+      category: '类别',
+      score: '评分',
+      rating: '评价',
+      productCalories: '热量 (kcal)',
+      dailyPercentage: '占每日所需的比例 (%)',
+      servingSize: '标示单位',
+      source: '营养成分来源',
+      sources: { label: '标签', estimated: '推测' },
+      timesLogged: '饮食记录次数',
+      barcode: '条形码',
+      id: 'ID',
+    },
+    report: {
+      title: 'VitalScope 饮食报告',
+      generatedAt: (date: string) => `生成时间：${date}`,
+      profileSection: '个人资料',
+      foodLogSection: (days: number) => `饮食记录（最近${days}天）`,
+      day: '日期',
+      foods: '吃过的食物',
+      noFoodLog: '此期间没有饮食记录。',
+      scansSection: (count: number) => `已分析的商品（${count}项）`,
+      disclaimer: '本报告汇总了AI对商品的分析结果和应用内的记录，并非医学诊断。数值中包含推测值。',
+    },
+  },
+
+  analysis: {
+    unclearTitle: '无法分析该图片',
+    unclearFallbackReason: '图片不清晰，或无法识别商品。',
+    unclearAdvice: ['请在明亮的地方重新拍摄，确保文字清晰可读。', '拍到完整包装或营养成分表可以提高准确度。'],
+    retake: '重新拍摄',
+    ingredientsUnreadable: '未能读取配料表，因此无法核对过敏原。请同时拍摄配料表，或直接查看包装。',
+    fromCache: '正在显示相同照片的上次检测结果',
+    reanalyze: '重新检测',
+    reanalyzing: '重新检测中...',
+    summaryTitle: 'AI 概要分析',
+    pros: '优点',
+    cons: '缺点・注意事项',
+    calorieTitle: '热量分析',
+    ofDailyNeed: '占每日所需',
+    kcalEstimated: 'kcal（估算）',
+    dailyNeed: '您每日的估算所需热量：',
+    computedWith: (formula: string) => `按${formula}计算`,
+    recommendationsTitle: '为您推荐的商品',
+    affiliateNote: '※含亚马逊联盟链接',
+    allergenTitle: '含有过敏物质',
+    allergenNote: '这是在本机将您资料中的过敏原与配料表比对的结果。请务必同时确认实物包装。',
+    nutritionTitle: '营养成分',
+    nutritionFromLabel: '来自营养成分表',
+    nutritionEstimated: '根据一般数值估算',
+    perServingFallback: '1 份',
+    per100g: '每 100g',
+    dailyShare: '占每日参考量',
+    nutritionFootnote: (saltTarget: number, serving: string) =>
+      `※占每日参考量是指${serving}相对于根据您的资料计算出的每日参考量（食盐相当量低于 ${saltTarget}g）的比例。`,
+  },
+
+  product: {
+    unknownName: '未知商品',
+    confidence: (percent: number) => `识别可信度 ${percent}%`,
+    lowConfidence: '无法确定识别出的商品。如有错误，请更正。',
+    correctedByUser: '已更正',
+    correct: '更正商品',
+    correctTitle: '输入正确的商品',
+    name: '商品名称',
+    namePlaceholder: '例：薯片 淡盐味',
+    brand: '厂商・品牌',
+    brandPlaceholder: '例：卡乐比',
+    category: '类别',
+    reanalyze: '按此商品重新分析',
+    save: '保存更正',
+    noImagesNote: '没有拍摄的图片，无法重新分析。仅保存商品信息的更正。',
+  },
+
+  progress: {
+    steps: {
+      quality: '图片确认',
+      summary: '概要',
+      score: '评分',
+      calories: '热量',
+      nutrition: '营养成分・配料',
+      prosCons: '优点・注意事项',
+    },
+    unclear: (reason: string) => `图片被判定为不清晰。${reason}`,
+  },
+
+  score: {
+    green: '推荐',
+    amber: '注意食用量',
+    red: '少吃为宜',
+    points: (score: number) => `${score}分`,
+    nutriGradeTitle: '根据营养成分计算的 Nutri-Score 风格评级（参考值）',
+    nutriGradeLabel: '营养评级',
+  },
+
+  errors: {
+    'missing-api-key': {
+      title: 'API 密钥设置错误',
+      message: '未找到 API 密钥或密钥无效。',
+      advice: '请联系应用管理员确认 API 密钥的设置。',
+    },
+    'rate-limit': {
+      title: '已达到使用上限',
+      message: '已达到 AI 的使用次数上限。',
+      advice: '请等待几分钟后再试。',
+    },
+    network: {
+      title: '当前处于离线状态',
+      message: '无法连接到网络。',
+      advice: '请移动到信号较好的地方，或打开 Wi-Fi/移动数据后重试。',
+    },
+    'service-unavailable': {
+      title: 'AI 服务繁忙',
+      message: 'AI 服务暂时不可用。',
+      advice: '请稍候再试。',
+    },
+    'safety-block': {
+      title: '无法分析此图片',
+      message: '出于安全原因，无法分析此图片。',
+      advice: '请重新拍摄，只拍商品包装或营养成分表。',
+    },
+    'empty-response': {
+      title: 'AI 没有响应',
+      message: 'AI 没有返回任何响应。',
+      advice: '请重试。如果问题持续，请尝试减少图片数量。',
+    },
+    'invalid-response': {
+      title: '无法读取分析结果',
+      message: 'AI 的响应格式不正确。',
+      advice: '请重试。结果每次都会重新生成，重试通常可以解决。',
+    },
+    timeout: {
+      title: '分析未能在规定时间内完成',
+      message: '分析超时。',
+      advice: '请在网络环境较好的地方重试。',
+    },
+    cancelled: {
+      title: '已取消分析',
+      message: '已取消分析。',
+      advice: '准备好后，请再次点击“开始检测”。',
+    },
+    'payload-too-large': {
+      title: '图片过大',
+      message: '图片过大，无法发送。',
+      advice: '请减少图片数量，或只拍摄成分表后重试。',
+    },
+    unknown: {
+      title: '发生错误',
+      message: '分析过程中发生错误。',
+      advice: '请稍候再试。',
+    },
+    apiKeyVariable: (name: string) => `需要检查的环境变量: ${name}`,
+  },
+
+  camera: {
+    unavailable: {
+      denied: '未获得相机访问权限。请改为选择照片。',
+      'not-found': '未找到可用的相机。请改为选择照片。',
+      unsupported: '此浏览器不支持拍照。请改为选择照片。',
+      failed: '无法启动相机。请改为选择照片。',
+    },
+    framingHint: '请将营养成分表或配料表对准框内',
+    torch: '手电筒',
+    switchCamera: '切换相机',
+    capture: '拍摄',
+    done: '完成',
+  },
+
+  imageCapture: {
+    openCamera: '用相机拍摄',
+    openCameraHint: '拍摄营养成分表或商品包装',
+    pickPhotos: '选择照片',
+    barcodeRead: ['已读取条形码 ', ''],
+    undoBarcode: '撤销',
+    optimizing: '正在优化图片...',
+    loadFailed: '无法读取图片。',
+    unsupportedFormat: (fileName: string) =>
+      `“${fileName}”的格式无法在此浏览器中读取。请另存为 JPEG 或 PNG，或在相机设置中选择“兼容性最佳”。`,
+    imageIssues: (index: number, issues: string) => `第 ${index + 1} 张：${issues}`,
+    issueSeparator: '・',
+    issueWarning: '直接检测可能无法得到准确的结果。',
+    retake: '重新拍摄',
+    useAnyway: '仍然使用',
+    savings: (from: string, to: string, percent: number) => `上传大小：${from} → ${to}（减少 ${percent}%）`,
+  },
+
+  qualityIssues: {
+    blurry: '可能没有对焦',
+    'too-dark': '太暗',
+    'too-bright': '太亮（过曝）',
+    'too-small': '分辨率太低',
+  },
+
+  chat: {
+    title: '向 AI 询问这件商品',
+    suggestions: [
+      '一天最多可以吃多少？',
+      '可以和我正在服用的药一起吃吗？',
+      '有更健康的吃法吗？',
+    ],
+    placeholder: '例：一天最多可以吃几个？',
+    stop: '停止回答',
+    send: '发送',
+    interrupted: '（回答已中断）',
+    disclaimer: '※AI 的回答仅为一般信息。涉及药物或治疗的问题请咨询医生或药剂师。',
+  },
+
+  dailyEnergy: {
+    title: '每日估算所需热量',
+    empty: '输入年龄和体重后，应用会在本机计算您每日所需的热量，并在所有检测中使用同一标准。未输入时由 AI 每次估算。',
+    perDay: 'kcal/天',
+    bmr: '基础代谢（BMR）',
+    activityFactor: '活动系数',
+    equation: '所需热量 = 基础代谢 × 活动系数',
+    activityAssumed: (level: string) => `※未输入活动水平，因此按“${level}”计算。`,
+  },
+
+  bmrFormulas: {
+    'mifflin-st-jeor': {
+      name: 'Mifflin-St Jeor 公式',
+      expression: '10×体重(kg) + 6.25×身高(cm) − 5×年龄 + 5（男性）／ −161（女性）',
+    },
+    'japanese-reference': {
+      name: '基础代谢基准值（日本人膳食摄入标准）',
+      expression: '基础代谢基准值(kcal/kg/天) × 体重(kg)',
+    },
+  },
+
+  nutrients: {
+    energyKcal: '能量',
+    proteinG: '蛋白质',
+    fatG: '脂肪',
+    carbohydrateG: '碳水化合物',
+    sugarG: '糖类',
+    fiberG: '膳食纤维',
+    saltEquivalentG: '食盐相当量',
+  },
+
+  foodLog: {
+    logTitle: '记录食用量',
+    loggedToday: (count: number) => `今天已记录 ${count} 次`,
+    portion: (portion: number) => (portion === 0.5 ? '半份' : `${portion} 份`),
+    todayTitle: '今天的记录',
+    calories: '热量',
+    over: (kcal: string) => `已超出目标 ${kcal}kcal`,
+    remaining: (kcal: string) => `还剩 ${kcal}kcal`,
+    eatenToday: '今天吃过的',
+    emptyToday: '还没有记录。可以在检测结果中的“记录食用量”处记录。',
+    removeEntry: '删除记录',
+    trendTitle: '热量趋势',
+    week: '1 周',
+    month: '1 个月',
+    weekdays: ['日', '一', '二', '三', '四', '五', '六'],
+    average: (average: string, budget: string) => `有记录日的平均值：${average}kcal（虚线为每日目标 ${budget}kcal）`,
+  },
+
+  profile: {
+    titleEditing: '个人资料设置',
+    titleWelcome: '欢迎使用 VitalScope',
+    introTitle: '使用前请阅读',
+    intro: [
+      ['VitalScope 是一款', '根据您的健康状况由 AI 分析市售商品', '的个性化检测应用。'],
+      ['为了根据您的困扰和目标评估优缺点，', '需要填写个人资料', '。'],
+      ['您输入的信息', '只保存在您的设备上', '，不会发送到外部。'],
+    ],
+    age: '年龄',
+    agePlaceholder: '例：35',
+    gender: '性别',
+    genderMale: '男',
+    genderFemale: '女',
+    genderOther: '其他',
+    height: '身高 (cm)',
+    heightPlaceholder: '例：165',
+    weight: '体重 (kg)',
+    weightPlaceholder: '例：60',
+    activityLevel: '活动水平',
+    allergies: '过敏',
+    allergensMandatory: '日本强制标示的 8 种',
+    allergensRecommended: '日本建议标示的 20 种',
+    conditions: '慢性病・关注的指标',
+    dietaryStyles: '饮食方式',
+    goals: '目标',
+    healthContext: '当前健康状况・困扰・目标',
+    healthContextPlaceholder: '例：最近体检说我血压偏高，想少吃盐。我对甲壳类过敏。另外我主要做办公室工作，缺乏运动，容易水肿。',
+    healthContextHint: '写得越具体，AI 的准确度越高。',
+    consentTitle: '我已确认并同意以下内容',
+    consentItems: [
+      '本应用的检测会根据我的个人资料进行个性化。',
+      '个人资料之后也可以修改。',
+    ],
+    save: '保存设置',
+    finishSetup: '完成初始设置并开始',
+  },
+
+  options: {
+    allergens: {
+      shrimp: '虾',
+      crab: '蟹',
+      walnut: '核桃',
+      wheat: '小麦',
+      buckwheat: '荞麦',
+      egg: '蛋',
+      milk: '乳',
+      peanut: '花生',
+      almond: '杏仁',
+      abalone: '鲍鱼',
+      squid: '鱿鱼',
+      salmon_roe: '鲑鱼子',
+      orange: '橙子',
+      cashew: '腰果',
+      kiwi: '猕猴桃',
+      beef: '牛肉',
+      sesame: '芝麻',
+      salmon: '鲑鱼',
+      mackerel: '鲭鱼',
+      soybean: '大豆',
+      chicken: '鸡肉',
+      banana: '香蕉',
+      pork: '猪肉',
+      macadamia: '夏威夷果',
+      peach: '桃子',
+      yam: '山药',
+      apple: '苹果',
+      gelatin: '明胶',
+    },
+    activityLevels: {
+      sedentary: '几乎不活动',
+      light: '较低',
+      moderate: '一般',
+      active: '较高',
+      very_active: '非常高',
+    },
+    activityDescriptions: {
+      sedentary: '以伏案工作为主，没有运动习惯',
+      light: '通勤和做家务时走路，每周轻度运动 1〜2 次',
+      moderate: '站立工作或走动较多，每周运动 3〜5 次',
+      active: '体力劳动，或几乎每天都充分运动',
+      very_active: '每天进行运动员水平的训练',
+    },
+    conditions: {
+      hypertension: '高血压',
+      diabetes: '糖尿病・血糖偏高',
+      dyslipidemia: '血脂异常',
+      hyperuricemia: '高尿酸血症・痛风',
+      kidney_disease: '肾脏疾病',
+      liver_disease: '肝脏疾病',
+      heart_disease: '心脏疾病',
+      osteoporosis: '骨质疏松',
+      anemia: '贫血',
+      ibs: '肠易激综合征',
+      pregnancy: '怀孕・哺乳期',
+    },
+    dietaryStyles: {
+      vegetarian: '素食',
+      vegan: '纯素',
+      halal: '清真',
+      low_fodmap: '低 FODMAP',
+      gluten_free: '无麸质',
+      low_carb: '低碳水',
+    },
+    goals: {
+      lose_weight: '减重',
+      gain_muscle: '增肌',
+      reduce_salt: '减盐',
+      control_blood_sugar: '控制血糖',
+      lower_cholesterol: '降低胆固醇',
+      improve_gut: '改善肠道环境',
+      beauty: '美容・美肤',
+      maintain: '保持健康',
+    },
+    productCategories: {
+      snack: '零食',
+      beverage: '饮料',
+      meal: '食品・餐食',
+      seasoning: '调味料',
+      supplement: '保健品',
+      cosmetic: '化妆品',
+      medicine: '药品',
+      other: '其他',
+    },
+  },
+};
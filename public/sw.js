@@ -0,0 +1,103 @@
+// App-shell service worker. Plain JS served as-is from public/, so it keeps
+// the same URL across builds; bump CACHE_VERSION when the caching rules change.
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `runtime-${CACHE_VERSION}`;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icons/icon.svg', '/icons/icon-192.png'];
+
+// Hashed build assets and CDN scripts/fonts pile up across deploys
+const RUNTIME_CACHE_LIMIT = 80;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== SHELL_CACHE && key !== RUNTIME_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const trimCache = async (cacheName, limit) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - limit)).map((key) => cache.delete(key)));
+};
+
+// Pages: network first so a deploy shows up right away, the cached shell offline
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/index.html')) || (await caches.match('/')) || Response.error();
+  }
+};
+
+// Everything else: cached copy right away, refreshed in the background
+const handleAsset = async (event) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request)
+    .then(async (response) => {
+      // Cross-origin scripts without CORS come back opaque (status 0); still usable offline
+      if (response.ok || response.type === 'opaque') {
+        await cache.put(event.request, response.clone());
+        await trimCache(RUNTIME_CACHE, RUNTIME_CACHE_LIMIT);
+      }
+      return response;
+    });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Model calls, the API proxy and product lookups must always hit the network
+  if (request.method !== 'GET' || (url.origin === self.location.origin && url.pathname.startsWith('/api/'))) return;
+  if (!url.protocol.startsWith('http')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+  // Only the app's own files and the CDNs index.html loads from
+  const isShellAsset =
+    url.origin === self.location.origin ||
+    request.destination === 'script' ||
+    request.destination === 'style' ||
+    request.destination === 'font';
+  if (isShellAsset) {
+    event.respondWith(handleAsset(event));
+  }
+});
+
+// Opens (or focuses) the app when a "queued scans analyzed" notification is tapped
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      return client ? client.focus() : self.clients.openWindow('/');
+    })
+  );
+});
@@ -0,0 +1,35 @@
+import { withSourceModule } from './loadSourceModule.js';
+
+// Ingredient texts the local allergen matcher must get right. Short terms like
+// いか and えび also occur inside unrelated words once katakana is folded to
+// hiragana, so each gets look-alikes that must NOT match.
+const CASES = [
+  { text: 'するめいか', allergy: 'squid', match: true },
+  { text: 'イカ墨', allergy: 'squid', match: true },
+  { text: 'スイカ果汁', allergy: 'squid', match: false },
+  { text: 'マイカ', allergy: 'squid', match: false },
+  { text: 'ハイカカオチョコレート', allergy: 'squid', match: false },
+  { text: 'えびエキス', allergy: 'shrimp', match: true },
+  { text: '干しエビ', allergy: 'shrimp', match: true },
+  { text: 'エビアン（水）', allergy: 'shrimp', match: false },
+  { text: 'カニ風味かまぼこ', allergy: 'crab', match: true },
+  { text: 'ずわいかに', allergy: 'crab', match: true },
+  { text: 'なめらかに仕上げたソース', allergy: 'crab', match: false },
+  { text: '白桃果汁', allergy: 'peach', match: true },
+  { text: 'すもも', allergy: 'peach', match: false },
+  { text: '乳化剤', allergy: 'milk', match: false },
+  { text: '鶏卵', allergy: 'chicken', match: false },
+];
+
+await withSourceModule('/services/allergens.ts', ({ matchAllergens }) => {
+  const failures = CASES.filter(({ text, allergy, match }) => (matchAllergens([text], [allergy]).length > 0) !== match);
+  if (failures.length === 0) {
+    console.log(`Allergen matcher: ${CASES.length} cases pass.`);
+    return;
+  }
+  console.error('Allergen matcher got these wrong:');
+  for (const { text, allergy, match } of failures) {
+    console.error(`  "${text}" should ${match ? '' : 'not '}match ${allergy}`);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,48 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { withSourceModule } from './loadSourceModule.js';
+
+// Renders every prompt template against the sample profiles and compares the
+// text with the committed snapshot. Exits with 1 when they differ; rerun with
+// --update once the change has been reviewed.
+const SNAPSHOT_PATH = fileURLToPath(new URL('../services/prompts/__snapshots__/prompts.snap.txt', import.meta.url));
+const SECTION_HEADER = /^=== (.+) ===$/m;
+
+// "=== key field ===" header -> section body
+const splitSections = (text) => {
+  const sections = new Map();
+  const parts = text.split(SECTION_HEADER);
+  for (let i = 1; i < parts.length; i += 2) sections.set(parts[i], parts[i + 1]);
+  return sections;
+};
+
+const changedSections = (expected, actual) => {
+  const before = splitSections(expected);
+  const after = splitSections(actual);
+  const names = new Set([...before.keys(), ...after.keys()]);
+  return [...names].flatMap((name) => {
+    if (!before.has(name)) return [`+ ${name}`];
+    if (!after.has(name)) return [`- ${name}`];
+    return before.get(name) === after.get(name) ? [] : [`~ ${name}`];
+  });
+};
+
+await withSourceModule('/services/prompts/samples.ts', async ({ formatPromptSnapshots, renderPromptSnapshots }) => {
+  const actual = formatPromptSnapshots(renderPromptSnapshots());
+
+  if (process.argv.includes('--update')) {
+    await writeFile(SNAPSHOT_PATH, actual);
+    console.log(`Updated ${SNAPSHOT_PATH}`);
+    return;
+  }
+
+  const expected = await readFile(SNAPSHOT_PATH, 'utf8').catch(() => '');
+  if (expected === actual) {
+    console.log('Prompt snapshots match.');
+  } else {
+    console.error('Prompt snapshots changed:');
+    for (const line of changedSections(expected, actual)) console.error(`  ${line}`);
+    console.error('Review the change, then run `npm run check:prompts -- --update`.');
+    process.exitCode = 1;
+  }
+});
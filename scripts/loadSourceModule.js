@@ -0,0 +1,20 @@
+import { createServer } from 'vite';
+
+// Hands a module from the app's TypeScript sources to `use`. Loaded through
+// Vite, like the dev server's API routes, so the sources and import.meta.env
+// work without a separate build.
+export const withSourceModule = async (path, use) => {
+  const server = await createServer({
+    configFile: false,
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false, watch: null },
+    // Nothing is served to a browser, so skip scanning index.html for deps
+    optimizeDeps: { noDiscovery: true, entries: [] },
+  });
+  try {
+    return await use(await server.ssrLoadModule(path));
+  } finally {
+    await server.close();
+  }
+};
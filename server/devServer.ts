@@ -0,0 +1,74 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import type { Plugin } from "vite";
+import { ProxyAction, proxyPath } from "../services/proxyProtocol";
+
+const ACTIONS: ProxyAction[] = ['analyze', 'chat', 'compare'];
+
+// Server-side settings the proxy reads from process.env. Vite only loads
+// .env files for the client, so copy these over for `npm run dev`.
+const SERVER_ENV_KEYS = ['GEMINI_API_KEY', 'PROXY_MODEL'];
+
+const toRequest = (req: IncomingMessage, res: ServerResponse): Request => {
+  // Aborts the model call when the browser goes away mid-stream
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') headers.set(name, value);
+    else if (Array.isArray(value)) headers.set(name, value.join(', '));
+  }
+  if (!headers.has('x-forwarded-for') && req.socket.remoteAddress) {
+    headers.set('x-forwarded-for', req.socket.remoteAddress);
+  }
+
+  return new Request(`http://${req.headers.host ?? 'localhost'}${req.url ?? '/'}`, {
+    method: req.method,
+    headers,
+    body: Readable.toWeb(req) as ReadableStream<Uint8Array>,
+    signal: controller.signal,
+    // Required by Node's fetch for streamed request bodies; missing from the DOM types
+    duplex: 'half',
+  } as RequestInit);
+};
+
+const sendResponse = async (response: Response, res: ServerResponse) => {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  if (response.body) {
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      res.write(chunk);
+    }
+  }
+  res.end();
+};
+
+// Serves the api/ routes from the Vite dev server, so the 'proxy' provider
+// works locally the same way it does on Vercel.
+export const apiProxyPlugin = (env: Record<string, string>): Plugin => ({
+  name: 'api-proxy',
+  configureServer(server) {
+    for (const key of SERVER_ENV_KEYS) {
+      if (env[key] && !process.env[key]) process.env[key] = env[key];
+    }
+
+    for (const action of ACTIONS) {
+      server.middlewares.use(proxyPath(action), async (req, res, next) => {
+        if (req.method !== 'POST') {
+          next();
+          return;
+        }
+        try {
+          // Loaded through Vite so edits to the proxy apply without a restart
+          const { handleProxyRequest } = await server.ssrLoadModule('/server/proxy.ts') as typeof import('./proxy');
+          await sendResponse(await handleProxyRequest(action, toRequest(req, res)), res);
+        } catch (error) {
+          next(error);
+        }
+      });
+    }
+  },
+});
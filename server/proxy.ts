@@ -0,0 +1,284 @@
+import { Locale, ProductCategory, ProductCorrection } from "../types";
+import { PRODUCT_CATEGORIES } from "../constants";
+import { AnalysisProvider } from "../services/analysisProvider";
+import { getProxyModelName } from "../services/config";
+import { AnalysisError, MissingApiKeyError, PayloadTooLargeError, RateLimitError, toAnalysisError } from "../services/errors";
+import { ProxyAction, ProxyErrorBody, ProxyRequestBodies } from "../services/proxyProtocol";
+import { geminiProvider } from "../services/providers/geminiProvider";
+import { mockProvider } from "../services/providers/mockProvider";
+import { RateLimitOptions, createRateLimiter } from "./rateLimit";
+
+// Vercel rejects bodies over 4.5MB before the function runs; stay below so
+// the client gets our error instead of the platform's.
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_MAX_IMAGES = 6;
+const DEFAULT_RATE_LIMIT: RateLimitOptions = { limit: 20, windowMs: 60_000 };
+
+const LOCALES: Locale[] = ['ja', 'en', 'zh', 'ko'];
+
+const SERVER_PROVIDERS: Record<string, AnalysisProvider> = {
+  gemini: geminiProvider,
+  stub: mockProvider,
+};
+
+export interface ProxyOptions {
+  provider?: AnalysisProvider; // Defaults to PROXY_MODEL, read per request
+  rateLimit?: RateLimitOptions;
+  maxBodyBytes?: number;
+  maxImages?: number;
+}
+
+export type ProxyHandler = (action: ProxyAction, request: Request) => Promise<Response>;
+
+// Malformed requests. Only a mismatched or hand-written client sends these,
+// so they share the generic 'unknown' card.
+class BadRequestError extends AnalysisError {
+  constructor(message: string) {
+    super('unknown', message);
+    this.name = 'BadRequestError';
+  }
+}
+
+const statusFor = (error: AnalysisError): number => {
+  if (error instanceof BadRequestError) return 400;
+  switch (error.kind) {
+    case 'payload-too-large': return 413;
+    case 'rate-limit': return 429;
+    case 'safety-block': return 422;
+    case 'service-unavailable': return 503;
+    case 'network':
+    case 'empty-response':
+    case 'invalid-response': return 502;
+    case 'timeout': return 504;
+    default: return 500;
+  }
+};
+
+const errorResponse = (error: AnalysisError, headers?: HeadersInit): Response => {
+  const body: ProxyErrorBody = {
+    error: {
+      kind: error.kind,
+      message: error.message,
+      retryable: error.retryable,
+      variable: error instanceof MissingApiKeyError ? error.variable : undefined,
+    },
+  };
+  return Response.json(body, { status: statusFor(error), headers });
+};
+
+const getServerProvider = (): AnalysisProvider => {
+  const name = getProxyModelName();
+  const provider = SERVER_PROVIDERS[name];
+  if (!provider) {
+    console.warn(`Unknown proxy model "${name}", falling back to gemini.`);
+    return geminiProvider;
+  }
+  return provider;
+};
+
+// Behind Vercel (and most proxies) the client is the first x-forwarded-for hop
+const getClientKey = (request: Request): string =>
+  request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+  request.headers.get('x-real-ip') ||
+  'anonymous';
+
+// Reads the body while counting bytes, so a missing or false Content-Length
+// can't get a huge upload buffered.
+const readJsonBody = async (request: Request, maxBytes: number): Promise<unknown> => {
+  if (Number(request.headers.get('content-length')) > maxBytes) {
+    throw new PayloadTooLargeError();
+  }
+  if (!request.body) throw new BadRequestError("Request body is empty.");
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new BadRequestError("Request body is not valid JSON.");
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Just enough shape checking that the prompt templates can't throw on it
+const readProfile = (value: unknown): ProxyRequestBodies['analyze']['profile'] => {
+  if (
+    !isRecord(value) ||
+    !['allergies', 'conditions', 'dietaryStyles', 'goals'].every((key) => isStringArray(value[key]))
+  ) {
+    throw new BadRequestError("Invalid profile.");
+  }
+  return value as unknown as ProxyRequestBodies['analyze']['profile'];
+};
+
+const readImages = (value: unknown, maxImages: number, required: boolean): string[] => {
+  if (!isStringArray(value) || (required && value.length === 0)) {
+    throw new BadRequestError("Invalid images.");
+  }
+  if (value.length > maxImages) throw new PayloadTooLargeError();
+  return value;
+};
+
+const readLocale = (value: unknown): Locale | undefined =>
+  LOCALES.includes(value as Locale) ? (value as Locale) : undefined;
+
+// Rendered into the prompt, so only the expected strings get through
+const readProductCorrection = (value: unknown): ProductCorrection | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (
+    !isRecord(value) ||
+    typeof value.name !== 'string' ||
+    typeof value.brand !== 'string' ||
+    !PRODUCT_CATEGORIES.some((c) => c.id === value.category)
+  ) {
+    throw new BadRequestError("Invalid product correction.");
+  }
+  return { name: value.name, brand: value.brand, category: value.category as ProductCategory };
+};
+
+const readBody = <A extends ProxyAction>(action: A, raw: unknown, maxImages: number): ProxyRequestBodies[A] => {
+  if (!isRecord(raw)) throw new BadRequestError("Request body must be an object.");
+  const profile = readProfile(raw.profile);
+  const locale = readLocale(raw.locale);
+
+  switch (action) {
+    case 'analyze': {
+      const body: ProxyRequestBodies['analyze'] = {
+        profile,
+        locale,
+        images: readImages(raw.images, maxImages, true),
+        barcode: typeof raw.barcode === 'string' ? raw.barcode : undefined,
+        knownProduct: isRecord(raw.knownProduct) ? (raw.knownProduct as unknown as ProxyRequestBodies['analyze']['knownProduct']) : null,
+        productCorrection: readProductCorrection(raw.productCorrection),
+      };
+      return body as ProxyRequestBodies[A];
+    }
+    case 'chat': {
+      if (!isRecord(raw.result) || !Array.isArray(raw.messages) || !raw.messages.every(isRecord)) {
+        throw new BadRequestError("Invalid chat request.");
+      }
+      const body: ProxyRequestBodies['chat'] = {
+        profile,
+        locale,
+        images: readImages(raw.images, maxImages, false),
+        result: raw.result as unknown as ProxyRequestBodies['chat']['result'],
+        messages: raw.messages as unknown as ProxyRequestBodies['chat']['messages'],
+      };
+      return body as ProxyRequestBodies[A];
+    }
+    case 'compare': {
+      if (!Array.isArray(raw.results) || raw.results.length < 2 || !raw.results.every(isRecord)) {
+        throw new BadRequestError("Invalid compare request.");
+      }
+      const body: ProxyRequestBodies['compare'] = {
+        profile,
+        locale,
+        results: raw.results as unknown as ProxyRequestBodies['compare']['results'],
+      };
+      return body as ProxyRequestBodies[A];
+    }
+    default:
+      throw new BadRequestError(`Unknown action "${action}".`);
+  }
+};
+
+// Pulls the first chunk before committing to a 200, so the errors a model
+// raises up front (missing key, quota, safety block) still get a status.
+const streamResponse = async (stream: AsyncIterable<string>): Promise<Response> => {
+  const iterator = stream[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) controller.close();
+      else controller.enqueue(encoder.encode(first.value));
+    },
+    async pull(controller) {
+      try {
+        const next = await iterator.next();
+        if (next.done) controller.close();
+        else controller.enqueue(encoder.encode(next.value));
+      } catch (error) {
+        // Erroring the body would reach the browser as a fetch TypeError and
+        // queue the scan as offline. Ending it leaves truncated text, which
+        // fails validation like any other bad model response.
+        console.error("Proxy stream failed", error);
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+};
+
+// Calls the model on behalf of the browser, so the API key stays on the
+// server. One handler serves every action; each api/ route binds its own.
+export const createProxyHandler = ({
+  provider,
+  rateLimit = DEFAULT_RATE_LIMIT,
+  maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+  maxImages = DEFAULT_MAX_IMAGES,
+}: ProxyOptions = {}): ProxyHandler => {
+  const limiter = createRateLimiter(rateLimit);
+
+  return async (action, request) => {
+    const decision = limiter.take(getClientKey(request));
+    if (!decision.allowed) {
+      return errorResponse(new RateLimitError(), {
+        'Retry-After': String(Math.ceil(decision.retryAfterMs / 1000)),
+      });
+    }
+
+    try {
+      const model = provider ?? getServerProvider();
+      const signal = request.signal;
+      const raw = await readJsonBody(request, maxBodyBytes);
+
+      switch (action) {
+        case 'analyze':
+          return await streamResponse(model.analyze({ ...readBody('analyze', raw, maxImages), signal }));
+        case 'chat':
+          return await streamResponse(model.chat({ ...readBody('chat', raw, maxImages), signal }));
+        case 'compare':
+          return Response.json(await model.compare({ ...readBody('compare', raw, maxImages), signal }));
+        default:
+          throw new BadRequestError(`Unknown action "${action}".`);
+      }
+    } catch (error) {
+      if (!(error instanceof AnalysisError)) console.error(`Proxy ${action} failed`, error);
+      return errorResponse(toAnalysisError(error));
+    }
+  };
+};
+
+// Shared by the api/ routes and the dev server, so they share one rate limit
+export const handleProxyRequest = createProxyHandler();
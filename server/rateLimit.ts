@@ -0,0 +1,48 @@
+export interface RateLimitOptions {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterMs: number; // Until the client's window resets; 0 when allowed
+}
+
+export interface RateLimiter {
+  take(clientKey: string, now?: number): RateLimitDecision;
+}
+
+interface Window {
+  startedAt: number;
+  count: number;
+}
+
+// Fixed-window counter per client, in memory. On serverless hosts every warm
+// instance counts on its own, so this caps bursts rather than enforcing an
+// exact quota; the model's own quota is still the hard limit.
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions): RateLimiter => {
+  const windows = new Map<string, Window>();
+
+  const sweep = (now: number) => {
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= windowMs) windows.delete(key);
+    }
+  };
+
+  return {
+    take(clientKey, now = Date.now()) {
+      let window = windows.get(clientKey);
+      if (!window || now - window.startedAt >= windowMs) {
+        // Only sweep when a new window starts, so the map can't grow unbounded
+        sweep(now);
+        window = { startedAt: now, count: 0 };
+        windows.set(clientKey, window);
+      }
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterMs: window.startedAt + windowMs - now };
+      }
+      window.count++;
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
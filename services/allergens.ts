@@ -0,0 +1,38 @@
+import { ALLERGENS } from "../constants";
+
+export interface AllergenMatch {
+  allergenId: string;
+  label: string;
+  ingredients: string[]; // Ingredient entries that triggered the match
+}
+
+// NFKC folds full-width letters/digits, lowercasing handles English labels,
+// and katakana is shifted to hiragana so エビ and えび compare equal.
+const normalize = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+
+// Checks each ingredient (including "一部に〜を含む" statements) against the
+// user's allergies. Purely local string matching, so the result never
+// depends on what the model chose to mention.
+export const matchAllergens = (ingredients: string[], allergyIds: string[]): AllergenMatch[] => {
+  const normalizedIngredients = ingredients.map((raw) => ({ raw, text: normalize(raw) }));
+
+  return ALLERGENS.filter((allergen) => allergyIds.includes(allergen.id))
+    .map((allergen) => {
+      const synonyms = allergen.synonyms.map(normalize);
+      const excludes = (allergen.excludes ?? []).map(normalize);
+
+      const hits = normalizedIngredients
+        .filter(({ text }) => {
+          const cleaned = excludes.reduce((acc, ex) => acc.split(ex).join(' '), text);
+          return synonyms.some((syn) => cleaned.includes(syn));
+        })
+        .map(({ raw }) => raw);
+
+      return { allergenId: allergen.id, label: allergen.label, ingredients: hits };
+    })
+    .filter((match) => match.ingredients.length > 0);
+};
@@ -0,0 +1,50 @@
+import { AnalysisResult, ChatMessage, Locale, ProductCorrection, ProductInfo, UserProfile } from "../types";
+
+export interface AnalysisRequest {
+  profile: UserProfile;
+  images: string[]; // data URLs or raw base64
+  signal?: AbortSignal; // Aborted on user cancel or timeout
+  barcode?: string;
+  knownProduct?: ProductInfo | null; // From the product cache/lookup when the barcode is known
+  locale?: Locale; // Language of the free-text fields; Japanese when absent
+  productCorrection?: ProductCorrection; // Set when re-analyzing after the user corrected the product
+}
+
+export interface ChatRequest {
+  profile: UserProfile;
+  images: string[]; // The scanned images; empty when reopened from history
+  result: AnalysisResult;
+  messages: ChatMessage[]; // Whole thread, ending with the new user question
+  signal?: AbortSignal;
+  locale?: Locale;
+}
+
+export interface CompareRequest {
+  profile: UserProfile;
+  results: AnalysisResult[]; // Two or more earlier analyses, in display order
+  signal?: AbortSignal;
+  locale?: Locale;
+}
+
+// A backend capable of turning product images + a profile into an AnalysisResult.
+// analyze() streams the raw JSON text, with properties in the schema's
+// propertyOrdering; analyzeHealthImpact parses and validates it against
+// ANALYSIS_RESPONSE_SCHEMA, so providers never need to trust their own output.
+export interface AnalysisProvider {
+  readonly name: string;
+  analyze(request: AnalysisRequest): AsyncIterable<string>;
+  // Answers a follow-up question about an analyzed product, yielding text chunks as they arrive
+  chat(request: ChatRequest): AsyncIterable<string>;
+  // Picks the best of several analyzed products; raw payload, validated like analyze()
+  compare(request: CompareRequest): Promise<unknown>;
+}
+
+export const parseBase64 = (base64String: string) => {
+  if (base64String.startsWith('data:')) {
+    const base64Data = base64String.split(',')[1];
+    const mimeType = base64String.substring(base64String.indexOf(':') + 1, base64String.indexOf(';'));
+    return { data: base64Data, mimeType };
+  }
+  // Fallback assuming jpeg if raw string
+  return { data: base64String, mimeType: 'image/jpeg' };
+};
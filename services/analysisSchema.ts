@@ -0,0 +1,335 @@
+import { Schema, Type } from "@google/genai";
+import { PRODUCT_CATEGORIES } from "../constants";
+import { AnalysisResult, CalorieAnalysis, ComparisonVerdict, NutrientAmounts, NutritionFacts } from "../types";
+import { AnalysisValidationError, ValidationIssue } from "./errors";
+
+// Response schema sent to the model. validateAnalysisResult checks responses
+// against this same definition, so edit it here only.
+export const ANALYSIS_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    imageQualityCheck: {
+      type: Type.OBJECT,
+      properties: {
+        isUnclear: { type: Type.BOOLEAN, description: "True if the image is too blurry, dark, or the product cannot be identified." },
+        reason: { type: Type.STRING, description: "Reason why the image is unclear (if applicable)." }
+      },
+      required: ["isUnclear", "reason"]
+    },
+    product: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: "Product name as printed on the package (without the maker), e.g. 'ポテトチップス うすしお'. Empty if it cannot be identified." },
+        brand: { type: Type.STRING, description: "Maker or brand, e.g. 'カルビー'. Empty if unknown." },
+        category: { type: Type.STRING, enum: PRODUCT_CATEGORIES.map((c) => c.id), description: "What kind of product this is." },
+        confidence: { type: Type.INTEGER, description: "How confident the identification of name and brand is, 0 (guess) to 100 (clearly printed)." },
+      },
+      required: ["name", "brand", "category", "confidence"],
+    },
+    calorieAnalysis: {
+      type: Type.OBJECT,
+      properties: {
+        productCalories: { type: Type.INTEGER, description: "Estimated calories of the product in kcal. If unknown, estimate based on product type." },
+        userDailyNeed: { type: Type.INTEGER, description: "Estimated Total Daily Energy Expenditure (TDEE) for this specific user based on age, gender, and context." },
+        percentage: { type: Type.INTEGER, description: "What percentage of the daily need does this product represent?" },
+        note: { type: Type.STRING, description: "Brief explanation of the calorie estimation (e.g. 'Standard value for 100g of chocolate')." }
+      },
+      required: ["productCalories", "userDailyNeed", "percentage", "note"]
+    },
+    nutritionFacts: {
+      type: Type.OBJECT,
+      properties: {
+        servingSize: { type: Type.STRING, description: "Serving size exactly as printed on the label (e.g. '1袋(60g)', '100mlあたり')." },
+        servingGrams: { type: Type.NUMBER, description: "Serving size in grams (or ml for beverages). 0 if unknown." },
+        perServing: {
+          type: Type.OBJECT,
+          properties: {
+            energyKcal: { type: Type.NUMBER, description: "エネルギー (kcal) per serving." },
+            proteinG: { type: Type.NUMBER, description: "たんぱく質 (g) per serving." },
+            fatG: { type: Type.NUMBER, description: "脂質 (g) per serving." },
+            carbohydrateG: { type: Type.NUMBER, description: "炭水化物 (g) per serving." },
+            sugarG: { type: Type.NUMBER, nullable: true, description: "糖質 or 糖類 (g) per serving. Null if not listed." },
+            fiberG: { type: Type.NUMBER, nullable: true, description: "食物繊維 (g) per serving. Null if not listed." },
+            saltEquivalentG: { type: Type.NUMBER, description: "食塩相当量 (g) per serving. If only ナトリウム is listed, convert with Na(mg) × 2.54 / 1000." },
+          },
+          required: ["energyKcal", "proteinG", "fatG", "carbohydrateG", "saltEquivalentG"],
+        },
+        source: { type: Type.STRING, enum: ["label", "estimated"], description: "'label' if read from the 栄養成分表示, 'estimated' if inferred from typical products." },
+      },
+      required: ["servingSize", "servingGrams", "perServing", "source"],
+    },
+    ingredients: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Every entry of the 原材料名 list exactly as printed, in order, including allergen statements such as '(一部に小麦・乳成分を含む)'. Empty if no ingredient list is visible.",
+    },
+    healthScore: {
+      type: Type.OBJECT,
+      properties: {
+        score: { type: Type.INTEGER, description: "How suitable this product is for this specific user, 0 (avoid) to 100 (ideal), considering their conditions, goals, allergies and dietary style." },
+        reason: { type: Type.STRING, description: "One short sentence explaining the score." },
+      },
+      required: ["score", "reason"],
+    },
+    summary: {
+      type: Type.STRING,
+      description: "A concise summary of the product analysis (approx 200 characters).",
+    },
+    pros: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "List of health benefits/pros for this specific user.",
+    },
+    cons: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "List of health risks/cons for this specific user.",
+    },
+    recommendations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "Name of a recommended product on Amazon." },
+          reason: { type: Type.STRING, description: "Short reason why this is good for the user." },
+        },
+        required: ["name", "reason"],
+      },
+      description: "3 recommended products available on Amazon relevant to the user's needs.",
+    },
+  },
+  required: ["imageQualityCheck", "product", "calorieAnalysis", "nutritionFacts", "ingredients", "healthScore", "summary", "pros", "cons", "recommendations"],
+  // Generation order when streaming: what the progressive view shows first comes first
+  propertyOrdering: ["imageQualityCheck", "product", "summary", "healthScore", "calorieAnalysis", "nutritionFacts", "ingredients", "pros", "cons", "recommendations"],
+};
+
+export const COMPARISON_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    bestIndex: { type: Type.INTEGER, description: "0-based index of the product that suits this user best, or -1 if none of them is suitable." },
+    reason: { type: Type.STRING, description: "Why that product is the better choice for this user (approx 150 characters)." },
+    tips: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Up to 3 short tips, e.g. portion advice for the chosen product.",
+    },
+  },
+  required: ["bestIndex", "reason", "tips"],
+};
+
+// Percentage points tolerated between the model's percentage and the one
+// recomputed from productCalories / userDailyNeed before we overwrite it.
+const PERCENTAGE_TOLERANCE = 1;
+
+// Requested from the model but optional in AnalysisResult (unclear images have
+// neither), so an unusable one is dropped rather than failing the whole result.
+const OPTIONAL_IN_RESULT = ['product', 'calorieAnalysis', 'nutritionFacts', 'healthScore'];
+
+const INVALID = Symbol('invalid');
+
+// Safe fallback for a missing required field, or INVALID if there is none
+// (numbers and booleans carry meaning we can't invent).
+const defaultFor = (schema: Schema): unknown => {
+  switch (schema.type) {
+    case Type.ARRAY:
+      return [];
+    case Type.STRING:
+      return schema.enum ? INVALID : '';
+    default:
+      return INVALID;
+  }
+};
+
+// Walks `value` against `schema`, coercing what can be coerced (numeric
+// strings, "true"/"false", missing arrays/strings) and recording every
+// problem in `issues`. Returns INVALID when the value can't be salvaged.
+const coerce = (value: unknown, schema: Schema, path: string, issues: ValidationIssue[]): unknown => {
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value === 'string') {
+        if (!schema.enum || schema.enum.includes(value)) return value;
+        issues.push({ path, message: `"${value}" is not one of ${schema.enum.join(', ')}` });
+        return INVALID;
+      }
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        issues.push({ path, message: `expected string, got ${typeof value}` });
+        return String(value);
+      }
+      break;
+
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof num === 'number' && Number.isFinite(num)) {
+        if (num !== value) issues.push({ path, message: `expected number, got ${typeof value}` });
+        return schema.type === Type.INTEGER ? Math.round(num) : num;
+      }
+      break;
+    }
+
+    case Type.BOOLEAN:
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        issues.push({ path, message: 'expected boolean, got string' });
+        return value === 'true';
+      }
+      break;
+
+    case Type.ARRAY:
+      if (Array.isArray(value)) {
+        // Drop individual bad items instead of rejecting the whole list
+        return value
+          .map((item, i) => coerce(item, schema.items ?? {}, `${path}[${i}]`, issues))
+          .filter((item) => item !== INVALID);
+      }
+      break;
+
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) break;
+      const source = value as Record<string, unknown>;
+      const required = schema.required ?? [];
+      const out: Record<string, unknown> = {};
+
+      for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+        const propPath = path ? `${path}.${key}` : key;
+        const isRequired = required.includes(key);
+        let propValue = source[key];
+
+        if (propValue === undefined || propValue === null) {
+          if (!isRequired) continue;
+          propValue = defaultFor(propSchema);
+          issues.push({ path: propPath, message: 'missing required field' });
+          if (propValue === INVALID) return INVALID;
+          out[key] = propValue;
+          continue;
+        }
+
+        const coerced = coerce(propValue, propSchema, propPath, issues);
+        if (coerced === INVALID) {
+          if (isRequired) return INVALID;
+          continue;
+        }
+        out[key] = coerced;
+      }
+      return out;
+    }
+
+    default:
+      return value;
+  }
+
+  issues.push({ path, message: `expected ${schema.type?.toLowerCase()}, got ${value === null ? 'null' : typeof value}` });
+  return INVALID;
+};
+
+const repairCalorieAnalysis = (calorie: CalorieAnalysis, issues: ValidationIssue[]): CalorieAnalysis => {
+  const repaired = { ...calorie };
+
+  if (repaired.productCalories < 0) {
+    issues.push({ path: 'calorieAnalysis.productCalories', message: 'negative value clamped to 0' });
+    repaired.productCalories = 0;
+  }
+
+  if (repaired.userDailyNeed > 0) {
+    const expected = Math.round((repaired.productCalories / repaired.userDailyNeed) * 100);
+    if (Math.abs(repaired.percentage - expected) > PERCENTAGE_TOLERANCE) {
+      issues.push({ path: 'calorieAnalysis.percentage', message: `inconsistent (${repaired.percentage}), recomputed as ${expected}` });
+      repaired.percentage = expected;
+    }
+  }
+
+  const clamped = Math.min(100, Math.max(0, repaired.percentage));
+  if (clamped !== repaired.percentage) {
+    issues.push({ path: 'calorieAnalysis.percentage', message: `out of range (${repaired.percentage}), clamped to ${clamped}` });
+    repaired.percentage = clamped;
+  }
+
+  return repaired;
+};
+
+const repairNutritionFacts = (facts: NutritionFacts, issues: ValidationIssue[]): NutritionFacts => {
+  const perServing = { ...facts.perServing };
+  for (const key of Object.keys(perServing) as (keyof NutrientAmounts)[]) {
+    const amount = perServing[key];
+    if (amount !== undefined && amount < 0) {
+      issues.push({ path: `nutritionFacts.perServing.${key}`, message: 'negative value clamped to 0' });
+      perServing[key] = 0;
+    }
+  }
+  return { ...facts, servingGrams: Math.max(0, facts.servingGrams), perServing };
+};
+
+// Checks a raw model/provider payload against ANALYSIS_RESPONSE_SCHEMA and
+// repairs what it safely can. Throws AnalysisValidationError otherwise.
+export const validateAnalysisResult = (raw: unknown): AnalysisResult => {
+  const issues: ValidationIssue[] = [];
+
+  const schema: Schema = {
+    ...ANALYSIS_RESPONSE_SCHEMA,
+    required: ANALYSIS_RESPONSE_SCHEMA.required?.filter((key) => !OPTIONAL_IN_RESULT.includes(key)),
+  };
+
+  const coerced = coerce(raw, schema, '', issues);
+  if (coerced === INVALID) {
+    throw new AnalysisValidationError(issues);
+  }
+
+  const result = coerced as AnalysisResult;
+  if (result.calorieAnalysis) {
+    result.calorieAnalysis = repairCalorieAnalysis(result.calorieAnalysis, issues);
+  }
+  if (result.healthScore) {
+    const clamped = Math.min(100, Math.max(0, result.healthScore.score));
+    if (clamped !== result.healthScore.score) {
+      issues.push({ path: 'healthScore.score', message: `out of range (${result.healthScore.score}), clamped to ${clamped}` });
+      result.healthScore.score = clamped;
+    }
+  }
+  if (result.product) {
+    const clamped = Math.min(100, Math.max(0, result.product.confidence));
+    if (clamped !== result.product.confidence) {
+      issues.push({ path: 'product.confidence', message: `out of range (${result.product.confidence}), clamped to ${clamped}` });
+      result.product.confidence = clamped;
+    }
+  }
+  if (result.nutritionFacts) {
+    result.nutritionFacts = repairNutritionFacts(result.nutritionFacts, issues);
+  }
+
+  if (issues.length > 0) {
+    console.warn("Analysis result repaired:", issues);
+  }
+
+  return result;
+};
+
+// Same checks for a comparison payload; an out-of-range bestIndex becomes -1
+// ("none") rather than pointing at the wrong product.
+export const validateComparisonVerdict = (raw: unknown, productCount: number): ComparisonVerdict => {
+  const issues: ValidationIssue[] = [];
+
+  const coerced = coerce(raw, COMPARISON_RESPONSE_SCHEMA, '', issues);
+  if (coerced === INVALID) {
+    throw new AnalysisValidationError(issues);
+  }
+
+  const verdict = coerced as ComparisonVerdict;
+  if (verdict.bestIndex < -1 || verdict.bestIndex >= productCount) {
+    issues.push({ path: 'bestIndex', message: `out of range (${verdict.bestIndex}), set to -1` });
+    verdict.bestIndex = -1;
+  }
+
+  if (issues.length > 0) {
+    console.warn("Comparison verdict repaired:", issues);
+  }
+
+  return verdict;
+};
+
+// Lenient check for the fields of a result that have finished streaming:
+// nothing is required and nothing is repaired or logged. The complete
+// payload still goes through validateAnalysisResult.
+export const validatePartialAnalysisResult = (raw: unknown): Partial<AnalysisResult> | null => {
+  const coerced = coerce(raw, { ...ANALYSIS_RESPONSE_SCHEMA, required: [] }, '', []);
+  return coerced === INVALID ? null : coerced as Partial<AnalysisResult>;
+};
@@ -0,0 +1,44 @@
+// Resolves after `ms`, or rejects with the signal's reason if aborted first.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  signal?: AbortSignal;
+}
+
+// Runs `fn`, retrying with exponential backoff (plus jitter) while
+// `shouldRetry` approves the error and attempts remain.
+export const withRetry = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  { retries, baseDelayMs, maxDelayMs, shouldRetry, signal }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(error)) throw error;
+
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      console.warn(`Attempt ${attempt + 1} failed, retrying in ${Math.round(delay)}ms`, error);
+      await sleep(delay, signal);
+    }
+  }
+};
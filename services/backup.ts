@@ -0,0 +1,200 @@
+import { AnalysisResult, BmrFormula, ChatMessage, Consumption, ScanHistoryItem, UserProfile } from "../types";
+import { validateAnalysisResult } from "./analysisSchema";
+import { HistoryMergeSummary, HistoryRecord, getAllHistoryRecords, mergeHistoryRecords } from "./historyStore";
+import { applyPer100g } from "./nutrition";
+import { migrateProfile } from "./profileStorage";
+import { applyHealthScore } from "./scoring";
+
+const BACKUP_FORMAT = 'vitalscope-backup';
+
+// v1: profile + history with thumbnails as data URLs
+export const BACKUP_VERSION = 1;
+
+type BackupHistoryItem = Omit<ScanHistoryItem, 'imagePreviewUrl'> & {
+  thumbnail?: string; // data URL
+};
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  profile: UserProfile | null;
+  history: BackupHistoryItem[];
+}
+
+export type BackupErrorReason = 'not-a-backup' | 'newer-version' | 'invalid';
+
+// Thrown by parseBackup; `reason` picks the message shown to the user
+export class BackupError extends Error {
+  readonly reason: BackupErrorReason;
+
+  constructor(reason: BackupErrorReason, message: string) {
+    super(message);
+    this.name = 'BackupError';
+    this.reason = reason;
+  }
+}
+
+export interface ParsedBackup {
+  version: number;
+  exportedAt: number;
+  profile: UserProfile | null; // Already migrated to the current profile version
+  records: HistoryRecord[];
+  skipped: number; // History entries that failed the shape or result check
+}
+
+export interface RestoreSummary extends HistoryMergeSummary {
+  skipped: number;
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob | undefined> => {
+  if (!dataUrl.startsWith('data:image/')) return undefined;
+  try {
+    return await (await fetch(dataUrl)).blob();
+  } catch (e) {
+    console.warn("Skipping unreadable thumbnail in backup", e);
+    return undefined;
+  }
+};
+
+export const createBackup = async (profile: UserProfile | null): Promise<BackupFile> => {
+  const records = await getAllHistoryRecords();
+  const history: BackupHistoryItem[] = [];
+  for (const { item, thumbnail } of records) {
+    history.push(thumbnail ? { ...item, thumbnail: await blobToDataUrl(thumbnail) } : item);
+  }
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), profile, history };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const BMR_FORMULAS: BmrFormula[] = ['mifflin-st-jeor', 'japanese-reference'];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isConsumption = (value: unknown): value is Consumption =>
+  isRecord(value) && typeof value.id === 'string' && isFiniteNumber(value.timestamp) && isFiniteNumber(value.portion) && value.portion > 0;
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  isRecord(value) && (value.role === 'user' || value.role === 'model') && typeof value.text === 'string' && isFiniteNumber(value.timestamp);
+
+// undefined when absent, null when present with the wrong type
+const optional = <T>(value: unknown, isValid: (v: unknown) => v is T): T | undefined | null =>
+  value === undefined ? undefined : isValid(value) ? value : null;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isArray = (value: unknown): value is unknown[] => Array.isArray(value);
+
+// A backup file can be edited by hand, so results go through the same schema
+// check as a fresh analysis. The schema only covers what the model answers:
+// fields set locally afterwards are derived again or copied when well-formed.
+const readResult = (raw: unknown): AnalysisResult | null => {
+  if (!isRecord(raw)) return null;
+  let result: AnalysisResult;
+  try {
+    result = validateAnalysisResult(raw);
+  } catch {
+    return null;
+  }
+
+  const product = isRecord(raw.product) ? raw.product : {};
+  if (result.product && product.correctedByUser === true) {
+    result = { ...result, product: { ...result.product, correctedByUser: true } };
+  }
+  const calorie = isRecord(raw.calorieAnalysis) ? raw.calorieAnalysis : {};
+  const formula = BMR_FORMULAS.find((f) => f === calorie.dailyNeedFormula);
+  if (result.calorieAnalysis && formula) {
+    result = { ...result, calorieAnalysis: { ...result.calorieAnalysis, dailyNeedFormula: formula } };
+  }
+  // Red is kept even for a good score: it was forced by an allergen match
+  const healthScore = isRecord(raw.healthScore) ? raw.healthScore : {};
+  return applyHealthScore(applyPer100g(result), healthScore.trafficLight === 'red');
+};
+
+// Rebuilds a history entry field by field, so nothing unchecked reaches the
+// store. Bad entries in the chat, food log and tags are dropped; a field of
+// the wrong type skips the whole entry, like a result that fails the schema.
+const readHistoryItem = (value: unknown): Omit<ScanHistoryItem, 'imagePreviewUrl'> | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !isFiniteNumber(value.timestamp)) return null;
+  const result = readResult(value.result);
+  const barcode = optional(value.barcode, isString);
+  const promptVersion = optional(value.promptVersion, isString);
+  const favorite = optional(value.favorite, isBoolean);
+  const note = optional(value.note, isString);
+  const chat = optional(value.chat, isArray);
+  const consumptions = optional(value.consumptions, isArray);
+  const tags = optional(value.tags, isArray);
+  if (!result || [barcode, promptVersion, favorite, note, chat, consumptions, tags].includes(null)) return null;
+
+  return {
+    id: value.id,
+    timestamp: value.timestamp,
+    result,
+    barcode: barcode ?? undefined,
+    promptVersion: promptVersion ?? undefined,
+    favorite: favorite ?? undefined,
+    note: note ?? undefined,
+    chat: chat?.filter(isChatMessage),
+    consumptions: consumptions?.filter(isConsumption),
+    tags: tags?.filter(isString),
+  };
+};
+
+// Reads a backup file's text. Invalid history entries are skipped rather than
+// failing the whole import; a file from a newer app version is rejected,
+// since its fields may mean something this version doesn't know.
+export const parseBackup = async (text: string): Promise<ParsedBackup> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError('not-a-backup', "File is not JSON.");
+  }
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new BackupError('not-a-backup', "File is not a VitalScope backup.");
+  }
+  if (typeof raw.version !== 'number' || raw.version < 1) {
+    throw new BackupError('invalid', `Unknown backup version ${String(raw.version)}.`);
+  }
+  if (raw.version > BACKUP_VERSION) {
+    throw new BackupError('newer-version', `Backup version ${raw.version} is newer than supported (${BACKUP_VERSION}).`);
+  }
+  if (!Array.isArray(raw.history)) {
+    throw new BackupError('invalid', "Backup has no history list.");
+  }
+
+  const records: HistoryRecord[] = [];
+  let skipped = 0;
+  for (const entry of raw.history) {
+    const item = readHistoryItem(entry);
+    if (!item) {
+      skipped++;
+      continue;
+    }
+    const { thumbnail } = entry as BackupHistoryItem;
+    records.push({ item, thumbnail: typeof thumbnail === 'string' ? await dataUrlToBlob(thumbnail) : undefined });
+  }
+
+  return {
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+    profile: isRecord(raw.profile) ? migrateProfile(raw.profile) : null,
+    records,
+    skipped,
+  };
+};
+
+export const restoreHistory = async (backup: ParsedBackup): Promise<RestoreSummary> => {
+  const summary = await mergeHistoryRecords(backup.records);
+  return { ...summary, skipped: backup.skipped };
+};
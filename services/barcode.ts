@@ -0,0 +1,217 @@
+import { loadImage } from "./imageProcessing";
+
+// EAN-13 / JAN barcode detection. Uses the native BarcodeDetector where the
+// browser has one, otherwise a small scanline decoder over the image pixels.
+
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const G_CODES = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const R_CODES = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+
+// Parity of the six left-hand digits (L = 0, G = 1) encodes the first digit
+const FIRST_DIGIT_BY_PARITY: Record<string, number> = {
+  '000000': 0, '001011': 1, '001101': 2, '001110': 3, '010011': 4,
+  '011001': 5, '011100': 6, '010101': 7, '010110': 8, '011010': 9,
+};
+
+// Max summed deviation, in modules, for a 4-run digit to count as a match
+const MAX_DIGIT_ERROR = 1.6;
+// Rows sampled across the middle of the image (and columns, for rotated shots)
+const SCAN_LINES = 24;
+
+interface DigitPattern {
+  digit: number;
+  parity: number;
+  runs: number[];
+}
+
+const toRuns = (bits: string): number[] => {
+  const runs: number[] = [];
+  for (let i = 0; i < bits.length; i++) {
+    if (i > 0 && bits[i] === bits[i - 1]) runs[runs.length - 1]++;
+    else runs.push(1);
+  }
+  return runs;
+};
+
+const LEFT_PATTERNS: DigitPattern[] = [
+  ...L_CODES.map((bits, digit) => ({ digit, parity: 0, runs: toRuns(bits) })),
+  ...G_CODES.map((bits, digit) => ({ digit, parity: 1, runs: toRuns(bits) })),
+];
+const RIGHT_PATTERNS: DigitPattern[] = R_CODES.map((bits, digit) => ({ digit, parity: 0, runs: toRuns(bits) }));
+
+export const isValidEan13 = (code: string): boolean => {
+  if (!/^\d{13}$/.test(code)) return false;
+  const sum = code
+    .slice(0, 12)
+    .split('')
+    .reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === Number(code[12]);
+};
+
+const matchDigit = (runs: number[], patterns: DigitPattern[]): DigitPattern | null => {
+  const unit = runs.reduce((a, b) => a + b, 0) / 7;
+  let best: DigitPattern | null = null;
+  let bestError = Infinity;
+  for (const pattern of patterns) {
+    const error = pattern.runs.reduce((acc, p, i) => acc + Math.abs(runs[i] / unit - p), 0);
+    if (error < bestError) {
+      bestError = error;
+      best = pattern;
+    }
+  }
+  return bestError <= MAX_DIGIT_ERROR ? best : null;
+};
+
+const isGuard = (runs: number[], module: number) => runs.every((r) => r > module * 0.4 && r < module * 1.8);
+
+// Run-length encodes one binarized scanline. Returns lengths plus whether the
+// first run is a bar (dark).
+const runLengths = (line: Float32Array): { lengths: number[]; firstIsBar: boolean } => {
+  let min = 255;
+  let max = 0;
+  for (const v of line) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const threshold = (min + max) / 2;
+  const lengths: number[] = [];
+  let current = line[0] < threshold;
+  const firstIsBar = current;
+  let length = 0;
+  for (const v of line) {
+    const isBar = v < threshold;
+    if (isBar === current) {
+      length++;
+    } else {
+      lengths.push(length);
+      current = isBar;
+      length = 1;
+    }
+  }
+  lengths.push(length);
+  return { lengths, firstIsBar };
+};
+
+const decodeLine = (line: Float32Array): string | null => {
+  if (line.length < 95) return null;
+  const { lengths, firstIsBar } = runLengths(line);
+
+  // Bars sit at even indices when the line starts dark, odd otherwise
+  for (let i = firstIsBar ? 0 : 1; i + 59 <= lengths.length; i += 2) {
+    const module = (lengths[i] + lengths[i + 1] + lengths[i + 2]) / 3;
+    if (!isGuard(lengths.slice(i, i + 3), module)) continue;
+    // Require some quiet zone before the start guard
+    if (i > 0 && lengths[i - 1] < module * 3) continue;
+    if (!isGuard(lengths.slice(i + 27, i + 32), module)) continue;
+
+    const left: DigitPattern[] = [];
+    for (let d = 0; d < 6; d++) {
+      const match = matchDigit(lengths.slice(i + 3 + d * 4, i + 7 + d * 4), LEFT_PATTERNS);
+      if (!match) break;
+      left.push(match);
+    }
+    if (left.length < 6) continue;
+
+    const right: DigitPattern[] = [];
+    for (let d = 0; d < 6; d++) {
+      const match = matchDigit(lengths.slice(i + 32 + d * 4, i + 36 + d * 4), RIGHT_PATTERNS);
+      if (!match) break;
+      right.push(match);
+    }
+    if (right.length < 6) continue;
+
+    const first = FIRST_DIGIT_BY_PARITY[left.map((p) => p.parity).join('')];
+    if (first === undefined) continue;
+
+    const code = `${first}${left.map((p) => p.digit).join('')}${right.map((p) => p.digit).join('')}`;
+    if (isValidEan13(code)) return code;
+  }
+  return null;
+};
+
+// Scans horizontal rows and vertical columns of a grayscale image, in both
+// directions so upside-down and rotated barcodes are found too.
+export const decodeEan13FromGray = (gray: Float32Array, width: number, height: number): string | null => {
+  const lines: Float32Array[] = [];
+  for (let n = 1; n <= SCAN_LINES; n++) {
+    const y = Math.floor((height * n) / (SCAN_LINES + 1));
+    lines.push(gray.slice(y * width, (y + 1) * width));
+  }
+  for (let n = 1; n <= SCAN_LINES; n++) {
+    const x = Math.floor((width * n) / (SCAN_LINES + 1));
+    const column = new Float32Array(height);
+    for (let y = 0; y < height; y++) column[y] = gray[y * width + x];
+    lines.push(column);
+  }
+
+  for (const line of lines) {
+    const code = decodeLine(line) ?? decodeLine(line.slice().reverse());
+    if (code) return code;
+  }
+  return null;
+};
+
+type BarcodeSource = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+// Minimal typing for the Shape Detection API, which isn't in lib.dom yet
+interface NativeBarcodeDetector {
+  detect(source: BarcodeSource): Promise<{ rawValue: string; format: string }[]>;
+}
+declare const BarcodeDetector: {
+  new (options: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+} | undefined;
+
+let nativeDetector: Promise<NativeBarcodeDetector | null> | null = null;
+
+const getNativeDetector = (): Promise<NativeBarcodeDetector | null> => {
+  if (!nativeDetector) {
+    nativeDetector = (async () => {
+      if (typeof BarcodeDetector === 'undefined') return null;
+      try {
+        const formats = await BarcodeDetector.getSupportedFormats();
+        return formats.includes('ean_13') ? new BarcodeDetector({ formats: ['ean_13'] }) : null;
+      } catch {
+        return null;
+      }
+    })();
+  }
+  return nativeDetector;
+};
+
+const toGray = (source: BarcodeSource) => {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || width === 0 || height === 0) return null;
+  ctx.drawImage(source, 0, 0);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { gray, width, height };
+};
+
+// Returns the first valid EAN-13/JAN code visible in the source, or null.
+export const detectBarcode = async (source: BarcodeSource): Promise<string | null> => {
+  const detector = await getNativeDetector();
+  if (detector) {
+    try {
+      const found = await detector.detect(source);
+      const code = found.map((b) => b.rawValue).find(isValidEan13);
+      if (code) return code;
+    } catch (e) {
+      console.warn("Native barcode detection failed, using fallback", e);
+    }
+  }
+
+  const image = toGray(source);
+  return image ? decodeEan13FromGray(image.gray, image.width, image.height) : null;
+};
+
+export const detectBarcodeInDataUrl = async (dataUrl: string): Promise<string | null> =>
+  detectBarcode(await loadImage(dataUrl));
@@ -0,0 +1,64 @@
+// 環境変数を安全に取得するヘルパー関数
+// Vite (import.meta.env) と process.env (AI Studioプレビュー等) の両方に対応
+export const getEnvVar = (viteName: string, processName: string): string => {
+  // 1. Vite環境 (Vercelデプロイ時など)
+  // @ts-ignore
+  if (typeof import.meta !== 'undefined' && import.meta.env?.[viteName]) {
+    // @ts-ignore
+    return import.meta.env[viteName];
+  }
+
+  // 2. 標準的なprocess.env (AI Studioプレビューや一部のビルド環境)
+  try {
+    // @ts-ignore
+    if (typeof process !== 'undefined' && process.env?.[processName]) {
+      // @ts-ignore
+      return process.env[processName];
+    }
+  } catch (e) {
+    // ブラウザでprocessが未定義の場合の参照エラーを無視
+  }
+
+  return '';
+};
+
+// True only in `vite build` output: not in the dev server, nor on the API proxy
+const isProductionBuild = (): boolean =>
+  // @ts-ignore
+  typeof import.meta !== 'undefined' && import.meta.env?.PROD === true;
+
+// On the API proxy (server/) the key comes from GEMINI_API_KEY, which is not
+// VITE_-prefixed and so never reaches the client bundle. Production builds
+// never read a browser-side key (vite.config.ts refuses to bundle one).
+export const getApiKey = (): string =>
+  (isProductionBuild() ? '' : getEnvVar('VITE_API_KEY', 'API_KEY')) || getEnvVar('', 'GEMINI_API_KEY');
+
+// 'gemini', 'proxy' or 'mock'. Production builds default to 'proxy' so the key
+// stays on the server; the dev server to the in-browser 'gemini'.
+// Set VITE_ANALYSIS_PROVIDER=mock to run fully offline.
+export const getAnalysisProviderName = (): string =>
+  getEnvVar('VITE_ANALYSIS_PROVIDER', 'ANALYSIS_PROVIDER') || (isProductionBuild() ? 'proxy' : 'gemini');
+
+// Where barcode lookups go after the local product cache:
+// '' (cache only, default), 'openfoodfacts', or a URL to a JSON dump keyed by barcode.
+export const getProductLookupSetting = (): string =>
+  getEnvVar('VITE_PRODUCT_LOOKUP', 'PRODUCT_LOOKUP');
+
+// Pins prompt template versions for A/B runs, e.g. "analysis=2,chat=1".
+// Prompts not listed use their latest version.
+export const getPromptVersionSetting = (): string =>
+  getEnvVar('VITE_PROMPT_VERSIONS', 'PROMPT_VERSIONS');
+
+// Overrides for the local photo quality check, e.g. "minBlurScore=30,minShortEdge=360".
+// Keys are those of QualityThresholds; unset ones keep their defaults.
+export const getQualityThresholdSetting = (): string =>
+  getEnvVar('VITE_QUALITY_THRESHOLDS', 'QUALITY_THRESHOLDS');
+
+// Base URL of the API proxy for the 'proxy' provider; same origin when empty.
+export const getProxyUrl = (): string =>
+  getEnvVar('VITE_PROXY_URL', 'PROXY_URL').replace(/\/+$/, '');
+
+// Server only: the model behind the API proxy, 'gemini' (default) or 'stub'
+// for the offline mock, so the proxy can run locally without a key.
+export const getProxyModelName = (): string =>
+  getEnvVar('', 'PROXY_MODEL') || 'gemini';
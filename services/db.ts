@@ -0,0 +1,58 @@
+const DB_NAME = 'vitalscope';
+// v1: history
+// v2: products (barcode cache)
+// v3: results (analysis cache)
+// v4: scanQueue (scans captured while offline)
+const DB_VERSION = 4;
+
+export const HISTORY_STORE = 'history';
+export const PRODUCTS_STORE = 'products';
+export const RESULTS_STORE = 'results';
+export const SCAN_QUEUE_STORE = 'scanQueue';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          history.createIndex('timestamp', 'timestamp');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(PRODUCTS_STORE, { keyPath: 'barcode' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(RESULTS_STORE, { keyPath: 'key' });
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore(SCAN_QUEUE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return requestToPromise(fn(db.transaction(storeName, mode).objectStore(storeName)));
+};
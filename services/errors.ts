@@ -0,0 +1,151 @@
+export type AnalysisErrorKind =
+  | 'missing-api-key'
+  | 'rate-limit'
+  | 'network'
+  | 'service-unavailable'
+  | 'safety-block'
+  | 'empty-response'
+  | 'invalid-response'
+  | 'timeout'
+  | 'cancelled'
+  | 'payload-too-large'
+  | 'unknown';
+
+interface AnalysisErrorOptions {
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+// Base class for everything analyzeHealthImpact can throw. `kind` drives the
+// inline error card; `retryable` decides whether withRetry tries again.
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: AnalysisErrorKind, message: string, { retryable = false, cause }: AnalysisErrorOptions = {}) {
+    super(message, { cause });
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+interface MissingApiKeyOptions {
+  variable?: string; // Env variable holding the key, shown on the error card
+  invalid?: boolean; // Set but rejected by the API
+  cause?: unknown;
+}
+
+export class MissingApiKeyError extends AnalysisError {
+  readonly variable?: string;
+
+  constructor({ variable, invalid = false, cause }: MissingApiKeyOptions = {}) {
+    const problem = invalid ? "APIキーが無効です。" : "APIキーが見つかりません。";
+    super('missing-api-key', variable ? `${problem}環境変数 '${variable}' を確認してください。` : problem, { cause });
+    this.name = 'MissingApiKeyError';
+    this.variable = variable;
+  }
+}
+
+export class RateLimitError extends AnalysisError {
+  constructor(cause?: unknown) {
+    super('rate-limit', "AIの利用回数の上限に達しました。しばらく待ってからもう一度お試しください。", { retryable: true, cause });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class NetworkError extends AnalysisError {
+  constructor(cause?: unknown) {
+    super('network', "ネットワークに接続できませんでした。通信環境を確認してください。", { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class ServiceUnavailableError extends AnalysisError {
+  constructor(cause?: unknown) {
+    super('service-unavailable', "AIサービスが一時的に利用できません。しばらく待ってからもう一度お試しください。", { retryable: true, cause });
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class SafetyBlockError extends AnalysisError {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super('safety-block', "安全上の理由により、この画像は解析できませんでした。", {});
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+export class EmptyResponseError extends AnalysisError {
+  constructor() {
+    super('empty-response', "AIから応答がありませんでした。", { retryable: true });
+    this.name = 'EmptyResponseError';
+  }
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Thrown when a provider's response cannot be coerced into an AnalysisResult.
+export class AnalysisValidationError extends AnalysisError {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super('invalid-response', "AIの応答形式が正しくありませんでした。もう一度お試しください。");
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+export class AnalysisTimeoutError extends AnalysisError {
+  constructor() {
+    super('timeout', "解析がタイムアウトしました。通信環境の良い場所でもう一度お試しください。");
+    this.name = 'AnalysisTimeoutError';
+  }
+}
+
+export class AnalysisCancelledError extends AnalysisError {
+  constructor() {
+    super('cancelled', "解析をキャンセルしました。");
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+// The request to the API proxy was over its size limit
+export class PayloadTooLargeError extends AnalysisError {
+  constructor() {
+    super('payload-too-large', "画像のサイズが大きすぎます。枚数を減らしてもう一度お試しください。");
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+// What fetch() and reading its body throw when the connection fails, per
+// engine: Chrome, Firefox, Safari, Node (undici), and a stream cut off mid-body.
+const FETCH_FAILURE_MESSAGE = /failed to fetch|fetch failed|networkerror when attempting|load failed|network error|network connection was lost/i;
+
+// Only transport failures count: any other TypeError is a bug, and retrying
+// it or queueing the scan for "when the connection returns" would never end.
+const isFetchFailure = (error: unknown): boolean => {
+  let current = error;
+  // The SDK and undici wrap the original failure in `cause`
+  for (let depth = 0; current instanceof Error && depth < 3; depth++) {
+    if (current instanceof TypeError && FETCH_FAILURE_MESSAGE.test(current.message)) return true;
+    current = current.cause;
+  }
+  return false;
+};
+
+// Normalizes anything thrown by a provider into an AnalysisError.
+export const toAnalysisError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+
+  if (isFetchFailure(error) || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new NetworkError(error);
+  }
+
+  return new AnalysisError('unknown', "解析中にエラーが発生しました。しばらく待ってからもう一度お試しください。", { cause: error });
+};
@@ -0,0 +1,84 @@
+import { AnalysisResult, Consumption, NutrientAmounts, ScanHistoryItem } from "../types";
+
+// Multiples of a serving offered when logging
+export const PORTION_OPTIONS = [0.5, 1, 1.5, 2];
+
+export type DailyNutrients = Required<NutrientAmounts>;
+
+export interface LoggedFood {
+  item: ScanHistoryItem;
+  consumption: Consumption;
+  nutrients: DailyNutrients;
+}
+
+export interface DailyLog {
+  date: number; // Local midnight
+  totals: DailyNutrients;
+  foods: LoggedFood[];
+}
+
+const emptyNutrients = (): DailyNutrients => ({
+  energyKcal: 0,
+  proteinG: 0,
+  fatG: 0,
+  carbohydrateG: 0,
+  sugarG: 0,
+  fiberG: 0,
+  saltEquivalentG: 0,
+});
+
+export const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Midnight `days` days after `dayStart`. Goes through Date so DST days stay aligned.
+export const addDays = (dayStart: number, days: number): number => {
+  const date = new Date(dayStart);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+// What one portion contributes. Energy falls back to the calorie card for
+// results without a nutrition table; missing nutrients count as 0.
+export const nutrientsFor = (result: AnalysisResult, portion: number): DailyNutrients => {
+  const perServing = result.nutritionFacts?.perServing;
+  const totals = emptyNutrients();
+  totals.energyKcal = (perServing?.energyKcal ?? result.calorieAnalysis?.productCalories ?? 0) * portion;
+  if (perServing) {
+    for (const key of Object.keys(totals) as (keyof DailyNutrients)[]) {
+      if (key !== 'energyKcal') totals[key] = (perServing[key] ?? 0) * portion;
+    }
+  }
+  return totals;
+};
+
+// One DailyLog per day for the `days` days ending today, oldest first,
+// including days with nothing logged.
+export const summarizeDays = (items: ScanHistoryItem[], days: number, now = Date.now()): DailyLog[] => {
+  const today = startOfDay(now);
+  const logs: DailyLog[] = Array.from({ length: days }, (_, i) => ({
+    date: addDays(today, i - days + 1),
+    totals: emptyNutrients(),
+    foods: [],
+  }));
+  const byDate = new Map(logs.map((log) => [log.date, log]));
+
+  for (const item of items) {
+    for (const consumption of item.consumptions ?? []) {
+      const log = byDate.get(startOfDay(consumption.timestamp));
+      if (!log) continue;
+      const nutrients = nutrientsFor(item.result, consumption.portion);
+      log.foods.push({ item, consumption, nutrients });
+      for (const key of Object.keys(nutrients) as (keyof DailyNutrients)[]) {
+        log.totals[key] += nutrients[key];
+      }
+    }
+  }
+
+  for (const log of logs) {
+    log.foods.sort((a, b) => a.consumption.timestamp - b.consumption.timestamp);
+  }
+  return logs;
+};
@@ -1,163 +1,259 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { UserProfile, AnalysisResult } from "../types";
-
-const parseBase64 = (base64String: string) => {
-  if (base64String.startsWith('data:')) {
-    const base64Data = base64String.split(',')[1];
-    const mimeType = base64String.substring(base64String.indexOf(':') + 1, base64String.indexOf(';'));
-    return { data: base64Data, mimeType };
+import { UserProfile, AnalysisResult, ChatMessage, ComparisonVerdict, Locale, ProductCorrection, ProductInfo } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { validateAnalysisResult, validateComparisonVerdict, validatePartialAnalysisResult } from "./analysisSchema";
+import { withRetry } from "./async";
+import { getAnalysisProviderName } from "./config";
+import {
+  AnalysisCancelledError,
+  AnalysisError,
+  AnalysisTimeoutError,
+  AnalysisValidationError,
+  EmptyResponseError,
+  toAnalysisError,
+} from "./errors";
+import { EnergyEstimate, applyDailyNeed, applyPer100g, estimateDailyEnergy } from "./nutrition";
+import { matchAllergens } from "./allergens";
+import { applyHealthScore } from "./scoring";
+import { applyProductCorrection } from "./productIdentification";
+import { cacheProduct, lookupProduct } from "./productLookup";
+import { getCachedResult, putCachedResult, resultCacheKey } from "./resultCache";
+import { getPromptTemplate, promptVersionKey } from "./prompts";
+import { parseCompletedFields } from "./partialJson";
+import { geminiProvider } from "./providers/geminiProvider";
+import { mockProvider } from "./providers/mockProvider";
+import { proxyProvider } from "./providers/proxyProvider";
+
+const PROVIDERS: Record<string, AnalysisProvider> = {
+  [geminiProvider.name]: geminiProvider,
+  [mockProvider.name]: mockProvider,
+  [proxyProvider.name]: proxyProvider,
+};
+
+// Overall deadline for one analysis, retries included
+const DEFAULT_TIMEOUT_MS = 60_000;
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRY_MAX_DELAY_MS = 8_000;
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  barcode?: string; // EAN-13/JAN decoded from the images or live camera
+  locale?: Locale; // Language for the model's text; defaults to Japanese
+  productCorrection?: ProductCorrection; // What the user says the product is, after a wrong identification
+  // Called while streaming with every field completed so far. Not final:
+  // the full result is still validated and may differ.
+  onPartial?: (partial: Partial<AnalysisResult>) => void;
+}
+
+export interface CachedAnalyzeOptions extends AnalyzeOptions {
+  bypassCache?: boolean; // Always call the provider, then refresh the cached entry
+}
+
+export interface AnalysisOutcome {
+  result: AnalysisResult;
+  fromCache: boolean;
+  promptVersion: string; // Analysis prompt the result came from, see services/prompts
+}
+
+export const getAnalysisProvider = (): AnalysisProvider => {
+  const name = getAnalysisProviderName();
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    console.warn(`Unknown analysis provider "${name}", falling back to gemini.`);
+    return geminiProvider;
   }
-  // Fallback assuming jpeg if raw string
-  return { data: base64String, mimeType: 'image/jpeg' };
+  return provider;
 };
 
-// APIキーを安全に取得するヘルパー関数
-const getApiKey = (): string => {
-  // 1. Vite環境 (Vercelデプロイ時など)
-  // @ts-ignore
-  if (typeof import.meta !== 'undefined' && import.meta.env?.VITE_API_KEY) {
-    // @ts-ignore
-    return import.meta.env.VITE_API_KEY;
+// Validation plus every locally computed field, in dependency order:
+// per-100g values feed the Nutri grade, allergens can force the traffic light.
+const finalizeResult = (
+  raw: unknown,
+  profile: UserProfile,
+  knownProduct: ProductInfo | null,
+  correction?: ProductCorrection
+): AnalysisResult => {
+  let result = validateAnalysisResult(raw);
+  if (correction && !result.imageQualityCheck.isUnclear) {
+    result = applyProductCorrection(result, correction);
+  }
+  // Prefer stored facts for a known barcode so re-scans stay identical
+  if (knownProduct?.nutritionFacts && !result.imageQualityCheck.isUnclear) {
+    result = { ...result, nutritionFacts: knownProduct.nutritionFacts };
   }
+  result = applyDailyNeed(applyPer100g(result), estimateDailyEnergy(profile));
+  const hasAllergenMatch = matchAllergens(result.ingredients ?? [], profile.allergies).length > 0;
+  return applyHealthScore(result, hasAllergenMatch);
+};
+
+// Remembers label-derived nutrition for a barcode we had no data for
+const learnProduct = (barcode: string, result: AnalysisResult) => {
+  if (result.nutritionFacts?.source !== 'label') return;
+  const { per100g, ...nutritionFacts } = result.nutritionFacts;
+  cacheProduct({ barcode, nutritionFacts, source: 'scan', updatedAt: Date.now() })
+    .catch((e) => console.warn("Failed to cache product", e));
+};
+
+// Runs `fn` under one controller for both the caller's cancel signal and our
+// timeout, and maps whatever it throws onto the error taxonomy.
+const withDeadline = async <T>(
+  signal: AbortSignal | undefined,
+  timeoutMs: number,
+  fn: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
 
-  // 2. 標準的なprocess.env (AI Studioプレビューや一部のビルド環境)
   try {
-    // @ts-ignore
-    if (typeof process !== 'undefined' && process.env?.API_KEY) {
-      // @ts-ignore
-      return process.env.API_KEY;
+    return await fn(controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw timedOut ? new AnalysisTimeoutError() : new AnalysisCancelledError();
+    }
+    throw toAnalysisError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const retryTransient = <T>(fn: () => Promise<T>, signal: AbortSignal): Promise<T> =>
+  withRetry(fn, {
+    retries: MAX_RETRIES,
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    maxDelayMs: RETRY_MAX_DELAY_MS,
+    shouldRetry: (error) => error instanceof AnalysisError && error.retryable,
+    signal,
+  });
+
+// Calorie card as it will end up, so the streamed preview doesn't jump
+const previewPartial = (partial: Partial<AnalysisResult>, estimate: EnergyEstimate | null): Partial<AnalysisResult> =>
+  partial.calorieAnalysis ? applyDailyNeed(partial as AnalysisResult, estimate) : partial;
+
+// Reads a provider's streamed JSON to the end, reporting completed fields
+// along the way.
+const readAnalysisStream = async (
+  stream: AsyncIterable<string>,
+  onPartial?: (partial: Partial<AnalysisResult>) => void,
+  estimate: EnergyEstimate | null = null
+): Promise<unknown> => {
+  let text = '';
+  let reportedFields = 0;
+  for await (const chunk of stream) {
+    text += chunk;
+    if (!onPartial) continue;
+    const completed = parseCompletedFields(text);
+    const count = completed ? Object.keys(completed).length : 0;
+    if (count > reportedFields) {
+      reportedFields = count;
+      const partial = validatePartialAnalysisResult(completed);
+      if (partial) onPartial(previewPartial(partial, estimate));
     }
-  } catch (e) {
-    // ブラウザでprocessが未定義の場合の参照エラーを無視
   }
 
-  return '';
+  if (!text) {
+    throw new EmptyResponseError();
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AnalysisValidationError([{ path: '', message: 'response is not valid JSON' }]);
+  }
 };
 
-export const analyzeHealthImpact = async (
+export const analyzeHealthImpact = (
   profile: UserProfile,
-  images: string[]
+  images: string[],
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, barcode, locale, productCorrection, onPartial }: AnalyzeOptions = {}
 ): Promise<AnalysisResult> => {
-  const apiKey = getApiKey();
+  const provider = getAnalysisProvider();
 
-  if (!apiKey) {
-    throw new Error("APIキーが見つかりません。VercelのEnvironment Variablesに 'VITE_API_KEY' を設定してください。");
-  }
+  return withDeadline(signal, timeoutMs, async (deadline) => {
+    const knownProduct = barcode ? await lookupProduct(barcode, deadline) : null;
+    // A retry restarts the stream; the preview just fills in again
+    const raw = await retryTransient(
+      () => readAnalysisStream(
+        provider.analyze({ profile, images, signal: deadline, barcode, knownProduct, locale, productCorrection }),
+        onPartial,
+        estimateDailyEnergy(profile)
+      ),
+      deadline
+    );
+    const result = finalizeResult(raw, profile, knownProduct, productCorrection);
+    if (barcode && !knownProduct?.nutritionFacts) {
+      learnProduct(barcode, result);
+    }
+    return result;
+  });
+};
 
-  const ai = new GoogleGenAI({ apiKey });
-
-  // Extended Schema definition
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      imageQualityCheck: {
-        type: Type.OBJECT,
-        properties: {
-          isUnclear: { type: Type.BOOLEAN, description: "True if the image is too blurry, dark, or the product cannot be identified." },
-          reason: { type: Type.STRING, description: "Reason why the image is unclear (if applicable)." }
-        },
-        required: ["isUnclear", "reason"]
-      },
-      calorieAnalysis: {
-        type: Type.OBJECT,
-        properties: {
-          productCalories: { type: Type.INTEGER, description: "Estimated calories of the product in kcal. If unknown, estimate based on product type." },
-          userDailyNeed: { type: Type.INTEGER, description: "Estimated Total Daily Energy Expenditure (TDEE) for this specific user based on age, gender, and context." },
-          percentage: { type: Type.INTEGER, description: "What percentage of the daily need does this product represent?" },
-          note: { type: Type.STRING, description: "Brief explanation of the calorie estimation (e.g. 'Standard value for 100g of chocolate')." }
-        },
-        required: ["productCalories", "userDailyNeed", "percentage", "note"]
-      },
-      summary: {
-        type: Type.STRING,
-        description: "A concise summary of the product analysis (approx 200 characters).",
-      },
-      pros: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING },
-        description: "List of health benefits/pros for this specific user.",
-      },
-      cons: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING },
-        description: "List of health risks/cons for this specific user.",
-      },
-      recommendations: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING, description: "Name of a recommended product on Amazon." },
-            reason: { type: Type.STRING, description: "Short reason why this is good for the user." },
-          },
-          required: ["name", "reason"],
-        },
-        description: "3 recommended products available on Amazon relevant to the user's needs.",
-      },
-    },
-    required: ["imageQualityCheck", "calorieAnalysis", "summary", "pros", "cons", "recommendations"],
-  };
-
-  const systemInstruction = `
-    あなたは熟練したヘルスケアアドバイザーです。
-    ユーザーから提供された商品画像（成分表示やパッケージ）とプロフィールを分析し、健康への影響を評価してください。
-
-    ユーザープロフィール:
-    - 年齢: ${profile.age}
-    - 性別: ${profile.gender}
-    - 健康状態/悩み/文脈: ${profile.healthContext}
-
-    ### 画像分析ルール:
-    1. **画像の品質チェック**: 画像が不鮮明、暗すぎる、または商品が全く識別できない場合は、JSONの \`imageQualityCheck.isUnclear\` を true にしてください。その場合、他のフィールドは空またはダミーデータで構いません。
-    
-    2. **成分表示がない場合**:
-       - 成分表示ラベルが見当たらない場合は、商品のパッケージや外見から**商品を特定**してください。
-       - 特定した商品の**一般的・平均的な栄養情報**（Web上の一般的なデータ）を内部知識から引用して分析を行ってください。
-       - 推測に基づく場合は、\`calorieAnalysis.note\` や \`summary\` に「成分表示がないため、同種の一般的な商品の数値を参照しました」と明記してください。
-
-    ### カロリー分析ルール:
-    1. ユーザーのプロフィールと「健康状態/悩み」のテキスト（運動習慣の有無など）から、**1日の推定消費カロリー（TDEE）**を計算してください。
-    2. 商品のカロリー（ラベルから取得、または一般的数値から推測）が、そのTDEEの何%に当たるかを算出してください。
-
-    ### 出力要件:
-    - 回答はすべて日本語で行ってください。
-    - メリット・デメリットはユーザーの「健康状態/悩み」に寄り添った内容にしてください。
-  `;
-
-  const imageParts = images.map((img) => {
-    const { data, mimeType } = parseBase64(img);
-    return {
-      inlineData: {
-        data,
-        mimeType,
-      },
-    };
+// Asks the model which of several analyzed products suits the user best.
+export const compareProducts = (
+  profile: UserProfile,
+  results: AnalysisResult[],
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, locale }: Pick<AnalyzeOptions, 'signal' | 'timeoutMs' | 'locale'> = {}
+): Promise<ComparisonVerdict> => {
+  const provider = getAnalysisProvider();
+
+  return withDeadline(signal, timeoutMs, async (deadline) => {
+    const raw = await retryTransient(() => provider.compare({ profile, results, signal: deadline, locale }), deadline);
+    return validateComparisonVerdict(raw, results.length);
   });
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          ...imageParts,
-          { text: "この商品の画像を分析してください。成分表示がない場合は、商品名から一般的な数値を推測してください。" }
-        ]
-      },
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-      },
-    });
-
-    const text = response.text;
-    if (!text) {
-      throw new Error("No response from AI");
-    }
+// analyzeHealthImpact behind a browser-side cache keyed by the images and the
+// profile, so scanning the same package twice gives the same verdict without
+// a second model call. Editing the profile or switching language changes the key.
+export const analyzeWithCache = async (
+  profile: UserProfile,
+  images: string[],
+  { bypassCache = false, ...options }: CachedAnalyzeOptions = {}
+): Promise<AnalysisOutcome> => {
+  const promptVersion = promptVersionKey(getPromptTemplate('analysis'));
+  const key = await resultCacheKey(
+    getAnalysisProvider().name,
+    promptVersion,
+    options.locale ?? 'ja',
+    profile,
+    images,
+    options.barcode,
+    options.productCorrection
+  );
+
+  if (key && !bypassCache) {
+    const cached = await getCachedResult(key);
+    if (cached) return { result: cached, fromCache: true, promptVersion };
+  }
 
-    return JSON.parse(text) as AnalysisResult;
+  const result = await analyzeHealthImpact(profile, images, options);
+  // Unclear photos are retaken anyway; don't pin that verdict
+  if (key && !result.imageQualityCheck.isUnclear) {
+    putCachedResult(key, profile, result).catch((e) => console.warn("Failed to cache result", e));
+  }
+  return { result, fromCache: false, promptVersion };
+};
+
+// Streams the answer to the last question in `messages`. Not retried: part of
+// the answer may already be on screen when a transient error hits.
+export async function* streamFollowUp(
+  profile: UserProfile,
+  images: string[],
+  result: AnalysisResult,
+  messages: ChatMessage[],
+  { signal, locale }: { signal?: AbortSignal; locale?: Locale } = {}
+): AsyncGenerator<string> {
+  try {
+    yield* getAnalysisProvider().chat({ profile, images, result, messages, signal, locale });
   } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw new Error("解析中にエラーが発生しました。しばらく待ってからもう一度お試しください。");
+    if (signal?.aborted) throw new AnalysisCancelledError();
+    throw toAnalysisError(error);
   }
-};
\ No newline at end of file
+}
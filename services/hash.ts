@@ -0,0 +1,29 @@
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+// FNV-1a 32bit over a sequence of strings, as 8 hex digits. Not
+// cryptographic and collides easily: only for fixture keys and bookkeeping,
+// never for a key that picks which data is shown.
+export const fnv1a = (parts: string[]): string => {
+  let hash = FNV_OFFSET_BASIS;
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) {
+      hash ^= part.charCodeAt(i);
+      hash = Math.imul(hash, FNV_PRIME);
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Hash over all image payloads. Images are already resized and re-encoded
+// by preprocessImage, so the same photo always yields the same hash.
+export const hashImages = (images: string[]): string => fnv1a(images);
+
+// SHA-256 over a sequence of strings, as 64 hex digits. null where
+// SubtleCrypto is missing (plain-http origins other than localhost).
+export const sha256 = async (parts: string[]): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  // JSON keeps ["ab", "c"] and ["a", "bc"] apart
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
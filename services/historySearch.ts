@@ -0,0 +1,126 @@
+import { ScanHistoryItem, TrafficLight } from "../types";
+import { addDays } from "./foodLog";
+import { trafficLightFor } from "./scoring";
+
+export type HistorySort = 'newest' | 'oldest' | 'score-desc' | 'score-asc' | 'kcal-desc' | 'kcal-asc';
+
+export interface HistoryFilters {
+  text: string; // Whitespace-separated terms, all of which must match
+  trafficLight: TrafficLight | 'all';
+  from: string; // yyyy-mm-dd from <input type="date">, '' = open-ended
+  to: string; // Inclusive
+  minKcal: number | null;
+  maxKcal: number | null;
+  minScore: number | null;
+  maxScore: number | null;
+  favoritesOnly: boolean;
+  tag: string | null;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+  text: '',
+  trafficLight: 'all',
+  from: '',
+  to: '',
+  minKcal: null,
+  maxKcal: null,
+  minScore: null,
+  maxScore: null,
+  favoritesOnly: false,
+  tag: null,
+};
+
+// Whether anything narrows the list, so the caller knows to load every page
+export const hasActiveFilters = (filters: HistoryFilters): boolean =>
+  (Object.keys(EMPTY_HISTORY_FILTERS) as (keyof HistoryFilters)[]).some(
+    (key) => filters[key] !== EMPTY_HISTORY_FILTERS[key]
+  );
+
+// Same fallback as the food log: label energy, else the calorie card
+export const itemCalories = (item: ScanHistoryItem): number | undefined =>
+  item.result.nutritionFacts?.perServing.energyKcal ?? item.result.calorieAnalysis?.productCalories;
+
+// NFKC folds full-width letters and half-width kana, so "ｺｰﾗ" finds "コーラ"
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase();
+
+const searchableText = ({ result, tags, note }: ScanHistoryItem): string =>
+  normalize([
+    result.product?.name ?? '',
+    result.product?.brand ?? '',
+    result.summary,
+    ...result.pros,
+    ...result.cons,
+    ...result.recommendations.map((r) => r.name),
+    ...(tags ?? []),
+    note ?? '',
+  ].join('\n'));
+
+// yyyy-mm-dd as local midnight, matching how the date inputs read to the user
+const parseDate = (value: string): number | null => {
+  const [year, month, day] = value.split('-').map(Number);
+  return year && month && day ? new Date(year, month - 1, day).getTime() : null;
+};
+
+const inRange = (value: number | undefined, min: number | null, max: number | null): boolean => {
+  if (min === null && max === null) return true;
+  // Items without the value can't be placed in a range, so they drop out
+  if (value === undefined) return false;
+  return (min === null || value >= min) && (max === null || value <= max);
+};
+
+export const matchesHistoryFilters = (item: ScanHistoryItem, filters: HistoryFilters): boolean => {
+  const score = item.result.healthScore;
+  if (filters.trafficLight !== 'all' && (!score || (score.trafficLight ?? trafficLightFor(score.score)) !== filters.trafficLight)) {
+    return false;
+  }
+  if (filters.favoritesOnly && !item.favorite) return false;
+  if (filters.tag !== null && !item.tags?.includes(filters.tag)) return false;
+
+  const from = parseDate(filters.from);
+  const to = parseDate(filters.to);
+  if (from !== null && item.timestamp < from) return false;
+  if (to !== null && item.timestamp >= addDays(to, 1)) return false;
+
+  if (!inRange(itemCalories(item), filters.minKcal, filters.maxKcal)) return false;
+  if (!inRange(score?.score, filters.minScore, filters.maxScore)) return false;
+
+  const terms = normalize(filters.text).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const text = searchableText(item);
+  return terms.every((term) => text.includes(term));
+};
+
+// Items missing the sort value (scanned before scoring existed, or with no
+// calorie data) go last in either direction.
+const compareOptional = (a: number | undefined, b: number | undefined, descending: boolean): number => {
+  if (a === undefined) return b === undefined ? 0 : 1;
+  if (b === undefined) return -1;
+  return descending ? b - a : a - b;
+};
+
+export const sortHistory = (items: ScanHistoryItem[], sort: HistorySort): ScanHistoryItem[] =>
+  [...items].sort((a, b) => {
+    switch (sort) {
+      case 'newest': return b.timestamp - a.timestamp;
+      case 'oldest': return a.timestamp - b.timestamp;
+      case 'score-desc':
+      case 'score-asc':
+        return compareOptional(a.result.healthScore?.score, b.result.healthScore?.score, sort === 'score-desc');
+      case 'kcal-desc':
+      case 'kcal-asc':
+        return compareOptional(itemCalories(a), itemCalories(b), sort === 'kcal-desc');
+    }
+  });
+
+// Every tag in use, most used first, for the filter chips and editor suggestions
+export const collectTags = (items: ScanHistoryItem[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const tag of item.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+// Tag input is comma/、-separated; trims, drops empties and duplicates
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(/[,、，]/).map((tag) => tag.trim()).filter(Boolean))];
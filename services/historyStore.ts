@@ -0,0 +1,190 @@
+import { ScanHistoryItem } from "../types";
+import { HISTORY_STORE, openDb, requestToPromise, withStore } from "./db";
+import { createThumbnail } from "./imageProcessing";
+
+const LEGACY_HISTORY_KEY = 'sukoyaka_history';
+
+export const HISTORY_PAGE_SIZE = 20;
+
+// What actually lives in IndexedDB: the thumbnail is kept as a Blob and only
+// turned into an object URL (imagePreviewUrl) when loaded for display.
+interface StoredHistoryItem extends Omit<ScanHistoryItem, 'imagePreviewUrl'> {
+  thumbnail?: Blob;
+}
+
+export interface HistoryPage {
+  items: ScanHistoryItem[];
+  hasMore: boolean;
+}
+
+const toHistoryItem = ({ thumbnail, ...item }: StoredHistoryItem): ScanHistoryItem => ({
+  ...item,
+  imagePreviewUrl: thumbnail ? URL.createObjectURL(thumbnail) : undefined,
+});
+
+export const addHistoryItem = async (item: Omit<ScanHistoryItem, 'imagePreviewUrl'>, thumbnail?: Blob): Promise<void> => {
+  const stored: StoredHistoryItem = { ...item, thumbnail };
+  await withStore(HISTORY_STORE, 'readwrite', (store) => store.put(stored));
+};
+
+// Newest-first page of history. Walks the timestamp index backwards and skips
+// `offset` entries, so pages stay stable while new scans are prepended.
+export const getHistoryPage = async (offset: number, limit = HISTORY_PAGE_SIZE): Promise<HistoryPage> => {
+  const db = await openDb();
+  const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index('timestamp');
+
+  return new Promise((resolve, reject) => {
+    const items: ScanHistoryItem[] = [];
+    let skipped = offset === 0;
+    const request = index.openCursor(null, 'prev');
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ items, hasMore: false });
+        return;
+      }
+      if (!skipped) {
+        skipped = true;
+        cursor.advance(offset);
+        return;
+      }
+      if (items.length === limit) {
+        resolve({ items, hasMore: true });
+        return;
+      }
+      items.push(toHistoryItem(cursor.value));
+      cursor.continue();
+    };
+  });
+};
+
+// Every item with a food log entry at or after `since`. Consumptions can be
+// logged long after the scan, so this walks the whole store, not the index.
+export const getHistoryItemsConsumedSince = async (since: number): Promise<ScanHistoryItem[]> => {
+  const db = await openDb();
+  const store = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE);
+
+  return new Promise((resolve, reject) => {
+    const items: ScanHistoryItem[] = [];
+    const request = store.openCursor();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(items);
+        return;
+      }
+      const stored: StoredHistoryItem = cursor.value;
+      if (stored.consumptions?.some((c) => c.timestamp >= since)) {
+        items.push(toHistoryItem(stored));
+      }
+      cursor.continue();
+    };
+  });
+};
+
+// Merges `changes` into a stored item, keeping its thumbnail
+export const updateHistoryItem = async (
+  id: string,
+  changes: Partial<Omit<ScanHistoryItem, 'id' | 'imagePreviewUrl'>>
+): Promise<void> => {
+  const db = await openDb();
+  const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+  const stored = await requestToPromise<StoredHistoryItem | undefined>(store.get(id));
+  if (!stored) return;
+  await requestToPromise(store.put({ ...stored, ...changes }));
+};
+
+// A stored item with its thumbnail Blob, for backups
+export interface HistoryRecord {
+  item: Omit<ScanHistoryItem, 'imagePreviewUrl'>;
+  thumbnail?: Blob;
+}
+
+export const getAllHistoryRecords = async (): Promise<HistoryRecord[]> => {
+  const stored = await withStore<StoredHistoryItem[]>(HISTORY_STORE, 'readonly', (store) => store.getAll());
+  return stored
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(({ thumbnail, ...item }) => ({ item, thumbnail }));
+};
+
+export interface HistoryMergeSummary {
+  added: number;
+  merged: number; // Already present: only food log entries and a longer chat were taken over
+}
+
+// Writes imported records, deduplicated by id. An item that already exists
+// keeps its own scan data; consumptions are merged by id and the longer
+// follow-up thread wins, so importing the same backup twice changes nothing.
+export const mergeHistoryRecords = async (records: HistoryRecord[]): Promise<HistoryMergeSummary> => {
+  const db = await openDb();
+  const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+  const summary: HistoryMergeSummary = { added: 0, merged: 0 };
+
+  for (const { item, thumbnail } of records) {
+    const existing = await requestToPromise<StoredHistoryItem | undefined>(store.get(item.id));
+    if (!existing) {
+      const stored: StoredHistoryItem = { ...item, thumbnail };
+      await requestToPromise(store.put(stored));
+      summary.added++;
+      continue;
+    }
+
+    const knownConsumptions = new Set(existing.consumptions?.map((c) => c.id));
+    const newConsumptions = (item.consumptions ?? []).filter((c) => !knownConsumptions.has(c.id));
+    const longerChat = (item.chat?.length ?? 0) > (existing.chat?.length ?? 0);
+    if (newConsumptions.length === 0 && !longerChat) continue;
+
+    await requestToPromise(store.put({
+      ...existing,
+      consumptions: [...(existing.consumptions ?? []), ...newConsumptions].sort((a, b) => a.timestamp - b.timestamp),
+      chat: longerChat ? item.chat : existing.chat,
+      thumbnail: existing.thumbnail ?? thumbnail,
+    }));
+    summary.merged++;
+  }
+  return summary;
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+export const clearHistoryStore = async (): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', (store) => store.clear());
+};
+
+const dataUrlToThumbnail = async (dataUrl?: string): Promise<Blob | undefined> => {
+  if (!dataUrl) return undefined;
+  try {
+    return await createThumbnail(dataUrl);
+  } catch (e) {
+    console.warn("Skipping unreadable legacy thumbnail", e);
+    return undefined;
+  }
+};
+
+// One-time move of the old localStorage history (full-size base64 images,
+// max 20 items) into IndexedDB. The legacy key is removed only after every
+// item has been written.
+export const migrateLegacyHistory = async (): Promise<void> => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return;
+
+  let legacy: ScanHistoryItem[];
+  try {
+    legacy = JSON.parse(saved);
+  } catch (e) {
+    console.error("Discarding unreadable legacy history", e);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return;
+  }
+
+  for (const { imagePreviewUrl, ...item } of legacy) {
+    await addHistoryItem(item, await dataUrlToThumbnail(imagePreviewUrl));
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
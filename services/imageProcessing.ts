@@ -0,0 +1,133 @@
+// Longest edge of images sent for analysis, in px. Enough to read small label text.
+export const UPLOAD_MAX_SIZE = 1600;
+const UPLOAD_QUALITY = 0.82;
+
+// Longest edge of history thumbnails, in px
+export const THUMBNAIL_MAX_SIZE = 240;
+const THUMBNAIL_QUALITY = 0.7;
+
+export interface PreprocessOptions {
+  maxSize?: number;
+  quality?: number;
+}
+
+export interface ProcessedImage {
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  originalBytes: number;
+  processedBytes: number;
+}
+
+// Thrown when the browser cannot decode the file at all (e.g. HEIC outside Safari)
+export class UnsupportedImageError extends Error {
+  readonly fileName: string;
+
+  constructor(fileName: string) {
+    super(`「${fileName}」はこのブラウザで読み込めない形式です。JPEGまたはPNGで保存し直すか、カメラの設定で「互換性優先」を選んでください。`);
+    this.name = 'UnsupportedImageError';
+    this.fileName = fileName;
+  }
+}
+
+type DecodedImage = ImageBitmap | HTMLImageElement;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode image"));
+    img.src = src;
+  });
+
+// Decodes with EXIF orientation applied, so portrait phone photos aren't
+// sideways once the pixels are redrawn (re-encoding drops the EXIF tag).
+const decode = async (source: Blob | string): Promise<DecodedImage> => {
+  if (typeof source !== 'string' && typeof createImageBitmap === 'function') {
+    return createImageBitmap(source, { imageOrientation: 'from-image' });
+  }
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+  try {
+    // <img> honours EXIF orientation by default in current browsers
+    return await loadImage(url);
+  } finally {
+    if (typeof source !== 'string') URL.revokeObjectURL(url);
+  }
+};
+
+const sizeOf = (img: DecodedImage) =>
+  img instanceof HTMLImageElement ? { width: img.naturalWidth, height: img.naturalHeight } : { width: img.width, height: img.height };
+
+// Draws the image onto a canvas no larger than maxSize on its longest edge
+const drawScaled = (img: DecodedImage, maxSize: number): HTMLCanvasElement => {
+  const { width, height } = sizeOf(img);
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  if ('close' in img) img.close();
+  return canvas;
+};
+
+let webpSupported: boolean | undefined;
+
+// Safari < 14 silently falls back to PNG for unsupported toDataURL types
+const supportsWebp = (): boolean => {
+  if (webpSupported === undefined) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    webpSupported = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpSupported;
+};
+
+const outputMimeType = () => (supportsWebp() ? 'image/webp' : 'image/jpeg');
+
+// Approximate decoded size of a base64 data URL
+const dataUrlBytes = (dataUrl: string) => Math.round((dataUrl.length - dataUrl.indexOf(',') - 1) * 0.75);
+
+// Resizes, orients and re-encodes a picked/captured photo before it is
+// previewed and uploaded. Any format the browser can decode (PNG, HEIC on
+// Safari, AVIF...) comes out as WebP, or JPEG where WebP encoding is missing.
+export const preprocessImage = async (
+  file: File,
+  { maxSize = UPLOAD_MAX_SIZE, quality = UPLOAD_QUALITY }: PreprocessOptions = {}
+): Promise<ProcessedImage> => {
+  let img: DecodedImage;
+  try {
+    img = await decode(file);
+  } catch (e) {
+    throw new UnsupportedImageError(file.name);
+  }
+
+  const canvas = drawScaled(img, maxSize);
+  const mimeType = outputMimeType();
+  const dataUrl = canvas.toDataURL(mimeType, quality);
+
+  return {
+    dataUrl,
+    mimeType,
+    width: canvas.width,
+    height: canvas.height,
+    originalBytes: file.size,
+    processedBytes: dataUrlBytes(dataUrl),
+  };
+};
+
+// Small JPEG Blob for history cards, produced by the same resize path.
+export const createThumbnail = async (source: Blob | string, maxSize = THUMBNAIL_MAX_SIZE): Promise<Blob> => {
+  const canvas = drawScaled(await decode(source), maxSize);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode thumbnail"))),
+      'image/jpeg',
+      THUMBNAIL_QUALITY
+    );
+  });
+};
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`;
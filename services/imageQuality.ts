@@ -0,0 +1,103 @@
+import { getQualityThresholdSetting } from "./config";
+import { loadImage } from "./imageProcessing";
+
+export interface QualityThresholds {
+  minBlurScore: number; // Laplacian variance on the analysis-size grayscale image
+  minLuminance: number; // Mean luma, 0-255
+  maxLuminance: number;
+  minShortEdge: number; // px, after preprocessing
+}
+
+// Tuned on phone photos of Japanese labels; sharp label shots typically score
+// well above 100, hand-shake blur lands under 40.
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minBlurScore: 50,
+  minLuminance: 50,
+  maxLuminance: 235,
+  minShortEdge: 480,
+};
+
+const parseThresholdSetting = (setting: string): Partial<QualityThresholds> =>
+  Object.fromEntries(
+    setting
+      .split(',')
+      .map((entry) => entry.split('=').map((part) => part.trim()))
+      .filter(([key, value]) => key in DEFAULT_QUALITY_THRESHOLDS && value !== '' && Number.isFinite(Number(value)))
+      .map(([key, value]) => [key, Number(value)])
+  );
+
+// Defaults with any overrides from VITE_QUALITY_THRESHOLDS applied
+export const getQualityThresholds = (): QualityThresholds => ({
+  ...DEFAULT_QUALITY_THRESHOLDS,
+  ...parseThresholdSetting(getQualityThresholdSetting()),
+});
+
+export type QualityIssue = 'blurry' | 'too-dark' | 'too-bright' | 'too-small';
+
+export interface ImageQualityReport {
+  blurScore: number;
+  luminance: number;
+  width: number;
+  height: number;
+  issues: QualityIssue[];
+}
+
+// Both metrics are computed on a downscaled copy to keep this fast on phones
+const ANALYSIS_SIZE = 512;
+
+const toGrayscale = (img: HTMLImageElement) => {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(3, Math.round(img.naturalWidth * scale));
+  const height = Math.max(3, Math.round(img.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    // ITU-R BT.601 luma
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { gray, width, height };
+};
+
+const mean = (values: Float32Array) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Variance of the 4-neighbour Laplacian: low variance means few sharp edges, i.e. blur
+const laplacianVariance = (gray: Float32Array, width: number, height: number): number => {
+  const lap = new Float32Array((width - 2) * (height - 2));
+  let k = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      lap[k++] = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+    }
+  }
+  const m = mean(lap);
+  return lap.reduce((sum, v) => sum + (v - m) ** 2, 0) / lap.length;
+};
+
+// Cheap local check run on every preview so an obviously unusable photo can
+// be retaken before it costs a model round-trip.
+export const assessImageQuality = async (
+  dataUrl: string,
+  thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS
+): Promise<ImageQualityReport> => {
+  const img = await loadImage(dataUrl);
+  const { gray, width, height } = toGrayscale(img);
+
+  const blurScore = Math.round(laplacianVariance(gray, width, height));
+  const luminance = Math.round(mean(gray));
+  const issues: QualityIssue[] = [];
+
+  if (blurScore < thresholds.minBlurScore) issues.push('blurry');
+  if (luminance < thresholds.minLuminance) issues.push('too-dark');
+  if (luminance > thresholds.maxLuminance) issues.push('too-bright');
+  if (Math.min(img.naturalWidth, img.naturalHeight) < thresholds.minShortEdge) issues.push('too-small');
+
+  return { blurScore, luminance, width: img.naturalWidth, height: img.naturalHeight, issues };
+};
@@ -0,0 +1,30 @@
+const NOTIFICATION_ICON = '/icons/icon-192.png';
+
+// Asked when a scan is queued, so the user knows why a prompt appears
+export const requestNotificationPermission = () => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  Notification.requestPermission().catch((e) => console.warn("Notification permission request failed", e));
+};
+
+// System notification for news that arrives while the app is in the
+// background; the in-app banner covers the foreground. Mobile browsers only
+// allow notifications through the service worker.
+export const showBackgroundNotification = async (title: string, body: string): Promise<void> => {
+  if (
+    typeof Notification === 'undefined' ||
+    Notification.permission !== 'granted' ||
+    document.visibilityState === 'visible'
+  ) {
+    return;
+  }
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, { body, icon: NOTIFICATION_ICON });
+    } else {
+      new Notification(title, { body, icon: NOTIFICATION_ICON });
+    }
+  } catch (e) {
+    console.warn("Failed to show notification", e);
+  }
+};
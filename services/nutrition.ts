@@ -0,0 +1,157 @@
+import { ActivityLevel, AnalysisResult, BmrFormula, NutrientAmounts, UserProfile } from "../types";
+
+export interface EnergyEstimate {
+  bmr: number; // kcal/day
+  tdee: number; // kcal/day
+  formula: BmrFormula;
+  activityLevel: ActivityLevel;
+  activityFactor: number;
+  activityAssumed: boolean; // True when the profile has no activity level set
+}
+
+// Multipliers applied to BMR to get total daily energy expenditure
+export const ACTIVITY_FACTORS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9,
+};
+
+const DEFAULT_ACTIVITY_LEVEL: ActivityLevel = 'light';
+
+// 基礎代謝基準値 (kcal/kg/day) by minimum age, from 日本人の食事摂取基準
+const JAPANESE_BMR_REFERENCE: { minAge: number; male: number; female: number }[] = [
+  { minAge: 75, male: 21.5, female: 20.7 },
+  { minAge: 65, male: 21.6, female: 20.7 },
+  { minAge: 50, male: 21.8, female: 20.7 },
+  { minAge: 30, male: 22.5, female: 21.9 },
+  { minAge: 18, male: 23.7, female: 22.1 },
+  { minAge: 15, male: 27.0, female: 25.3 },
+  { minAge: 12, male: 31.0, female: 29.6 },
+  { minAge: 10, male: 37.4, female: 34.8 },
+  { minAge: 8, male: 40.8, female: 38.3 },
+  { minAge: 6, male: 44.3, female: 41.9 },
+  { minAge: 3, male: 54.8, female: 52.2 },
+  { minAge: 1, male: 61.0, female: 59.7 },
+];
+
+// Parses a numeric profile field, rejecting blanks and values outside [min, max]
+const parseMeasure = (value: string, min: number, max: number): number | null => {
+  const num = parseFloat(value);
+  return Number.isFinite(num) && num >= min && num <= max ? num : null;
+};
+
+// For 'other'/unset gender we take the midpoint of the male and female values
+const bySex = (gender: UserProfile['gender'], male: number, female: number) =>
+  gender === 'male' ? male : gender === 'female' ? female : (male + female) / 2;
+
+// Computes BMR/TDEE from the profile. Uses Mifflin-St Jeor when height is
+// known, otherwise the Japanese reference table. Returns null without
+// age/weight, in which case the model's estimate is kept.
+export const estimateDailyEnergy = (profile: UserProfile): EnergyEstimate | null => {
+  const age = parseMeasure(profile.age, 1, 120);
+  const weight = parseMeasure(profile.weightKg, 10, 300);
+  const height = parseMeasure(profile.heightCm, 50, 250);
+  if (age === null || weight === null) return null;
+
+  let bmr: number;
+  let formula: BmrFormula;
+  if (height !== null && age >= 18) {
+    formula = 'mifflin-st-jeor';
+    bmr = 10 * weight + 6.25 * height - 5 * age + bySex(profile.gender, 5, -161);
+  } else {
+    formula = 'japanese-reference';
+    const ref = JAPANESE_BMR_REFERENCE.find((r) => age >= r.minAge) ?? JAPANESE_BMR_REFERENCE[JAPANESE_BMR_REFERENCE.length - 1];
+    bmr = bySex(profile.gender, ref.male, ref.female) * weight;
+  }
+
+  const activityLevel = profile.activityLevel || DEFAULT_ACTIVITY_LEVEL;
+  const activityFactor = ACTIVITY_FACTORS[activityLevel];
+
+  return {
+    bmr: Math.round(bmr),
+    tdee: Math.round(bmr * activityFactor),
+    formula,
+    activityLevel,
+    activityFactor,
+    activityAssumed: !profile.activityLevel,
+  };
+};
+
+// Share of the daily need, rounded and clamped to 0–100 like the calorie ring expects
+export const percentageOfDailyNeed = (productCalories: number, dailyNeed: number): number => {
+  if (dailyNeed <= 0) return 0;
+  return Math.min(100, Math.max(0, Math.round((productCalories / dailyNeed) * 100)));
+};
+
+// Replaces the model's per-scan TDEE guess with the locally computed one so
+// results stay comparable across scans.
+export const applyDailyNeed = (result: AnalysisResult, estimate: EnergyEstimate | null): AnalysisResult => {
+  if (!estimate || !result.calorieAnalysis) return result;
+
+  return {
+    ...result,
+    calorieAnalysis: {
+      ...result.calorieAnalysis,
+      userDailyNeed: estimate.tdee,
+      percentage: percentageOfDailyNeed(result.calorieAnalysis.productCalories, estimate.tdee),
+      dailyNeedFormula: estimate.formula,
+    },
+  };
+};
+
+export type NutrientKey = keyof NutrientAmounts;
+
+// Display order and units for the nutrition table; names are in the i18n catalogs
+export const NUTRIENTS: { key: NutrientKey; unit: string }[] = [
+  { key: 'energyKcal', unit: 'kcal' },
+  { key: 'proteinG', unit: 'g' },
+  { key: 'fatG', unit: 'g' },
+  { key: 'carbohydrateG', unit: 'g' },
+  { key: 'sugarG', unit: 'g' },
+  { key: 'fiberG', unit: 'g' },
+  { key: 'saltEquivalentG', unit: 'g' },
+];
+
+// 栄養素等表示基準値 energy, used when the profile is too sparse for a TDEE
+const DEFAULT_ENERGY_KCAL = 2200;
+
+// Conditions for which guidelines call for < 6g salt per day
+const LOW_SALT_CONDITIONS = ['hypertension', 'kidney_disease', 'heart_disease'];
+
+// Personal daily reference intake per nutrient, loosely following 日本人の食事摂取基準:
+// protein 推奨量, fat 25% / carbohydrate 57.5% of energy, sugar under 10% of
+// energy (WHO free sugars), fiber and salt 目標量.
+export const dailyReferenceIntake = (profile: UserProfile): Required<NutrientAmounts> => {
+  const energy = estimateDailyEnergy(profile)?.tdee ?? DEFAULT_ENERGY_KCAL;
+  const lowSalt = profile.conditions.some((c) => LOW_SALT_CONDITIONS.includes(c));
+
+  return {
+    energyKcal: energy,
+    proteinG: bySex(profile.gender, 65, 50),
+    fatG: Math.round((energy * 0.25) / 9),
+    carbohydrateG: Math.round((energy * 0.575) / 4),
+    sugarG: Math.round((energy * 0.1) / 4),
+    fiberG: bySex(profile.gender, 21, 18),
+    saltEquivalentG: lowSalt ? 6 : bySex(profile.gender, 7.5, 6.5),
+  };
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// Fills nutritionFacts.per100g from the per-serving values when the serving
+// weight is known, so products with different pack sizes can be compared.
+export const applyPer100g = (result: AnalysisResult): AnalysisResult => {
+  const facts = result.nutritionFacts;
+  if (!facts || facts.servingGrams <= 0) return result;
+
+  const factor = 100 / facts.servingGrams;
+  const per100g = Object.fromEntries(
+    Object.entries(facts.perServing)
+      .filter(([, amount]) => amount !== undefined)
+      .map(([key, amount]) => [key, round1(amount * factor)])
+  ) as unknown as NutrientAmounts;
+
+  return { ...result, nutritionFacts: { ...facts, per100g } };
+};
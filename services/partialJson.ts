@@ -0,0 +1,41 @@
+// Parses the top-level properties of a JSON object that have been streamed
+// completely so far. A property counts as complete once the comma after it
+// (or the closing brace) has arrived, so half-received strings and arrays
+// never show up. Returns null until the first property is complete.
+export const parseCompletedFields = (text: string): Record<string, unknown> | null => {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let lastBoundary = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 0) {
+        lastBoundary = i;
+        break;
+      }
+    } else if (ch === ',' && depth === 1) {
+      lastBoundary = i;
+    }
+  }
+
+  if (lastBoundary < 0) return null;
+  try {
+    const parsed = JSON.parse(`${text.slice(0, lastBoundary)}}`);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,24 @@
+import { AnalysisResult, ProductCorrection, ProductIdentification } from "../types";
+
+// Below this the result header asks the user to check the identification
+export const LOW_CONFIDENCE_THRESHOLD = 60;
+
+export const isLowConfidence = (product: ProductIdentification): boolean =>
+  !product.correctedByUser && (!product.name || product.confidence < LOW_CONFIDENCE_THRESHOLD);
+
+// The user's correction wins over whatever the model answered, including
+// when it was asked to use the corrected name and didn't.
+export const applyProductCorrection = (result: AnalysisResult, correction: ProductCorrection): AnalysisResult => ({
+  ...result,
+  product: {
+    name: correction.name,
+    brand: correction.brand,
+    category: correction.category,
+    confidence: 100,
+    correctedByUser: true,
+  },
+});
+
+// Trims the form input; null when there's no name to correct to
+export const normalizeCorrection = ({ name, brand, category }: ProductCorrection): ProductCorrection | null =>
+  name.trim() ? { name: name.trim(), brand: brand.trim(), category } : null;
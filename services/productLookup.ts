@@ -0,0 +1,123 @@
+import { NutritionFacts, ProductInfo } from "../types";
+import { getProductLookupSetting } from "./config";
+import { PRODUCTS_STORE, withStore } from "./db";
+
+// A barcode → product database. Implementations must resolve null (not
+// throw) for unknown barcodes.
+export interface ProductLookupSource {
+  readonly name: string;
+  lookup(barcode: string, signal?: AbortSignal): Promise<ProductInfo | null>;
+}
+
+const OPEN_FOOD_FACTS_URL = 'https://world.openfoodfacts.org/api/v2/product';
+
+interface OpenFoodFactsNutriments {
+  'energy-kcal_100g'?: number;
+  proteins_100g?: number;
+  fat_100g?: number;
+  carbohydrates_100g?: number;
+  sugars_100g?: number;
+  fiber_100g?: number;
+  salt_100g?: number;
+}
+
+const fromOpenFoodFactsNutriments = (n: OpenFoodFactsNutriments): NutritionFacts | undefined => {
+  if (n['energy-kcal_100g'] === undefined || n.salt_100g === undefined) return undefined;
+  return {
+    servingSize: '100gあたり',
+    servingGrams: 100,
+    perServing: {
+      energyKcal: n['energy-kcal_100g'],
+      proteinG: n.proteins_100g ?? 0,
+      fatG: n.fat_100g ?? 0,
+      carbohydrateG: n.carbohydrates_100g ?? 0,
+      sugarG: n.sugars_100g,
+      fiberG: n.fiber_100g,
+      saltEquivalentG: n.salt_100g,
+    },
+    source: 'label',
+  };
+};
+
+export const openFoodFactsSource: ProductLookupSource = {
+  name: 'openfoodfacts',
+
+  async lookup(barcode, signal) {
+    const fields = 'product_name,product_name_ja,brands,nutriments';
+    const response = await fetch(`${OPEN_FOOD_FACTS_URL}/${barcode}.json?fields=${fields}`, { signal });
+    if (!response.ok) return null;
+    const json = await response.json();
+    if (json.status !== 1 || !json.product) return null;
+
+    const product = json.product;
+    return {
+      barcode,
+      name: product.product_name_ja || product.product_name || undefined,
+      brand: product.brands || undefined,
+      nutritionFacts: product.nutriments ? fromOpenFoodFactsNutriments(product.nutriments) : undefined,
+      source: 'openfoodfacts',
+      updatedAt: Date.now(),
+    };
+  },
+};
+
+// Serves products from a static JSON file shaped as { [barcode]: Partial<ProductInfo> },
+// e.g. a dump shipped in public/. Fetched once and kept in memory.
+export const createJsonDumpSource = (url: string): ProductLookupSource => {
+  let dump: Promise<Record<string, Partial<ProductInfo>>> | null = null;
+
+  return {
+    name: `json:${url}`,
+
+    async lookup(barcode) {
+      if (!dump) {
+        dump = fetch(url).then((res) => (res.ok ? res.json() : {}));
+        dump.catch(() => {
+          dump = null;
+        });
+      }
+      const entry = (await dump)[barcode];
+      return entry ? { ...entry, barcode, source: this.name, updatedAt: Date.now() } : null;
+    },
+  };
+};
+
+// One source per dump URL, so its in-memory copy survives between lookups
+const jsonDumpSources = new Map<string, ProductLookupSource>();
+
+export const getProductLookupSource = (): ProductLookupSource | null => {
+  const setting = getProductLookupSetting();
+  if (!setting) return null;
+  if (setting === openFoodFactsSource.name) return openFoodFactsSource;
+  let source = jsonDumpSources.get(setting);
+  if (!source) {
+    source = createJsonDumpSource(setting);
+    jsonDumpSources.set(setting, source);
+  }
+  return source;
+};
+
+export const getCachedProduct = async (barcode: string): Promise<ProductInfo | null> =>
+  (await withStore<ProductInfo | undefined>(PRODUCTS_STORE, 'readonly', (store) => store.get(barcode))) ?? null;
+
+export const cacheProduct = async (product: ProductInfo): Promise<void> => {
+  await withStore(PRODUCTS_STORE, 'readwrite', (store) => store.put(product));
+};
+
+// Local cache first, then the configured source; remote hits are cached.
+// Best-effort: failures are logged and treated as "unknown product".
+export const lookupProduct = async (barcode: string, signal?: AbortSignal): Promise<ProductInfo | null> => {
+  try {
+    const cached = await getCachedProduct(barcode);
+    if (cached) return cached;
+
+    const source = getProductLookupSource();
+    const product = source ? await source.lookup(barcode, signal) : null;
+    if (product) await cacheProduct(product);
+    return product;
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn(`Product lookup failed for ${barcode}`, e);
+    return null;
+  }
+};
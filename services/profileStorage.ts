@@ -0,0 +1,73 @@
+import { DietaryStyle, UserProfile } from "../types";
+import { ACTIVITY_LEVELS, DIETARY_STYLES } from "../constants";
+
+const PROFILE_KEY = 'sukoyaka_profile';
+
+// v1: { age, gender, healthContext }
+// v2: adds height/weight, activity level, allergies, conditions, dietary styles and goals
+export const PROFILE_VERSION = 2;
+
+export const createEmptyProfile = (): UserProfile => ({
+  version: PROFILE_VERSION,
+  age: '',
+  gender: '',
+  heightCm: '',
+  weightKg: '',
+  activityLevel: '',
+  allergies: [],
+  conditions: [],
+  dietaryStyles: [],
+  goals: [],
+  healthContext: '',
+});
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const isDietaryStyle = (id: string): id is DietaryStyle => DIETARY_STYLES.some((d) => d.id === id);
+
+// Upgrades any previously stored profile record to the current shape.
+// Unknown or missing fields fall back to empty values. Activity levels and
+// dietary styles the app doesn't know are dropped, since the energy estimate
+// looks them up directly; an unset level uses the default one there.
+export const migrateProfile = (raw: unknown): UserProfile => {
+  const empty = createEmptyProfile();
+  if (typeof raw !== 'object' || raw === null) return empty;
+  const stored = raw as Partial<Record<keyof UserProfile, unknown>>;
+
+  return {
+    ...empty,
+    age: typeof stored.age === 'string' ? stored.age : String(stored.age ?? ''),
+    gender: (['male', 'female', 'other'] as const).find((g) => g === stored.gender) ?? '',
+    heightCm: typeof stored.heightCm === 'string' ? stored.heightCm : '',
+    weightKg: typeof stored.weightKg === 'string' ? stored.weightKg : '',
+    activityLevel: ACTIVITY_LEVELS.find((a) => a.id === stored.activityLevel)?.id ?? '',
+    allergies: asStringArray(stored.allergies),
+    conditions: asStringArray(stored.conditions),
+    dietaryStyles: asStringArray(stored.dietaryStyles).filter(isDietaryStyle),
+    goals: asStringArray(stored.goals),
+    healthContext: typeof stored.healthContext === 'string' ? stored.healthContext : '',
+  };
+};
+
+export const loadProfile = (): UserProfile | null => {
+  const saved = localStorage.getItem(PROFILE_KEY);
+  if (!saved) return null;
+
+  try {
+    const raw = JSON.parse(saved);
+    const profile = migrateProfile(raw);
+    // Persist the upgraded record so the migration only runs once
+    if (raw?.version !== PROFILE_VERSION) {
+      saveProfile(profile);
+    }
+    return profile;
+  } catch (e) {
+    console.error("Failed to load profile", e);
+    return null;
+  }
+};
+
+export const saveProfile = (profile: UserProfile) => {
+  localStorage.setItem(PROFILE_KEY, JSON.stringify({ ...profile, version: PROFILE_VERSION }));
+};
@@ -0,0 +1,24 @@
+import { PromptTemplate } from "./types";
+import { OUTPUT_LANGUAGES, formatProfile } from "./format";
+
+export const chatPromptV1: PromptTemplate<'chat'> = {
+  id: 'chat',
+  version: 1,
+  render: ({ profile, locale, result }) => ({
+    systemInstruction: `
+      あなたは熟練したヘルスケアアドバイザーです。
+      ユーザーは以下の商品の分析結果を見たうえで、追加の質問をしています。
+
+      ユーザープロフィール:
+      ${formatProfile(profile)}
+
+      ### 分析結果（JSON）:
+      ${JSON.stringify(result)}
+
+      ### 回答ルール:
+      - 回答はすべて${OUTPUT_LANGUAGES[locale]}で、簡潔に答えてください。
+      - 分析結果とプロフィールに基づいて答え、分からないことは推測せずにそう伝えてください。
+      - 薬との飲み合わせや治療に関わる質問には一般的な情報のみを伝え、必ず医師・薬剤師への相談を勧めてください。
+    `,
+  }),
+};
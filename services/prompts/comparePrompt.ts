@@ -0,0 +1,38 @@
+import { AnalysisResult } from "../../types";
+import { PromptTemplate } from "./types";
+import { OUTPUT_LANGUAGES, formatProfile } from "./format";
+
+// Only what matters for the decision; recommendations etc. would just add noise
+const toComparedProduct = (result: AnalysisResult, index: number) => ({
+  index,
+  summary: result.summary,
+  calorieAnalysis: result.calorieAnalysis,
+  nutritionFacts: result.nutritionFacts,
+  healthScore: result.healthScore,
+  ingredients: result.ingredients,
+  pros: result.pros,
+  cons: result.cons,
+});
+
+export const comparePromptV1: PromptTemplate<'compare'> = {
+  id: 'compare',
+  version: 1,
+  render: ({ profile, locale, results }) => ({
+    systemInstruction: `
+      あなたは熟練したヘルスケアアドバイザーです。
+      ユーザーは店頭で以下の商品のどれを選ぶか迷っています。それぞれの分析結果とプロフィールを比較し、このユーザーにとって最も適した商品を1つ選んでください。
+
+      ユーザープロフィール:
+      ${formatProfile(profile)}
+
+      ### 比較ルール:
+      - ユーザーのアレルギーに該当する商品は選ばないでください。すべて該当する場合は \`bestIndex\` を -1 にしてください。
+      - 持病・目標・食事スタイルとの適合度を最優先し、次に栄養成分（特に食塩相当量、脂質、糖質）を比較してください。
+      - \`reason\` では、選んだ商品が他と比べてなぜ良いのかを具体的な数値を挙げて説明してください。
+
+      ### 出力要件:
+      - 回答はすべて${OUTPUT_LANGUAGES[locale]}で行ってください。
+    `,
+    userText: JSON.stringify(results.map(toComparedProduct)),
+  }),
+};
@@ -0,0 +1,56 @@
+import { Locale, ProductCorrection, ProductInfo, UserProfile } from "../../types";
+import { ACTIVITY_LEVELS, ALLERGENS, CONDITIONS, DIETARY_STYLES, GOALS, PRODUCT_CATEGORIES, labelsFor } from "../../constants";
+
+// Output language as named inside the Japanese prompts
+export const OUTPUT_LANGUAGES: Record<Locale, string> = {
+  ja: '日本語',
+  en: '英語',
+  zh: '中国語（簡体字）',
+  ko: '韓国語',
+};
+
+const listOrNone = (labels: string[]) => (labels.length > 0 ? labels.join('、') : 'なし');
+
+// Renders the structured profile as prompt lines. Unset fields are marked as
+// such so the model doesn't invent them differently on every scan.
+export const formatProfile = (profile: UserProfile): string => {
+  const activity = ACTIVITY_LEVELS.find((a) => a.id === profile.activityLevel);
+  return [
+    `- 年齢: ${profile.age}`,
+    `- 性別: ${profile.gender}`,
+    `- 身長: ${profile.heightCm ? `${profile.heightCm}cm` : '未入力'}`,
+    `- 体重: ${profile.weightKg ? `${profile.weightKg}kg` : '未入力'}`,
+    `- 活動レベル: ${activity ? `${activity.label}（${activity.description}）` : '未入力'}`,
+    `- アレルギー: ${listOrNone(labelsFor(ALLERGENS, profile.allergies))}`,
+    `- 持病・気になる数値: ${listOrNone(labelsFor(CONDITIONS, profile.conditions))}`,
+    `- 食事スタイル: ${listOrNone(labelsFor(DIETARY_STYLES, profile.dietaryStyles))}`,
+    `- 目標: ${listOrNone(labelsFor(GOALS, profile.goals))}`,
+    `- 健康状態/悩み/文脈: ${profile.healthContext}`,
+  ].join('\n      ');
+};
+
+// Extra context when the product was identified by barcode
+export const formatProductContext = (barcode?: string, product?: ProductInfo | null): string => {
+  if (!barcode) return '';
+  const lines = [`### 商品コード:`, `- JANコード: ${barcode}`];
+  if (product?.name) lines.push(`- 商品名: ${product.name}`);
+  if (product?.brand) lines.push(`- メーカー: ${product.brand}`);
+  if (product?.nutritionFacts) {
+    lines.push(`- 登録済みの栄養成分（${product.nutritionFacts.servingSize}）: ${JSON.stringify(product.nutritionFacts.perServing)}`);
+    lines.push(`- 登録済みの情報は確認済みのデータです。画像から読み取れない場合もこの値を使ってください。`);
+  }
+  return lines.join('\n      ');
+};
+
+// The user's correction of a wrong identification; overrides what the images suggest
+export const formatProductCorrection = (correction?: ProductCorrection): string => {
+  if (!correction) return '';
+  const lines = [
+    `### ユーザーによる商品の訂正:`,
+    `- 商品名: ${correction.name}`,
+  ];
+  if (correction.brand) lines.push(`- メーカー: ${correction.brand}`);
+  lines.push(`- カテゴリ: ${labelsFor(PRODUCT_CATEGORIES, [correction.category])[0]}`);
+  lines.push(`- 前回の分析では商品を取り違えていました。画像の見た目よりこの情報を優先し、この商品として分析してください。`);
+  return lines.join('\n      ');
+};
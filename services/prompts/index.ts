@@ -0,0 +1,41 @@
+import { getPromptVersionSetting } from "../config";
+import { PromptId, PromptTemplate } from "./types";
+import { analysisPromptV1, analysisPromptV2 } from "./analysisPrompt";
+import { chatPromptV1 } from "./chatPrompt";
+import { comparePromptV1 } from "./comparePrompt";
+
+export type { PromptId, PromptTemplate, PromptVars, RenderedPrompt } from "./types";
+
+// Every shipped version, oldest first. Old versions stay registered so a
+// history item's prompt can still be rendered and compared.
+export const PROMPT_REGISTRY: { [Id in PromptId]: PromptTemplate<Id>[] } = {
+  analysis: [analysisPromptV1, analysisPromptV2],
+  chat: [chatPromptV1],
+  compare: [comparePromptV1],
+};
+
+// "analysis@1"; stored on history items
+export const promptVersionKey = (template: PromptTemplate): string => `${template.id}@${template.version}`;
+
+const parseVersionSetting = (setting: string): Partial<Record<PromptId, number>> =>
+  Object.fromEntries(
+    setting
+      .split(',')
+      .map((entry) => entry.split('=').map((part) => part.trim()))
+      .filter(([id, version]) => id in PROMPT_REGISTRY && /^\d+$/.test(version ?? ''))
+      .map(([id, version]) => [id, Number(version)])
+  );
+
+export const getPromptTemplate = <Id extends PromptId>(id: Id, version?: number): PromptTemplate<Id> => {
+  const versions = PROMPT_REGISTRY[id] as PromptTemplate<Id>[];
+  const wanted = version ?? parseVersionSetting(getPromptVersionSetting())[id];
+  const latest = versions[versions.length - 1];
+  if (wanted === undefined) return latest;
+
+  const template = versions.find((t) => t.version === wanted);
+  if (!template) {
+    console.warn(`Unknown prompt version ${id}@${wanted}, falling back to ${promptVersionKey(latest)}.`);
+    return latest;
+  }
+  return template;
+};
@@ -0,0 +1,87 @@
+import { Locale, UserProfile } from "../../types";
+import { PROFILE_VERSION } from "../profileStorage";
+import { MOCK_FIXTURES } from "../providers/mockFixtures";
+import { PROMPT_REGISTRY, promptVersionKey } from ".";
+import { PromptId, PromptTemplate, PromptVars, RenderedPrompt } from "./types";
+
+// Snapshot harness for the prompt templates. Renders every registered version
+// against a fixed set of profiles so a prompt change can be reviewed as a
+// text diff before it reaches the model. `npm run check:prompts` compares the
+// output with __snapshots__/prompts.snap.txt; add `-- --update` to rewrite it.
+
+export const SAMPLE_PROFILES: Record<string, UserProfile> = {
+  // Only what the profile form requires (age, gender, health context); every
+  // optional line renders as 未入力/なし
+  minimal: {
+    version: PROFILE_VERSION,
+    age: '30',
+    gender: 'female',
+    heightCm: '',
+    weightKg: '',
+    activityLevel: '',
+    allergies: [],
+    conditions: [],
+    dietaryStyles: [],
+    goals: [],
+    healthContext: '特になし',
+  },
+  full: {
+    version: PROFILE_VERSION,
+    age: '58',
+    gender: 'male',
+    heightCm: '170',
+    weightKg: '78',
+    activityLevel: 'light',
+    allergies: ['wheat', 'shrimp'],
+    conditions: ['hypertension', 'diabetes'],
+    dietaryStyles: ['halal'],
+    goals: ['reduce_salt', 'control_blood_sugar'],
+    healthContext: '健康診断で血圧と血糖値を指摘された。間食を減らしたい。',
+  },
+};
+
+const SAMPLE_LOCALES: Locale[] = ['ja', 'en'];
+const SAMPLE_BARCODE = '4901234567894';
+
+const sampleVars = (profile: UserProfile, locale: Locale): { [Id in PromptId]: PromptVars[Id][] } => ({
+  analysis: [
+    { profile, locale },
+    { profile, locale, barcode: SAMPLE_BARCODE, knownProduct: { barcode: SAMPLE_BARCODE, name: 'サンプル商品', brand: 'サンプル食品', source: 'sample', updatedAt: 0 } },
+    { profile, locale, productCorrection: { name: 'サンプル商品 減塩', brand: 'サンプル食品', category: 'snack' } },
+  ],
+  chat: [{ profile, locale, result: MOCK_FIXTURES[0] }],
+  compare: [{ profile, locale, results: MOCK_FIXTURES.slice(0, 2) }],
+});
+
+const renderEach = <Id extends PromptId>(id: Id, vars: PromptVars[Id][], suffix: string, out: Record<string, RenderedPrompt>) => {
+  for (const template of PROMPT_REGISTRY[id] as PromptTemplate<Id>[]) {
+    vars.forEach((v, i) => {
+      out[`${promptVersionKey(template)}/${suffix}#${i}`] = template.render(v);
+    });
+  }
+};
+
+// Keyed "analysis@1/full/en#0" (template, profile, locale, variant), in a
+// stable order so two runs can be diffed directly.
+export const renderPromptSnapshots = (): Record<string, RenderedPrompt> => {
+  const snapshots: Record<string, RenderedPrompt> = {};
+  for (const [profileName, profile] of Object.entries(SAMPLE_PROFILES)) {
+    for (const locale of SAMPLE_LOCALES) {
+      const vars = sampleVars(profile, locale);
+      const suffix = `${profileName}/${locale}`;
+      renderEach('analysis', vars.analysis, suffix, snapshots);
+      renderEach('chat', vars.chat, suffix, snapshots);
+      renderEach('compare', vars.compare, suffix, snapshots);
+    }
+  }
+  return snapshots;
+};
+
+// One section per rendered field, so the committed snapshot diffs line by line
+export const formatPromptSnapshots = (snapshots: Record<string, RenderedPrompt>): string =>
+  Object.entries(snapshots)
+    .flatMap(([key, { systemInstruction, userText }]) => [
+      `=== ${key} systemInstruction ===\n${systemInstruction}\n`,
+      ...(userText === undefined ? [] : [`=== ${key} userText ===\n${userText}\n`]),
+    ])
+    .join('\n');
@@ -0,0 +1,42 @@
+import { AnalysisResult, Locale, ProductCorrection, ProductInfo, UserProfile } from "../../types";
+
+export type PromptId = 'analysis' | 'chat' | 'compare';
+
+export interface AnalysisPromptVars {
+  profile: UserProfile;
+  locale: Locale;
+  barcode?: string;
+  knownProduct?: ProductInfo | null;
+  productCorrection?: ProductCorrection; // Rendered from v2 on; v1 ignores it
+}
+
+export interface ChatPromptVars {
+  profile: UserProfile;
+  locale: Locale;
+  result: AnalysisResult;
+}
+
+export interface ComparePromptVars {
+  profile: UserProfile;
+  locale: Locale;
+  results: AnalysisResult[];
+}
+
+export interface PromptVars {
+  analysis: AnalysisPromptVars;
+  chat: ChatPromptVars;
+  compare: ComparePromptVars;
+}
+
+export interface RenderedPrompt {
+  systemInstruction: string;
+  userText?: string; // Fixed text sent with the user turn, when the prompt has one
+}
+
+// A prompt is never edited once shipped: changes go into a new version so
+// history items keep pointing at the text that produced them.
+export interface PromptTemplate<Id extends PromptId = PromptId> {
+  id: Id;
+  version: number;
+  render: (vars: PromptVars[Id]) => RenderedPrompt;
+}
@@ -0,0 +1,189 @@
+import { ApiError, Content, FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { AnalysisProvider, AnalysisRequest, ChatRequest, CompareRequest, parseBase64 } from "../analysisProvider";
+import { ANALYSIS_RESPONSE_SCHEMA, COMPARISON_RESPONSE_SCHEMA } from "../analysisSchema";
+import { getApiKey } from "../config";
+import { getPromptTemplate } from "../prompts";
+import {
+  AnalysisError,
+  AnalysisValidationError,
+  EmptyResponseError,
+  MissingApiKeyError,
+  RateLimitError,
+  SafetyBlockError,
+  ServiceUnavailableError,
+  toAnalysisError,
+} from "../errors";
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+// Returns the block reason if Gemini refused the prompt or the answer.
+const getSafetyBlockReason = (response: GenerateContentResponse): string | undefined => {
+  if (response.promptFeedback?.blockReason) {
+    return response.promptFeedback.blockReason;
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return SAFETY_FINISH_REASONS.includes(finishReason) ? finishReason : undefined;
+};
+
+const toImageParts = (images: string[]) =>
+  images.map((img) => {
+    const { data, mimeType } = parseBase64(img);
+    return {
+      inlineData: {
+        data,
+        mimeType,
+      },
+    };
+  });
+
+// Runs in the browser (direct mode) and on the API proxy, which reads its key
+// from a server-only variable; error messages name the one to fix.
+const API_KEY_VARIABLE = typeof window === 'undefined' ? 'GEMINI_API_KEY' : 'VITE_API_KEY';
+
+const createClient = (): GoogleGenAI => {
+  const apiKey = getApiKey();
+
+  if (!apiKey) {
+    throw new MissingApiKeyError({ variable: API_KEY_VARIABLE });
+  }
+
+  return new GoogleGenAI({ apiKey });
+};
+
+// Maps SDK/HTTP failures onto our error taxonomy.
+const classifyGeminiError = (error: unknown): AnalysisError => {
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new RateLimitError(error);
+    if (error.status >= 500) return new ServiceUnavailableError(error);
+    if ([400, 401, 403].includes(error.status) && /api[_ ]?key/i.test(error.message)) {
+      return new MissingApiKeyError({ variable: API_KEY_VARIABLE, invalid: true, cause: error });
+    }
+  }
+  return toAnalysisError(error);
+};
+
+export const geminiProvider: AnalysisProvider = {
+  name: 'gemini',
+
+  async *analyze({ profile, images, signal, barcode, knownProduct, locale = 'ja', productCorrection }: AnalysisRequest): AsyncIterable<string> {
+    const ai = createClient();
+
+    const { systemInstruction, userText } = getPromptTemplate('analysis').render({ profile, locale, barcode, knownProduct, productCorrection });
+
+    const imageParts = toImageParts(images);
+
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: GEMINI_MODEL,
+        contents: {
+          parts: [
+            ...imageParts,
+            { text: userText ?? '' }
+          ]
+        },
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: ANALYSIS_RESPONSE_SCHEMA,
+          abortSignal: signal,
+        },
+      });
+      for await (const chunk of stream) {
+        const blockReason = getSafetyBlockReason(chunk);
+        if (blockReason) {
+          throw new SafetyBlockError(blockReason);
+        }
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (error) {
+      // Let the caller turn aborts into cancel/timeout errors
+      if (signal?.aborted || error instanceof AnalysisError) throw error;
+      console.error("Gemini Analysis Error:", error);
+      throw classifyGeminiError(error);
+    }
+  },
+
+  async *chat({ profile, images, result, messages, signal, locale = 'ja' }: ChatRequest): AsyncIterable<string> {
+    const ai = createClient();
+
+    const { systemInstruction } = getPromptTemplate('chat').render({ profile, locale, result });
+
+    // Images go with the first question so every turn can refer to them
+    const contents: Content[] = messages.map((message, index) => ({
+      role: message.role,
+      parts: [
+        ...(index === 0 ? toImageParts(images) : []),
+        { text: message.text },
+      ],
+    }));
+
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: GEMINI_MODEL,
+        contents,
+        config: {
+          systemInstruction,
+          abortSignal: signal,
+        },
+      });
+      for await (const chunk of stream) {
+        const blockReason = getSafetyBlockReason(chunk);
+        if (blockReason) {
+          throw new SafetyBlockError(blockReason);
+        }
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (error) {
+      if (signal?.aborted || error instanceof AnalysisError) throw error;
+      console.error("Gemini Chat Error:", error);
+      throw classifyGeminiError(error);
+    }
+  },
+
+  async compare({ profile, results, signal, locale = 'ja' }: CompareRequest): Promise<unknown> {
+    const ai = createClient();
+
+    const { systemInstruction, userText } = getPromptTemplate('compare').render({ profile, locale, results });
+
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: { parts: [{ text: userText ?? '' }] },
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: COMPARISON_RESPONSE_SCHEMA,
+          abortSignal: signal,
+        },
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Gemini Compare Error:", error);
+      throw classifyGeminiError(error);
+    }
+
+    const blockReason = getSafetyBlockReason(response);
+    if (blockReason) {
+      throw new SafetyBlockError(blockReason);
+    }
+
+    const text = response.text;
+    if (!text) {
+      throw new EmptyResponseError();
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new AnalysisValidationError([{ path: '', message: 'response is not valid JSON' }]);
+    }
+  },
+};
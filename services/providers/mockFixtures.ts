@@ -0,0 +1,70 @@
+import { AnalysisResult } from "../../types";
+
+// Canned results served by the mock provider. Keep these realistic enough to
+// exercise every section of AnalysisView.
+export const MOCK_FIXTURES: AnalysisResult[] = [
+  {
+    imageQualityCheck: { isUnclear: false, reason: "" },
+    product: { name: "ポテトチップス うすしお味", brand: "モック製菓", category: "snack", confidence: 92 },
+    calorieAnalysis: {
+      productCalories: 336,
+      userDailyNeed: 2000,
+      percentage: 17,
+      note: "ポテトチップス（うすしお）60g 1袋の表示値を参照しました。",
+    },
+    nutritionFacts: {
+      servingSize: "1袋(60g)あたり",
+      servingGrams: 60,
+      perServing: { energyKcal: 336, proteinG: 2.8, fatG: 21.6, carbohydrateG: 32.4, saltEquivalentG: 0.6 },
+      source: "label",
+    },
+    ingredients: ["じゃがいも（国産）", "植物油", "食塩", "デキストリン", "調味料（アミノ酸等）", "（一部に乳成分・えびを含む）"],
+    healthScore: { score: 35, reason: "脂質と食塩相当量が多く、減塩中の方には不向きです。" },
+    summary: "【モック】ポテトチップス（うすしお）。脂質と食塩相当量が多く、血圧が気になる方は1袋を数回に分けて食べるのがおすすめです。",
+    pros: ["手軽にエネルギーを補給できる", "ビタミンCやカリウムを少量含む"],
+    cons: ["食塩相当量が多く、むくみの原因になりやすい", "脂質が多く、カロリー過多になりやすい"],
+    recommendations: [
+      { name: "減塩 ポテトチップス", reason: "食塩相当量を抑えつつ同じ食感を楽しめます。" },
+      { name: "素焼き ミックスナッツ 無塩", reason: "良質な脂質と食物繊維が摂れる間食です。" },
+      { name: "ノンフライ 野菜チップス", reason: "油分が少なく、カロリーを抑えられます。" },
+    ],
+  },
+  {
+    imageQualityCheck: { isUnclear: false, reason: "" },
+    product: { name: "緑茶", brand: "", category: "beverage", confidence: 45 },
+    calorieAnalysis: {
+      productCalories: 0,
+      userDailyNeed: 2000,
+      percentage: 0,
+      note: "成分表示がないため、同種の一般的な商品の数値を参照しました。",
+    },
+    nutritionFacts: {
+      servingSize: "100mlあたり",
+      servingGrams: 100,
+      perServing: { energyKcal: 0, proteinG: 0, fatG: 0, carbohydrateG: 0, sugarG: 0, saltEquivalentG: 0.02 },
+      source: "estimated",
+    },
+    ingredients: ["緑茶（国産）", "ビタミンC"],
+    healthScore: { score: 85, reason: "カロリーがなく、日常の水分補給に適しています。" },
+    summary: "【モック】無糖の緑茶（500ml）。カロリーがなく、カテキンを含むため日常の水分補給に適しています。",
+    pros: ["カロリー・糖質ゼロ", "カテキンによる抗酸化作用が期待できる"],
+    cons: ["カフェインを含むため、就寝前の大量摂取は控えめに"],
+    recommendations: [
+      { name: "麦茶 ノンカフェイン 2L", reason: "カフェインを避けたい時間帯の水分補給に。" },
+      { name: "特定保健用食品 緑茶", reason: "脂肪の吸収を抑える機能が表示されています。" },
+      { name: "水出し 緑茶 ティーバッグ", reason: "自宅で手軽に無糖のお茶を用意できます。" },
+    ],
+  },
+  {
+    imageQualityCheck: { isUnclear: true, reason: "【モック】画像が暗く、商品名や成分表示を読み取れませんでした。" },
+    ingredients: [],
+    summary: "",
+    pros: [],
+    cons: [],
+    recommendations: [],
+  },
+];
+
+// Pin a specific image hash to a fixture index (see hashImages) to reproduce a
+// scenario deterministically, e.g. { "1a2b3c4d": 2 } always returns the unclear result.
+export const MOCK_FIXTURES_BY_HASH: Record<string, number> = {};
@@ -0,0 +1,64 @@
+import { AnalysisProvider, AnalysisRequest, ChatRequest, CompareRequest } from "../analysisProvider";
+import { ANALYSIS_RESPONSE_SCHEMA } from "../analysisSchema";
+import { sleep } from "../async";
+import { hashImages } from "../hash";
+import { MOCK_FIXTURES, MOCK_FIXTURES_BY_HASH } from "./mockFixtures";
+
+const MOCK_LATENCY_MS = 800;
+// Responses are streamed in small pieces to exercise progressive rendering
+const MOCK_CHAT_CHUNK_SIZE = 6;
+const MOCK_JSON_CHUNK_SIZE = 32;
+const MOCK_CHUNK_DELAY_MS = 40;
+
+// Offline backend for development and demos. No API key or network required.
+export const mockProvider: AnalysisProvider = {
+  name: 'mock',
+
+  async *analyze({ images, signal }: AnalysisRequest): AsyncIterable<string> {
+    const hash = hashImages(images);
+    const index = MOCK_FIXTURES_BY_HASH[hash] ?? parseInt(hash, 16) % MOCK_FIXTURES.length;
+    const fixture = MOCK_FIXTURES[index] as unknown as Record<string, unknown>;
+
+    // Serialize in the same field order the model streams
+    const ordering = ANALYSIS_RESPONSE_SCHEMA.propertyOrdering ?? Object.keys(fixture);
+    const json = JSON.stringify(Object.fromEntries(
+      ordering.filter((key) => key in fixture).map((key) => [key, fixture[key]])
+    ));
+
+    await sleep(MOCK_LATENCY_MS, signal);
+    for (let i = 0; i < json.length; i += MOCK_JSON_CHUNK_SIZE) {
+      yield json.slice(i, i + MOCK_JSON_CHUNK_SIZE);
+      await sleep(MOCK_CHUNK_DELAY_MS, signal);
+    }
+  },
+
+  async *chat({ result, messages, signal }: ChatRequest): AsyncIterable<string> {
+    const question = messages[messages.length - 1]?.text ?? '';
+    const reply =
+      `（オフラインモードの回答です）「${question}」について、分析結果の要点をお伝えします。` +
+      `${result.summary} 具体的な量や飲み合わせが気になる場合は、医師・薬剤師にご相談ください。`;
+
+    await sleep(MOCK_LATENCY_MS, signal);
+    for (let i = 0; i < reply.length; i += MOCK_CHAT_CHUNK_SIZE) {
+      yield reply.slice(i, i + MOCK_CHAT_CHUNK_SIZE);
+      await sleep(MOCK_CHUNK_DELAY_MS, signal);
+    }
+  },
+
+  // Picks the highest health score, so the verdict always agrees with the table
+  async compare({ results, signal }: CompareRequest): Promise<unknown> {
+    const scores = results.map((r) => r.healthScore?.score ?? -1);
+    const best = Math.max(...scores);
+    const bestIndex = best < 0 ? -1 : scores.indexOf(best);
+
+    await sleep(MOCK_LATENCY_MS, signal);
+
+    return {
+      bestIndex,
+      reason: bestIndex < 0
+        ? '（オフラインモードの回答です）スコアのある商品がないため、比較できませんでした。'
+        : `（オフラインモードの回答です）商品${bestIndex + 1}がもっとも健康スコアが高く、あなたのプロフィールに合っています。`,
+      tips: ['食べる量はパッケージの1食分を目安にしましょう。'],
+    };
+  },
+};
@@ -0,0 +1,77 @@
+import { AnalysisProvider, AnalysisRequest, ChatRequest, CompareRequest } from "../analysisProvider";
+import { getProxyUrl } from "../config";
+import {
+  AnalysisError,
+  MissingApiKeyError,
+  PayloadTooLargeError,
+  RateLimitError,
+  ServiceUnavailableError,
+  toAnalysisError,
+} from "../errors";
+import { ProxyAction, ProxyErrorBody, ProxyRequestBodies, proxyPath } from "../proxyProtocol";
+
+// Rebuilds the server's error, or classifies by status when the failure came
+// from the platform in front of it (no JSON body).
+const toProxyError = async (response: Response): Promise<AnalysisError> => {
+  try {
+    const { error } = (await response.json()) as ProxyErrorBody;
+    if (error?.kind === 'missing-api-key' && error.variable) return new MissingApiKeyError({ variable: error.variable });
+    if (error?.kind) return new AnalysisError(error.kind, error.message, { retryable: error.retryable });
+  } catch {
+    // Not our error body
+  }
+  if (response.status === 413) return new PayloadTooLargeError();
+  if (response.status === 429) return new RateLimitError();
+  if (response.status >= 500) return new ServiceUnavailableError();
+  return new AnalysisError('unknown', `APIプロキシがエラーを返しました (${response.status})。`);
+};
+
+const post = async <A extends ProxyAction>(action: A, body: ProxyRequestBodies[A], signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(`${getProxyUrl()}${proxyPath(action)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw toAnalysisError(error);
+  }
+  if (!response.ok) throw await toProxyError(response);
+  return response;
+};
+
+async function* readText(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Talks to the API proxy in server/, which holds the Gemini key. Use this
+// for public deploys so no key ends up in the client bundle.
+export const proxyProvider: AnalysisProvider = {
+  name: 'proxy',
+
+  async *analyze({ signal, ...request }: AnalysisRequest): AsyncIterable<string> {
+    yield* readText(await post('analyze', request, signal));
+  },
+
+  async *chat({ signal, ...request }: ChatRequest): AsyncIterable<string> {
+    yield* readText(await post('chat', request, signal));
+  },
+
+  async compare({ signal, ...request }: CompareRequest): Promise<unknown> {
+    const response = await post('compare', request, signal);
+    return response.json();
+  },
+};
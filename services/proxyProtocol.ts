@@ -0,0 +1,26 @@
+import { AnalysisRequest, ChatRequest, CompareRequest } from "./analysisProvider";
+import { AnalysisErrorKind } from "./errors";
+
+// Wire format between proxyProvider and the API proxy in server/.
+
+export type ProxyAction = 'analyze' | 'chat' | 'compare';
+
+export interface ProxyRequestBodies {
+  analyze: Omit<AnalysisRequest, 'signal'>;
+  chat: Omit<ChatRequest, 'signal'>;
+  compare: Omit<CompareRequest, 'signal'>;
+}
+
+// analyze and chat answer with the provider's text stream as text/plain,
+// compare with its JSON payload. Failures before the first byte answer with
+// an HTTP error status and this body; a stream that breaks later just ends.
+export interface ProxyErrorBody {
+  error: {
+    kind: AnalysisErrorKind;
+    message: string;
+    retryable: boolean;
+    variable?: string; // MissingApiKeyError's env variable, so the card can name it
+  };
+}
+
+export const proxyPath = (action: ProxyAction): string => `/api/${action}`;
@@ -0,0 +1,168 @@
+import { ScanHistoryItem, UserProfile } from "../types";
+import { Messages, optionLabel } from "../i18n";
+import { summarizeDays } from "./foodLog";
+import { NUTRIENTS } from "./nutrition";
+import { trafficLightFor } from "./scoring";
+
+// Days of food log totals in the printable report
+const REPORT_LOG_DAYS = 14;
+
+type CsvValue = string | number | undefined;
+
+// Quotes when needed, and defuses text a spreadsheet would run as a formula
+const csvCell = (value: CsvValue): string => {
+  if (value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(Math.round(value * 10) / 10) : '';
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatDateTime = (timestamp: number, m: Messages): string =>
+  new Date(timestamp).toLocaleString(m.meta.intl, { dateStyle: 'short', timeStyle: 'short' });
+
+// One row per scan with its score, calorie card and per-serving nutrients.
+// Starts with a BOM so Excel opens Japanese text as UTF-8.
+export const historyToCsv = (items: ScanHistoryItem[], m: Messages): string => {
+  const header = [
+    m.data.csv.date,
+    m.data.csv.productName,
+    m.data.csv.brand,
+    m.data.csv.category,
+    m.data.csv.summary,
+    m.data.csv.score,
+    m.data.csv.rating,
+    m.score.nutriGradeLabel,
+    m.data.csv.productCalories,
+    m.data.csv.dailyPercentage,
+    m.data.csv.servingSize,
+    m.data.csv.source,
+    ...NUTRIENTS.map(({ key, unit }) => `${m.nutrients[key]} (${unit})`),
+    m.data.csv.timesLogged,
+    m.data.csv.barcode,
+    m.data.csv.id,
+  ];
+
+  const rows = items.map(({ id, timestamp, result, barcode, consumptions }) => {
+    const score = result.healthScore;
+    const facts = result.nutritionFacts;
+    return [
+      formatDateTime(timestamp, m),
+      result.product?.name,
+      result.product?.brand,
+      result.product ? optionLabel(m.options.productCategories, result.product.category) : undefined,
+      result.summary,
+      score?.score,
+      score ? m.score[score.trafficLight ?? trafficLightFor(score.score)] : undefined,
+      score?.nutriGrade,
+      result.calorieAnalysis?.productCalories,
+      result.calorieAnalysis?.percentage,
+      facts?.servingSize,
+      facts ? m.data.csv.sources[facts.source] : undefined,
+      ...NUTRIENTS.map(({ key }) => facts?.perServing[key]),
+      consumptions?.length ?? 0,
+      barcode,
+      id,
+    ];
+  });
+
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const formatNumber = (value: number | undefined, m: Messages, digits = 0): string =>
+  value === undefined ? '—' : value.toLocaleString(m.meta.intl, { maximumFractionDigits: digits });
+
+const listOrDash = (labels: string[]) => (labels.length > 0 ? labels.join(', ') : '—');
+
+const REPORT_STYLE = `
+  body { font-family: 'Zen Kaku Gothic New', 'Hiragino Sans', 'Noto Sans CJK JP', sans-serif; color: #1f2937; margin: 24px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; color: #134e4a; }
+  h2 { font-size: 14px; margin: 24px 0 8px; border-bottom: 2px solid #0d9488; padding-bottom: 4px; }
+  .meta { color: #6b7280; margin: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; font-weight: bold; }
+  td.num { text-align: right; white-space: nowrap; }
+  .note { margin-top: 24px; color: #6b7280; font-size: 11px; }
+  @media print { body { margin: 0; } tr { break-inside: avoid; } }
+`;
+
+// Self-contained HTML to print or save as PDF: the profile, recent food log
+// totals and every scan, in the user's language.
+export const buildHealthReport = (profile: UserProfile, items: ScanHistoryItem[], m: Messages, now = Date.now()): string => {
+  const r = m.data.report;
+  const o = m.options;
+  const labels = (map: Record<string, string>, ids: string[]) => listOrDash(ids.map((id) => optionLabel(map, id)));
+  const gender = { male: m.profile.genderMale, female: m.profile.genderFemale, other: m.profile.genderOther, '': '—' }[profile.gender];
+
+  const profileRows: [string, string][] = [
+    [m.profile.age, profile.age || '—'],
+    [m.profile.gender, gender],
+    [m.profile.height, profile.heightCm || '—'],
+    [m.profile.weight, profile.weightKg || '—'],
+    [m.profile.activityLevel, profile.activityLevel ? optionLabel(o.activityLevels, profile.activityLevel) : '—'],
+    [m.profile.allergies, labels(o.allergens, profile.allergies)],
+    [m.profile.conditions, labels(o.conditions, profile.conditions)],
+    [m.profile.dietaryStyles, labels(o.dietaryStyles, profile.dietaryStyles)],
+    [m.profile.goals, labels(o.goals, profile.goals)],
+    [m.profile.healthContext, profile.healthContext || '—'],
+  ];
+
+  const days = summarizeDays(items, REPORT_LOG_DAYS, now).filter((day) => day.foods.length > 0);
+  const dayRows = days.map((day) => `
+    <tr>
+      <td>${escapeHtml(new Date(day.date).toLocaleDateString(m.meta.intl, { month: 'short', day: 'numeric', weekday: 'short' }))}</td>
+      <td class="num">${formatNumber(day.totals.energyKcal, m)}</td>
+      <td class="num">${formatNumber(day.totals.saltEquivalentG, m, 1)}</td>
+      <td class="num">${formatNumber(day.totals.sugarG, m, 1)}</td>
+      <td>${escapeHtml(day.foods.map((food) => food.item.result.product?.name || food.item.result.summary.slice(0, 24)).join(' / '))}</td>
+    </tr>`).join('');
+
+  const scanRows = items.map(({ timestamp, result }) => {
+    const score = result.healthScore;
+    const perServing = result.nutritionFacts?.perServing;
+    return `
+    <tr>
+      <td>${escapeHtml(formatDateTime(timestamp, m))}</td>
+      <td>${result.product?.name ? `<strong>${escapeHtml(result.product.name)}</strong><br />` : ''}${escapeHtml(result.summary)}</td>
+      <td class="num">${score ? `${score.score} (${escapeHtml(m.score[score.trafficLight ?? trafficLightFor(score.score)])})` : '—'}</td>
+      <td class="num">${formatNumber(perServing?.energyKcal ?? result.calorieAnalysis?.productCalories, m)}</td>
+      <td class="num">${formatNumber(perServing?.saltEquivalentG, m, 1)}</td>
+      <td class="num">${formatNumber(perServing?.sugarG, m, 1)}</td>
+    </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(m.meta.intl)}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(r.title)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(r.title)}</h1>
+<p class="meta">${escapeHtml(r.generatedAt(formatDateTime(now, m)))}</p>
+
+<h2>${escapeHtml(r.profileSection)}</h2>
+<table>
+${profileRows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>
+
+<h2>${escapeHtml(r.foodLogSection(REPORT_LOG_DAYS))}</h2>
+${days.length > 0 ? `<table>
+<tr><th>${escapeHtml(r.day)}</th><th>${escapeHtml(m.nutrients.energyKcal)} (kcal)</th><th>${escapeHtml(m.nutrients.saltEquivalentG)} (g)</th><th>${escapeHtml(m.nutrients.sugarG)} (g)</th><th>${escapeHtml(r.foods)}</th></tr>
+${dayRows}
+</table>` : `<p>${escapeHtml(r.noFoodLog)}</p>`}
+
+<h2>${escapeHtml(r.scansSection(items.length))}</h2>
+${items.length > 0 ? `<table>
+<tr><th>${escapeHtml(m.data.csv.date)}</th><th>${escapeHtml(m.data.csv.summary)}</th><th>${escapeHtml(m.data.csv.score)}</th><th>kcal</th><th>${escapeHtml(m.nutrients.saltEquivalentG)} (g)</th><th>${escapeHtml(m.nutrients.sugarG)} (g)</th></tr>
+${scanRows}
+</table>` : `<p>${escapeHtml(m.history.empty)}</p>`}
+
+<p class="note">${escapeHtml(r.disclaimer)}</p>
+</body>
+</html>`;
+};
@@ -0,0 +1,81 @@
+import { AnalysisResult, Locale, ProductCorrection, UserProfile } from "../types";
+import { RESULTS_STORE, openDb, withStore } from "./db";
+import { fnv1a, sha256 } from "./hash";
+
+interface CachedResult {
+  key: string;
+  profileHash: string;
+  result: AnalysisResult;
+  createdAt: number;
+}
+
+// Key order independent, so re-saving the same profile from the form keeps
+// the same JSON.
+const profileJson = (profile: UserProfile): string => JSON.stringify(profile, Object.keys(profile).sort());
+
+// Only tags entries for pruneResultCache; the cache key itself uses SHA-256
+export const hashProfile = (profile: UserProfile): string => fnv1a([profileJson(profile)]);
+
+// Results depend on the backend, prompt version and output language too: a
+// mock answer must never be served once the real provider is configured, nor
+// a Japanese one after switching to English, nor one from a superseded prompt.
+// A product correction makes it a different analysis of the same photos.
+// Profile and photos go through SHA-256, since a collision would show another
+// product's verdict and allergen check. null (no caching) without SubtleCrypto.
+export const resultCacheKey = async (
+  provider: string,
+  promptVersion: string,
+  locale: Locale,
+  profile: UserProfile,
+  images: string[],
+  barcode?: string,
+  correction?: ProductCorrection
+): Promise<string | null> => {
+  const digest = await sha256([
+    profileJson(profile),
+    JSON.stringify(images),
+    barcode ?? '',
+    correction ? JSON.stringify([correction.name, correction.brand, correction.category]) : '',
+  ]);
+  return digest ? [provider, promptVersion, locale, digest].join(':') : null;
+};
+
+// Best-effort like the product cache: a broken store just means a cache miss.
+export const getCachedResult = async (key: string): Promise<AnalysisResult | null> => {
+  try {
+    const entry = await withStore<CachedResult | undefined>(RESULTS_STORE, 'readonly', (store) => store.get(key));
+    return entry?.result ?? null;
+  } catch (e) {
+    console.warn("Result cache read failed", e);
+    return null;
+  }
+};
+
+export const putCachedResult = async (key: string, profile: UserProfile, result: AnalysisResult): Promise<void> => {
+  const entry: CachedResult = { key, profileHash: hashProfile(profile), result, createdAt: Date.now() };
+  await withStore(RESULTS_STORE, 'readwrite', (store) => store.put(entry));
+};
+
+// Drops every entry computed for a different profile. Those keys can no
+// longer be hit, this just reclaims the space.
+export const pruneResultCache = async (profile: UserProfile): Promise<void> => {
+  const profileHash = hashProfile(profile);
+  const db = await openDb();
+  const store = db.transaction(RESULTS_STORE, 'readwrite').objectStore(RESULTS_STORE);
+
+  return new Promise((resolve, reject) => {
+    const request = store.openCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      if ((cursor.value as CachedResult).profileHash !== profileHash) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+  });
+};
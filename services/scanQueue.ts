@@ -0,0 +1,81 @@
+import { Locale, UserProfile } from "../types";
+import { SCAN_QUEUE_STORE, withStore } from "./db";
+import { AnalysisErrorKind, toAnalysisError } from "./errors";
+import { AnalysisOutcome, analyzeWithCache } from "./geminiService";
+
+// A scan captured without a connection, waiting to be analyzed
+export interface QueuedScan {
+  id: string;
+  createdAt: number;
+  images: string[];
+  barcode?: string;
+  locale: Locale; // Language at capture time, so the result reads as it would have then
+}
+
+export interface ScanQueueRun {
+  completed: number; // Analyzed and kept
+  failed: number; // Dropped: the analysis failed for good, or the photo was unclear
+  remaining: number; // Still queued, e.g. the connection dropped again
+}
+
+// Failures that would repeat on every retry. Anything else (network, quota,
+// timeouts, a missing key) keeps the scan queued for the next run.
+const PERMANENT_FAILURES: AnalysisErrorKind[] = ['safety-block', 'invalid-response', 'payload-too-large'];
+
+export const enqueueScan = async (scan: Omit<QueuedScan, 'id' | 'createdAt'>): Promise<QueuedScan> => {
+  const now = Date.now();
+  const queued: QueuedScan = { ...scan, id: now.toString(), createdAt: now };
+  await withStore(SCAN_QUEUE_STORE, 'readwrite', (store) => store.put(queued));
+  return queued;
+};
+
+// Oldest first
+export const getQueuedScans = async (): Promise<QueuedScan[]> => {
+  const scans = await withStore<QueuedScan[]>(SCAN_QUEUE_STORE, 'readonly', (store) => store.getAll());
+  return scans.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const removeQueuedScan = async (id: string): Promise<void> => {
+  await withStore(SCAN_QUEUE_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+let activeRun: Promise<ScanQueueRun> | null = null;
+
+// Analyzes the queued scans one at a time. `onAnalyzed` stores the result and
+// says whether it was kept. Stops at the first failure that may be temporary,
+// so scans stay queued while the connection is still flaky. Concurrent calls
+// (an `online` event during startup) share one run.
+export const runScanQueue = (
+  profile: UserProfile,
+  onAnalyzed: (scan: QueuedScan, outcome: AnalysisOutcome) => Promise<boolean>
+): Promise<ScanQueueRun> => {
+  if (activeRun) return activeRun;
+
+  activeRun = (async () => {
+    const scans = await getQueuedScans();
+    const run: ScanQueueRun = { completed: 0, failed: 0, remaining: scans.length };
+
+    for (const scan of scans) {
+      try {
+        const outcome = await analyzeWithCache(profile, scan.images, { barcode: scan.barcode, locale: scan.locale });
+        if (await onAnalyzed(scan, outcome)) run.completed++;
+        else run.failed++;
+      } catch (error) {
+        const analysisError = toAnalysisError(error);
+        if (!PERMANENT_FAILURES.includes(analysisError.kind)) {
+          console.warn("Queued scan failed, keeping it for later", analysisError);
+          break;
+        }
+        console.error("Queued scan failed, dropping it", analysisError);
+        run.failed++;
+      }
+      await removeQueuedScan(scan.id);
+      run.remaining--;
+    }
+    return run;
+  })().finally(() => {
+    activeRun = null;
+  });
+
+  return activeRun;
+};
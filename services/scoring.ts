@@ -0,0 +1,56 @@
+import { AnalysisResult, NutrientAmounts, NutriGrade, TrafficLight } from "../types";
+
+// Score thresholds for the traffic light
+const GREEN_MIN_SCORE = 70;
+const AMBER_MIN_SCORE = 40;
+
+export const trafficLightFor = (score: number): TrafficLight =>
+  score >= GREEN_MIN_SCORE ? 'green' : score >= AMBER_MIN_SCORE ? 'amber' : 'red';
+
+// Points = number of thresholds the value exceeds (Nutri-Score 2017, solid foods)
+const pointsFor = (value: number, thresholds: number[]) => thresholds.filter((t) => value > t).length;
+
+const ENERGY_KJ_THRESHOLDS = [335, 670, 1005, 1340, 1675, 2010, 2345, 2680, 3015, 3350];
+const SUGAR_G_THRESHOLDS = [4.5, 9, 13.5, 18, 22.5, 27, 31, 36, 40, 45];
+const SODIUM_MG_THRESHOLDS = [90, 180, 270, 360, 450, 540, 630, 720, 810, 900];
+const FIBER_G_THRESHOLDS = [0.9, 1.9, 2.8, 3.7, 4.7];
+const PROTEIN_G_THRESHOLDS = [1.6, 3.2, 4.8, 6.4, 8.0];
+
+// Nutri-Score style A–E from per-100g values. Japanese labels rarely list
+// saturated fat or fruit/vegetable content, so those components are left out;
+// treat the grade as a rough guide. Returns undefined without sugar data.
+export const computeNutriGrade = (per100g: NutrientAmounts): NutriGrade | undefined => {
+  if (per100g.sugarG === undefined) return undefined;
+
+  const sodiumMg = (per100g.saltEquivalentG * 1000) / 2.54;
+  const negative =
+    pointsFor(per100g.energyKcal * 4.184, ENERGY_KJ_THRESHOLDS) +
+    pointsFor(per100g.sugarG, SUGAR_G_THRESHOLDS) +
+    pointsFor(sodiumMg, SODIUM_MG_THRESHOLDS);
+  const fiber = pointsFor(per100g.fiberG ?? 0, FIBER_G_THRESHOLDS);
+  // Protein only counts for products that aren't already high in negatives
+  const protein = negative < 11 ? pointsFor(per100g.proteinG, PROTEIN_G_THRESHOLDS) : 0;
+  const total = negative - fiber - protein;
+
+  if (total <= -1) return 'A';
+  if (total <= 2) return 'B';
+  if (total <= 10) return 'C';
+  if (total <= 18) return 'D';
+  return 'E';
+};
+
+// Adds the locally derived traffic light and Nutri grade to the model's score.
+// Any allergen match forces red, whatever score the model gave.
+export const applyHealthScore = (result: AnalysisResult, hasAllergenMatch: boolean): AnalysisResult => {
+  if (!result.healthScore) return result;
+
+  const per100g = result.nutritionFacts?.per100g;
+  return {
+    ...result,
+    healthScore: {
+      ...result.healthScore,
+      trafficLight: hasAllergenMatch ? 'red' : trafficLightFor(result.healthScore.score),
+      nutriGrade: per100g ? computeNutriGrade(per100g) : undefined,
+    },
+  };
+};
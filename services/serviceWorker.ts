@@ -0,0 +1,11 @@
+// Installs public/sw.js, which keeps the app shell available offline.
+// Production builds only: in dev a cached shell would hide HMR updates.
+export const registerServiceWorker = () => {
+  // @ts-ignore
+  const isProduction = typeof import.meta !== 'undefined' && import.meta.env?.PROD;
+  if (!('serviceWorker' in navigator) || !isProduction) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((e) => console.warn("Service worker registration failed", e));
+  });
+};
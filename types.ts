@@ -1,7 +1,22 @@
+// UI and analysis output language
+export type Locale = 'ja' | 'en' | 'zh' | 'ko';
+
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+
+export type DietaryStyle = 'vegetarian' | 'vegan' | 'halal' | 'low_fodmap' | 'gluten_free' | 'low_carb';
+
 export interface UserProfile {
+  version: number; // Schema version of the stored record (see PROFILE_VERSION)
   age: string;
   gender: 'male' | 'female' | 'other' | '';
-  healthContext: string;
+  heightCm: string;
+  weightKg: string;
+  activityLevel: ActivityLevel | '';
+  allergies: string[]; // ids from ALLERGENS
+  conditions: string[]; // ids from CONDITIONS
+  dietaryStyles: DietaryStyle[];
+  goals: string[]; // ids from GOALS
+  healthContext: string; // Free text for anything the structured fields don't cover
 }
 
 export interface RecommendedProduct {
@@ -9,11 +24,32 @@ export interface RecommendedProduct {
   reason: string;
 }
 
+export type BmrFormula = 'mifflin-st-jeor' | 'japanese-reference';
+
 export interface CalorieAnalysis {
   productCalories: number; // kcal
   userDailyNeed: number; // kcal (Estimated TDEE)
   percentage: number; // %
   note: string; // Short text explanation (e.g., "Based on sedentary lifestyle...")
+  dailyNeedFormula?: BmrFormula; // Set when userDailyNeed was computed locally; absent = model estimate
+}
+
+export interface NutrientAmounts {
+  energyKcal: number;
+  proteinG: number;
+  fatG: number;
+  carbohydrateG: number;
+  sugarG?: number; // Often not listed on Japanese labels
+  fiberG?: number;
+  saltEquivalentG: number; // 食塩相当量
+}
+
+export interface NutritionFacts {
+  servingSize: string; // As printed, e.g. "1袋(60g)"
+  servingGrams: number; // g or ml per serving, 0 when unknown
+  perServing: NutrientAmounts;
+  per100g?: NutrientAmounts; // Normalized locally from servingGrams
+  source: 'label' | 'estimated';
 }
 
 export interface ImageQualityCheck {
@@ -21,20 +57,82 @@ export interface ImageQualityCheck {
   reason: string;
 }
 
+export type TrafficLight = 'green' | 'amber' | 'red';
+
+export type NutriGrade = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export interface HealthScore {
+  score: number; // 0-100, personalized by the model
+  reason: string;
+  trafficLight?: TrafficLight; // Derived locally from score (forced red on allergen match)
+  nutriGrade?: NutriGrade; // Nutri-Score style grade computed locally from per-100g nutrients
+}
+
+export type ProductCategory = 'snack' | 'beverage' | 'meal' | 'seasoning' | 'supplement' | 'cosmetic' | 'medicine' | 'other';
+
+export interface ProductIdentification {
+  name: string; // As the model read or recognized it, '' when it couldn't tell
+  brand: string; // Maker or brand, '' when unknown
+  category: ProductCategory;
+  confidence: number; // 0-100, how sure the model is about name and brand
+  correctedByUser?: boolean; // Name/brand/category were set by the user, not the model
+}
+
+// What the user says the product actually is, when the model got it wrong
+export type ProductCorrection = Pick<ProductIdentification, 'name' | 'brand' | 'category'>;
+
 export interface AnalysisResult {
   imageQualityCheck: ImageQualityCheck;
+  product?: ProductIdentification; // Absent on results saved before identification was requested
   calorieAnalysis?: CalorieAnalysis;
+  nutritionFacts?: NutritionFacts;
+  healthScore?: HealthScore;
+  ingredients?: string[]; // 原材料名 as printed; absent on results saved before it was extracted
   summary: string;
   pros: string[];
   cons: string[];
   recommendations: RecommendedProduct[];
 }
 
+export interface ComparisonVerdict {
+  bestIndex: number; // Index into the compared products, -1 if none suits the user
+  reason: string;
+  tips: string[]; // Short advice for whichever product the user picks
+}
+
+export interface ProductInfo {
+  barcode: string; // EAN-13 / JAN
+  name?: string;
+  brand?: string;
+  nutritionFacts?: NutritionFacts;
+  source: string; // Lookup source name, or 'scan' when learned from one of our own analyses
+  updatedAt: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+}
+
+export interface Consumption {
+  id: string;
+  timestamp: number; // When it was eaten
+  portion: number; // Multiple of nutritionFacts' serving, e.g. 0.5 or 2
+}
+
 export interface ScanHistoryItem {
   id: string;
   timestamp: number;
   result: AnalysisResult;
   imagePreviewUrl?: string;
+  barcode?: string;
+  chat?: ChatMessage[]; // Follow-up questions about this product, oldest first
+  consumptions?: Consumption[]; // Food log entries for this product
+  promptVersion?: string; // e.g. "analysis@1"; unset for scans made before prompts were versioned
+  favorite?: boolean;
+  tags?: string[]; // User labels, e.g. "朝食" or "子ども用"
+  note?: string; // Free-text user note
 }
 
 export enum AppState {
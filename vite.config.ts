@@ -1,19 +1,26 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiProxyPlugin } from './server/devServer';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Every VITE_ variable is inlined into the bundle, so a deploy must not
+    // see the key under that name: the API proxy reads GEMINI_API_KEY instead
+    if (command === 'build' && env.VITE_API_KEY) {
+      throw new Error("VITE_API_KEY would be embedded in the client bundle. Put the key in GEMINI_API_KEY for the API proxy and unset VITE_API_KEY.");
+    }
+    // Dev server only: a .env.local with just GEMINI_API_KEY keeps working for
+    // the in-browser provider, as it did before the key was kept out of builds
+    if (command === 'serve' && !env.VITE_API_KEY && env.GEMINI_API_KEY) {
+      process.env.VITE_API_KEY = env.GEMINI_API_KEY;
+    }
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), apiProxyPlugin(env)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),